@@ -1,10 +1,9 @@
 #!/usr/bin/env bun
-import { readFile } from "node:fs/promises";
-import { join } from "node:path";
-import { homedir } from "node:os";
 import { Effect, Stream, pipe, Option } from "effect";
 import {
   makeInstaloaderContext,
+  loadSessionFromFileEffect,
+  PlatformLayer,
   profileFromUsername,
   profileUsername,
   profileFollowees,
@@ -22,34 +21,19 @@ import {
   postCaption,
   type ProfileData,
   type JsonNode,
-  type CookieJar,
 } from "../src/index.ts";
 
 const USERNAME = "rifka.bjm";
 const MAX_POSTS = 20;
 
-function getSessionPath(username: string): string {
-  const configDir = process.env["XDG_CONFIG_HOME"] ?? join(homedir(), ".config");
-  return join(configDir, "instaloader", `session-${username}`);
-}
-
-async function loadSessionFromFile(username: string): Promise<CookieJar | null> {
-  try {
-    const sessionPath = getSessionPath(username);
-    const data = await readFile(sessionPath, "utf-8");
-    return JSON.parse(data) as CookieJar;
-  } catch {
-    return null;
-  }
-}
-
 async function main() {
   const program = Effect.gen(function* () {
     const ctx = yield* makeInstaloaderContext({ quiet: false });
 
-    const sessionData = yield* Effect.promise(() => loadSessionFromFile("zakaria_._ben"));
-    if (sessionData) {
-      yield* ctx.loadSession("zakaria_._ben", sessionData);
+    const session = yield* Effect.either(
+      Effect.provide(loadSessionFromFileEffect(ctx, "zakaria_._ben"), PlatformLayer)
+    );
+    if (session._tag === "Right") {
       console.log("Session loaded\n");
     } else {
       console.log("No session file found, running anonymously\n");
@@ -1,25 +1,12 @@
 #!/usr/bin/env bun
-import { writeFile, mkdir } from "node:fs/promises";
-import { join, dirname } from "node:path";
-import { homedir } from "node:os";
 import { Effect, pipe, Exit, Cause } from "effect";
 import {
   makeInstaloaderContext,
+  saveSessionToFileEffect,
+  PlatformLayer,
   TwoFactorAuthRequiredError,
 } from "../src/index.ts";
 
-function getSessionPath(username: string): string {
-  const configDir = process.env["XDG_CONFIG_HOME"] ?? join(homedir(), ".config");
-  return join(configDir, "instaloader", `session-${username}`);
-}
-
-async function saveSessionToFile(sessionData: Record<string, string>, username: string): Promise<void> {
-  const sessionPath = getSessionPath(username);
-  await mkdir(dirname(sessionPath), { recursive: true });
-  await writeFile(sessionPath, JSON.stringify(sessionData));
-  console.log(`Session saved to ${sessionPath}`);
-}
-
 function readPassword(): Promise<string> {
   return new Promise<string>((resolve) => {
     process.stdout.write("Password: ");
@@ -108,8 +95,8 @@ async function main() {
       console.log("Login successful!");
     }
     
-    const sessionData = yield* ctx.saveSession;
-    yield* Effect.promise(() => saveSessionToFile(sessionData, username));
+    const sessionPath = yield* Effect.provide(saveSessionToFileEffect(ctx), PlatformLayer);
+    console.log(`Session saved to ${sessionPath}`);
     console.log("You can now run logged-in tests.");
     
     yield* ctx.close;
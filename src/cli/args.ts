@@ -0,0 +1,453 @@
+import { Effect } from "effect";
+import { join } from "node:path";
+import { InvalidArgumentError } from "../exceptions/index.ts";
+import type { DownloadProfileOptions, InstaloaderOptions } from "../core/instaloader.ts";
+import { defaultConfigDir } from "../session/session-file.ts";
+import { COOKIE_BROWSERS, type CookieBrowser } from "../session/browser-cookies.ts";
+
+/** A download target as given on the command line, in Python instaloader's syntax. */
+export type CliTarget =
+  | { readonly kind: "profile"; readonly name: string }
+  | { readonly kind: "hashtag"; readonly name: string }
+  | { readonly kind: "location"; readonly id: string }
+  | { readonly kind: "feed" }
+  | { readonly kind: "stories" }
+  | { readonly kind: "saved" }
+  | { readonly kind: "post"; readonly shortcode: string }
+  | { readonly kind: "followees"; readonly profile: string };
+
+export interface CliArgs {
+  readonly targets: CliTarget[];
+  readonly login: string | null;
+  readonly password: string | null;
+  readonly sessionfile: string | null;
+  /** Browser to use the session of */
+  readonly loadCookies: CookieBrowser | null;
+  /** Profile directory or cookie database of `loadCookies` */
+  readonly cookiefile: string | null;
+  readonly help: boolean;
+  readonly loaderOptions: InstaloaderOptions;
+  /** Options of profile downloads; `fastUpdate` and the filters apply to all targets */
+  readonly profileOptions: DownloadProfileOptions;
+}
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+
+interface ParseState {
+  login: string | null;
+  password: string | null;
+  sessionfile: string | null;
+  loadCookies: CookieBrowser | null;
+  cookiefile: string | null;
+  help: boolean;
+  loaderOptions: InstaloaderOptions;
+  profileOptions: Mutable<DownloadProfileOptions>;
+}
+
+interface OptionSpec {
+  readonly names: readonly string[];
+  /** Name of the value in the usage, if the option takes one */
+  readonly value?: string;
+  /** Value used if the option is not followed by a value, i.e. by an argument not starting with `-` */
+  readonly defaultValue?: () => string;
+  readonly help: string;
+  readonly apply: (state: ParseState, value: string) => Effect.Effect<void, InvalidArgumentError>;
+}
+
+const set = (apply: (state: ParseState, value: string) => void) => (state: ParseState, value: string) =>
+  Effect.sync(() => apply(state, value));
+
+const parseNumber = (
+  option: string,
+  value: string,
+  valid: (n: number) => boolean
+): Effect.Effect<number, InvalidArgumentError> => {
+  const n = Number(value);
+  return value.trim() !== "" && valid(n)
+    ? Effect.succeed(n)
+    : Effect.fail(new InvalidArgumentError({ message: `Invalid value for ${option}: ${value}`, argument: option }));
+};
+
+const isPositiveInteger = (n: number): boolean => Number.isInteger(n) && n > 0;
+
+const OPTIONS: readonly OptionSpec[] = [
+  {
+    names: ["-h", "--help"],
+    help: "Show this help and exit",
+    apply: set((s) => { s.help = true; }),
+  },
+  // What to download of profiles
+  {
+    names: ["--no-profile-pic"],
+    help: "Do not download profile pictures",
+    apply: set((s) => { s.profileOptions.profilePic = false; }),
+  },
+  {
+    names: ["--no-posts"],
+    help: "Do not download regular posts",
+    apply: set((s) => { s.profileOptions.posts = false; }),
+  },
+  {
+    names: ["-s", "--stories"],
+    help: "Also download the stories of each profile (requires login)",
+    apply: set((s) => { s.profileOptions.stories = true; }),
+  },
+  {
+    names: ["--highlights"],
+    help: "Also download the highlights of each profile (requires login)",
+    apply: set((s) => { s.profileOptions.highlights = true; }),
+  },
+  {
+    names: ["--tagged"],
+    help: "Also download the posts each profile is tagged in",
+    apply: set((s) => { s.profileOptions.tagged = true; }),
+  },
+  {
+    names: ["--reels"],
+    help: "Also download reels",
+    apply: set((s) => { s.profileOptions.reels = true; }),
+  },
+  {
+    names: ["--igtv"],
+    help: "Also download IGTV videos",
+    apply: set((s) => { s.profileOptions.igtv = true; }),
+  },
+  // What to download of posts
+  {
+    names: ["--no-pictures"],
+    help: "Do not download post pictures",
+    apply: set((s) => { s.loaderOptions.downloadPictures = false; }),
+  },
+  {
+    names: ["-V", "--no-videos"],
+    help: "Do not download videos",
+    apply: set((s) => { s.loaderOptions.downloadVideos = false; }),
+  },
+  {
+    names: ["--no-video-thumbnails"],
+    help: "Do not download thumbnails of videos",
+    apply: set((s) => { s.loaderOptions.downloadVideoThumbnails = false; }),
+  },
+  {
+    names: ["-G", "--geotags"],
+    help: "Download the location of posts",
+    apply: set((s) => { s.loaderOptions.downloadGeotags = true; }),
+  },
+  {
+    names: ["-C", "--comments"],
+    help: "Download the comments of posts",
+    apply: set((s) => { s.loaderOptions.downloadComments = true; }),
+  },
+  {
+    names: ["--no-captions"],
+    help: "Do not create .txt files with the captions",
+    apply: set((s) => { s.loaderOptions.postMetadataTxtPattern = ""; }),
+  },
+  {
+    names: ["--post-metadata-txt"],
+    value: "PATTERN",
+    help: "Template of the .txt file written for each post",
+    apply: set((s, v) => { s.loaderOptions.postMetadataTxtPattern = v; }),
+  },
+  {
+    names: ["--storyitem-metadata-txt"],
+    value: "PATTERN",
+    help: "Template of the .txt file written for each story item",
+    apply: set((s, v) => { s.loaderOptions.storyitemMetadataTxtPattern = v; }),
+  },
+  {
+    names: ["--no-metadata-json"],
+    help: "Do not create a JSON file with the metadata of each post",
+    apply: set((s) => { s.loaderOptions.saveMetadata = false; }),
+  },
+  {
+    names: ["--no-compress-json"],
+    help: "Do not xz-compress the JSON files",
+    apply: set((s) => { s.loaderOptions.compressJson = false; }),
+  },
+  {
+    names: ["--slide"],
+    value: "RANGE",
+    help: 'Sidecar slides to download, e.g. "2", "1-3" or "last"',
+    apply: set((s, v) => { s.loaderOptions.slide = v; }),
+  },
+  // Which posts to download
+  {
+    names: ["-F", "--fast-update"],
+    help: "Stop at the first item that was already downloaded",
+    apply: set((s) => { s.profileOptions.fastUpdate = true; }),
+  },
+  {
+    names: ["--latest-stamps"],
+    value: "FILE",
+    defaultValue: () => join(defaultConfigDir(), "latest-stamps.ini"),
+    help: "Only download items newer than those recorded in this file",
+    apply: set((s, v) => { s.loaderOptions.latestStamps = v; }),
+  },
+  {
+    names: ["--post-filter", "--only-if"],
+    value: "FILTER",
+    help: "Only download posts for which this expression is true",
+    apply: set((s, v) => { s.profileOptions.postFilter = v; }),
+  },
+  {
+    names: ["--storyitem-filter"],
+    value: "FILTER",
+    help: "Only download story items for which this expression is true",
+    apply: set((s, v) => { s.profileOptions.storyitemFilter = v; }),
+  },
+  // Where to store the files
+  {
+    names: ["--dirname-pattern"],
+    value: "PATTERN",
+    help: 'Directory of the files, default "{target}"',
+    apply: set((s, v) => { s.loaderOptions.dirnamePattern = v; }),
+  },
+  {
+    names: ["--filename-pattern"],
+    value: "PATTERN",
+    help: 'Name of the files of posts and story items, default "{date_utc}_UTC"',
+    apply: set((s, v) => { s.loaderOptions.filenamePattern = v; }),
+  },
+  {
+    names: ["--title-pattern"],
+    value: "PATTERN",
+    help: "Name of profile pictures",
+    apply: set((s, v) => { s.loaderOptions.titlePattern = v; }),
+  },
+  {
+    names: ["--sanitize-paths"],
+    help: "Make file names valid on Windows",
+    apply: set((s) => { s.loaderOptions.sanitizePaths = true; }),
+  },
+  {
+    names: ["--resume-prefix"],
+    value: "PREFIX",
+    help: 'Prefix of the files to resume interrupted downloads from, default "iterator"',
+    apply: set((s, v) => { s.loaderOptions.resumePrefix = v; }),
+  },
+  {
+    names: ["--no-resume"],
+    help: "Do not resume interrupted downloads",
+    apply: set((s) => { s.loaderOptions.resumePrefix = null; }),
+  },
+  {
+    names: ["--download-concurrency"],
+    value: "N",
+    help: "Number of media files fetched at the same time, default 1",
+    apply: (s, v) =>
+      Effect.map(parseNumber("--download-concurrency", v, isPositiveInteger), (n) => {
+        s.loaderOptions.downloadConcurrency = n;
+      }),
+  },
+  {
+    names: ["--dedup-index"],
+    value: "FILE",
+    help: "Link media files downloaded before instead of storing them again",
+    apply: set((s, v) => { s.loaderOptions.dedupIndex = v; }),
+  },
+  {
+    names: ["--dedup-symlinks"],
+    help: "Link duplicates with symlinks instead of hardlinks",
+    apply: set((s) => { s.loaderOptions.dedupLinks = "symlink"; }),
+  },
+  {
+    names: ["--manifest"],
+    value: "FILENAME",
+    help: "Record saved items in this SQLite database in each target directory",
+    apply: set((s, v) => { s.loaderOptions.manifestFilename = v; }),
+  },
+  // Login
+  {
+    names: ["-l", "--login"],
+    value: "USERNAME",
+    help: "Log in, loading the session file or asking for the password",
+    apply: set((s, v) => { s.login = v.toLowerCase(); }),
+  },
+  {
+    names: ["-p", "--password"],
+    value: "PASSWORD",
+    help: "Password for --login, if the session file does not exist",
+    apply: set((s, v) => { s.password = v; }),
+  },
+  {
+    names: ["-f", "--sessionfile"],
+    value: "FILE",
+    help: "Session file, default ~/.config/instaloader/session-USERNAME",
+    apply: set((s, v) => { s.sessionfile = v; }),
+  },
+  {
+    names: ["-b", "--load-cookies"],
+    value: "BROWSER",
+    help: `Use the session of a browser: ${COOKIE_BROWSERS.join(", ")}`,
+    apply: (s, v) => {
+      const browser = COOKIE_BROWSERS.find((name) => name === v.toLowerCase());
+      if (browser === undefined) {
+        return Effect.fail(
+          new InvalidArgumentError({ message: `Invalid value for --load-cookies: ${v}`, argument: "--load-cookies" })
+        );
+      }
+      s.loadCookies = browser;
+      return Effect.void;
+    },
+  },
+  {
+    names: ["--cookiefile"],
+    value: "FILE",
+    help: "Cookie database or profile directory for --load-cookies",
+    apply: set((s, v) => { s.cookiefile = v; }),
+  },
+  // How to download
+  {
+    names: ["--user-agent"],
+    value: "USER_AGENT",
+    help: "User agent of the requests",
+    apply: set((s, v) => { s.loaderOptions.userAgent = v; }),
+  },
+  {
+    names: ["--max-connection-attempts"],
+    value: "N",
+    help: "Attempts of a request before giving up, default 3",
+    apply: (s, v) =>
+      Effect.map(parseNumber("--max-connection-attempts", v, isPositiveInteger), (n) => {
+        s.loaderOptions.maxConnectionAttempts = n;
+      }),
+  },
+  {
+    names: ["--request-timeout"],
+    value: "SECONDS",
+    help: "Timeout of each request, default 300",
+    apply: (s, v) =>
+      Effect.map(parseNumber("--request-timeout", v, (n) => n > 0), (n) => {
+        s.loaderOptions.requestTimeout = n * 1000;
+      }),
+  },
+  {
+    names: ["--no-iphone"],
+    help: "Do not use the iPhone API for high quality pictures",
+    apply: set((s) => { s.loaderOptions.iphoneSupport = false; }),
+  },
+  {
+    names: ["-q", "--quiet"],
+    help: "Only print errors, e.g. when run from cron",
+    apply: set((s) => { s.loaderOptions.quiet = true; }),
+  },
+];
+
+const PROFILE_NAME = /^[A-Za-z0-9._]+$/;
+
+/** Parses a target like `profile`, `#hashtag`, `%location`, `:feed`, `-shortcode` or `@profile`. */
+export const parseTarget = (argument: string): Effect.Effect<CliTarget, InvalidArgumentError> => {
+  // Shells complete directory names with a trailing slash
+  const target = argument.endsWith("/") ? argument.slice(0, -1) : argument;
+  const invalid = () =>
+    Effect.fail(new InvalidArgumentError({ message: `Target ${argument} is not understood.`, argument: "target" }));
+  const rest = target.slice(1);
+  switch (target[0]) {
+    case "#":
+      return rest !== "" ? Effect.succeed({ kind: "hashtag", name: rest }) : invalid();
+    case "%":
+      return /^\d+$/.test(rest) ? Effect.succeed({ kind: "location", id: rest }) : invalid();
+    case "-":
+      return /^[A-Za-z0-9_-]+$/.test(rest) ? Effect.succeed({ kind: "post", shortcode: rest }) : invalid();
+    case "@":
+      return PROFILE_NAME.test(rest) ? Effect.succeed({ kind: "followees", profile: rest.toLowerCase() }) : invalid();
+    case ":":
+      return target === ":feed" || target === ":stories" || target === ":saved"
+        ? Effect.succeed({ kind: rest as "feed" | "stories" | "saved" })
+        : invalid();
+    default:
+      return PROFILE_NAME.test(target) ? Effect.succeed({ kind: "profile", name: target.toLowerCase() }) : invalid();
+  }
+};
+
+/**
+ * Parses the command line arguments after the program name. Options take their value
+ * as `--option value` or `--option=value`; arguments after `--` are targets, which
+ * allows `-shortcode` targets.
+ */
+export const parseCliArgs = (argv: readonly string[]): Effect.Effect<CliArgs, InvalidArgumentError> =>
+  Effect.gen(function* () {
+    const state: ParseState = {
+      login: null,
+      password: null,
+      sessionfile: null,
+      loadCookies: null,
+      cookiefile: null,
+      help: false,
+      loaderOptions: {},
+      profileOptions: {},
+    };
+    const targets: CliTarget[] = [];
+    for (let i = 0; i < argv.length; i++) {
+      const argument = argv[i]!;
+      if (argument === "--") {
+        for (const target of argv.slice(i + 1)) {
+          targets.push(yield* parseTarget(target));
+        }
+        break;
+      }
+      if (!argument.startsWith("-") || argument === "-") {
+        targets.push(yield* parseTarget(argument));
+        continue;
+      }
+      const [name, inlineValue] = argument.startsWith("--") && argument.includes("=")
+        ? [argument.slice(0, argument.indexOf("=")), argument.slice(argument.indexOf("=") + 1)]
+        : [argument, undefined];
+      const option = OPTIONS.find((spec) => spec.names.includes(name!));
+      if (option === undefined) {
+        return yield* Effect.fail(
+          new InvalidArgumentError({
+            message: `Unknown option ${name}. Give -shortcode targets after "--".`,
+            argument: name!,
+          })
+        );
+      }
+      let value = inlineValue;
+      if (option.value === undefined) {
+        if (value !== undefined) {
+          return yield* Effect.fail(
+            new InvalidArgumentError({ message: `Option ${name} does not take a value.`, argument: name! })
+          );
+        }
+        value = "";
+      } else if (value === undefined) {
+        if (option.defaultValue !== undefined && (i + 1 === argv.length || argv[i + 1]!.startsWith("-"))) {
+          value = option.defaultValue();
+        } else if (i + 1 < argv.length) {
+          value = argv[++i]!;
+        } else {
+          return yield* Effect.fail(
+            new InvalidArgumentError({ message: `Option ${name} requires a value.`, argument: name! })
+          );
+        }
+      }
+      yield* option.apply(state, value);
+    }
+    return { ...state, targets };
+  });
+
+/** Usage text with all options. */
+export const usage = (program = "instaloader-ts"): string => {
+  const lines = OPTIONS.map((option) => {
+    const names = option.names.join(", ");
+    const value = option.value === undefined ? "" : option.defaultValue !== undefined ? ` [${option.value}]` : ` ${option.value}`;
+    return `  ${`${names}${value}`.padEnd(38)} ${option.help}`;
+  });
+  return [
+    `Usage: ${program} [options] [--] target ...`,
+    "",
+    "Targets:",
+    "  profile         Posts of a profile",
+    "  #hashtag        Posts with a hashtag",
+    "  %location_id    Posts of a location (requires login)",
+    "  :feed           Your feed (requires login)",
+    "  :stories        Stories of the profiles you follow (requires login)",
+    "  :saved          Your saved posts (requires login)",
+    "  -shortcode      A single post; give it after --",
+    "  @profile        The profiles a profile follows (requires login)",
+    "",
+    "Options:",
+    ...lines,
+  ].join("\n");
+};
@@ -0,0 +1,300 @@
+#!/usr/bin/env bun
+import { Cause, Effect, Exit, Fiber, Stream } from "effect";
+import type { FileSystem, Path, Error as PlatformError } from "@effect/platform";
+import { makeInstaloaderContext, type ContextError, type InstaloaderContextShape } from "../core/context.ts";
+import {
+  checkProfileIdEffect,
+  downloadFeedPostsEffect,
+  downloadHashtagEffect,
+  downloadLocationEffect,
+  downloadPostEffect,
+  downloadProfileEffect,
+  downloadSavedPostsEffect,
+  downloadStoriesEffect,
+  makeInstaloaderConfig,
+  PlatformLayer,
+  type InstaloaderConfig,
+} from "../core/instaloader.ts";
+import { compileItemFilter } from "../core/item-filter.ts";
+import {
+  fromShortcodeEffect,
+  hashtagFromNameEffect,
+  locationFromIdEffect,
+  profileFromUsername,
+  profileGetFolloweesStream,
+  profileUsername,
+} from "../structures/index.ts";
+import { loadSessionFromFileEffect, saveSessionToFileEffect } from "../session/session-file.ts";
+import { importBrowserSessionEffect } from "../session/browser-cookies.ts";
+import { parseCliArgs, usage, type CliArgs, type CliTarget } from "./args.ts";
+
+type FileError = PlatformError.PlatformError;
+
+/** Exit codes of Python instaloader. */
+export const ExitCode = {
+  Success: 0,
+  NonFatalError: 1,
+  InitFailure: 2,
+  LoginFailure: 3,
+  DownloadAborted: 4,
+  UserAborted: 5,
+  UnexpectedError: 99,
+} as const;
+
+/** Reads a line from the terminal, without echo for passwords. */
+const prompt = (question: string, hidden = false): Effect.Effect<string> =>
+  Effect.promise(
+    () =>
+      new Promise<string>((resolve) => {
+        process.stderr.write(question);
+        let input = "";
+        if (hidden) {
+          process.stdin.setRawMode?.(true);
+        }
+        process.stdin.resume();
+        process.stdin.setEncoding("utf8");
+        const onData = (data: string) => {
+          for (const char of data) {
+            if (char === "\n" || char === "\r" || char === "\u0004") {
+              process.stdin.off("data", onData);
+              process.stdin.setRawMode?.(false);
+              process.stdin.pause();
+              if (hidden) {
+                process.stderr.write("\n");
+              }
+              resolve(input);
+              return;
+            }
+            if (char === "\u0003") {
+              process.exit(ExitCode.UserAborted);
+            } else if (char === "\u007F" || char === "\b") {
+              input = input.slice(0, -1);
+            } else {
+              input += char;
+            }
+          }
+        };
+        process.stdin.on("data", onData);
+      })
+  );
+
+/**
+ * Logs in as `username` from its session file, or with the password, asking for it
+ * and for a two-factor authentication code as needed.
+ */
+const loginEffect = (
+  context: InstaloaderContextShape,
+  args: CliArgs,
+  username: string
+): Effect.Effect<void, ContextError | FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const loaded = yield* Effect.either(loadSessionFromFileEffect(context, username, args.sessionfile ?? undefined));
+    if (loaded._tag === "Left") {
+      const error = loaded.left;
+      if (error._tag !== "SystemError" || error.reason !== "NotFound") {
+        return yield* Effect.fail(error);
+      }
+      if (args.sessionfile !== null) {
+        yield* context.log("Session file does not exist yet - Logging in.");
+      }
+    }
+    if (loaded._tag === "Right" && (yield* context.testLogin) === username) {
+      yield* context.log(`Logged in as ${username}.`);
+      return;
+    }
+    let password = args.password;
+    for (;;) {
+      const attempt = yield* Effect.either(
+        context.login(username, password ?? (yield* prompt(`Enter Instagram password for ${username}: `, true)))
+      );
+      if (attempt._tag === "Right") {
+        break;
+      }
+      const error = attempt.left;
+      if (error._tag === "TwoFactorAuthRequiredError") {
+        yield* context.twoFactorLogin(yield* prompt("Enter 2FA verification code: "));
+        break;
+      }
+      // Only ask again if the password was not given on the command line
+      if (error._tag !== "BadCredentialsError" || password !== null) {
+        return yield* Effect.fail(error);
+      }
+      yield* context.error(error.message, false);
+      password = null;
+    }
+    yield* context.log(`Logged in as ${username}.`);
+  });
+
+const describeTarget = (target: CliTarget): string => {
+  switch (target.kind) {
+    case "profile":
+      return target.name;
+    case "hashtag":
+      return `#${target.name}`;
+    case "location":
+      return `%${target.id}`;
+    case "post":
+      return `-${target.shortcode}`;
+    case "followees":
+      return `@${target.profile}`;
+    default:
+      return `:${target.kind}`;
+  }
+};
+
+const downloadTargetEffect = (
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  args: CliArgs,
+  target: CliTarget
+): Effect.Effect<void, ContextError | FileError, FileSystem.FileSystem | Path.Path> => {
+  const { fastUpdate, postFilter, storyitemFilter } = args.profileOptions;
+  const postsOptions = { fastUpdate, postFilter };
+  switch (target.kind) {
+    case "profile":
+      return Effect.flatMap(checkProfileIdEffect(context, config, target.name), (profile) =>
+        downloadProfileEffect(context, config, profile, args.profileOptions)
+      );
+    case "hashtag":
+      return Effect.flatMap(hashtagFromNameEffect(context, target.name), (hashtag) =>
+        downloadHashtagEffect(context, config, hashtag, postsOptions)
+      );
+    case "location":
+      return Effect.flatMap(locationFromIdEffect(context, target.id), (location) =>
+        downloadLocationEffect(context, config, location, postsOptions)
+      );
+    case "feed":
+      return downloadFeedPostsEffect(context, config, postsOptions);
+    case "saved":
+      return downloadSavedPostsEffect(context, config, postsOptions);
+    case "stories":
+      return downloadStoriesEffect(context, config, undefined, { fastUpdate, storyitemFilter });
+    case "post":
+      return Effect.flatMap(fromShortcodeEffect(context, target.shortcode), (post) =>
+        downloadPostEffect(context, config, post, `-${target.shortcode}`)
+      );
+    case "followees":
+      return Effect.gen(function* () {
+        yield* context.log(`Retrieving followees of ${target.profile}...`);
+        const profile = yield* profileFromUsername(context, target.profile);
+        const followees = yield* profileGetFolloweesStream(context, profile);
+        yield* Stream.runForEach(followees.stream, (followee) =>
+          Effect.catchIf(
+            downloadProfileEffect(context, config, followee, args.profileOptions),
+            (error) => error._tag !== "AbortDownloadError",
+            (error) => context.error(`Download ${profileUsername(followee)}: ${error.message}`)
+          )
+        );
+      });
+  }
+};
+
+/** Runs the downloads of the parsed command line and returns the exit code. */
+export const runCli = (
+  args: CliArgs
+): Effect.Effect<number, never, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const context = yield* makeInstaloaderContext(args.loaderOptions);
+    const init = yield* Effect.either(
+      Effect.gen(function* () {
+        const config = yield* makeInstaloaderConfig(args.loaderOptions);
+        // Report invalid filters before logging in
+        if (args.profileOptions.postFilter !== undefined) {
+          yield* compileItemFilter(args.profileOptions.postFilter, "Post");
+        }
+        if (args.profileOptions.storyitemFilter !== undefined) {
+          yield* compileItemFilter(args.profileOptions.storyitemFilter, "StoryItem");
+        }
+        return config;
+      })
+    );
+    if (init._tag === "Left") {
+      console.error(init.left.message);
+      return ExitCode.InitFailure;
+    }
+    const config = init.right;
+
+    if (args.loadCookies !== null) {
+      const imported = yield* Effect.either(
+        importBrowserSessionEffect(context, args.loadCookies, args.cookiefile === null ? {} : { profile: args.cookiefile })
+      );
+      if (imported._tag === "Left") {
+        console.error(`Login error: ${imported.left.message}`);
+        return ExitCode.LoginFailure;
+      }
+      yield* context.log(`Logged in as ${imported.right} with the session of ${args.loadCookies}.`);
+    } else if (args.login !== null) {
+      const login = yield* Effect.either(loginEffect(context, args, args.login));
+      if (login._tag === "Left") {
+        console.error(`Login error: ${login.left.message}`);
+        return ExitCode.LoginFailure;
+      }
+    }
+
+    for (const target of args.targets) {
+      const result = yield* Effect.either(downloadTargetEffect(context, config, args, target));
+      if (result._tag === "Left") {
+        if (result.left._tag === "AbortDownloadError") {
+          yield* context.close;
+          console.error(`Download aborted: ${result.left.message}`);
+          return ExitCode.DownloadAborted;
+        }
+        yield* context.error(`Download ${describeTarget(target)}: ${result.left.message}`);
+      }
+    }
+
+    if (args.login !== null || args.loadCookies !== null) {
+      const saved = yield* Effect.either(saveSessionToFileEffect(context, args.sessionfile ?? undefined));
+      if (saved._tag === "Left") {
+        yield* context.error(`Cannot save session: ${saved.left.message}`);
+      } else {
+        yield* context.log(`Saved session to ${saved.right}.`);
+      }
+    }
+
+    const hasErrors = yield* context.hasStoredErrors;
+    yield* context.close;
+    return hasErrors ? ExitCode.NonFatalError : ExitCode.Success;
+  });
+
+/** Entry point of the `instaloader-ts` command; interrupting it with Ctrl+C saves the download position. */
+export const main = async (argv: readonly string[]): Promise<number> => {
+  const parsed = Effect.runSync(Effect.either(parseCliArgs(argv)));
+  if (parsed._tag === "Left") {
+    console.error(`${parsed.left.message}\nRun with --help for usage.`);
+    return ExitCode.InitFailure;
+  }
+  const args = parsed.right;
+  if (args.help) {
+    console.log(usage());
+    return ExitCode.Success;
+  }
+  if (args.targets.length === 0 && args.login === null && args.loadCookies === null) {
+    console.error(usage());
+    return ExitCode.InitFailure;
+  }
+
+  const fiber = Effect.runFork(Effect.provide(runCli(args), PlatformLayer));
+  const onSigint = () => {
+    Effect.runFork(Fiber.interrupt(fiber));
+  };
+  process.once("SIGINT", onSigint);
+  try {
+    const exit = await Effect.runPromise(Fiber.await(fiber));
+    if (Exit.isSuccess(exit)) {
+      return exit.value;
+    }
+    if (Cause.isInterruptedOnly(exit.cause)) {
+      console.error("\nInterrupted by user.");
+      return ExitCode.UserAborted;
+    }
+    console.error(Cause.pretty(exit.cause));
+    return ExitCode.UnexpectedError;
+  } finally {
+    process.off("SIGINT", onSigint);
+  }
+};
+
+if (import.meta.main) {
+  process.exit(await main(process.argv.slice(2)));
+}
@@ -1,6 +1,7 @@
 import { Effect, Stream } from "effect";
 import type { Result } from "./result";
 import { Ok, Err } from "./result";
+import type { FrozenNodeIterator } from "../iterators/node-iterator";
 
 export interface TypedAsyncIterable<E, A> {
   [Symbol.asyncIterator](): AsyncIterator<Result<E, A>>;
@@ -15,6 +16,11 @@ export interface TypedAsyncIterable<E, A> {
   count(): Promise<Result<E, number>>;
 }
 
+export interface FreezableAsyncIterable<E, A> extends TypedAsyncIterable<E, A> {
+  /** Capture the current position so the iteration can be resumed later */
+  freeze(): Promise<FrozenNodeIterator>;
+}
+
 export class TypedAsyncIterableImpl<E, A> implements TypedAsyncIterable<E, A> {
   constructor(
     private readonly streamEffect: Effect.Effect<Stream.Stream<A, E>>
@@ -145,6 +151,26 @@ export function fromStream<E, A>(
   return new TypedAsyncIterableImpl(Effect.succeed(stream));
 }
 
+export function fromFreezableStream<E, A>(
+  stream: Stream.Stream<A, E>,
+  freeze: Effect.Effect<FrozenNodeIterator>
+): FreezableAsyncIterable<E, A> {
+  async function* generator(): AsyncGenerator<Result<E, A>, void, undefined> {
+    try {
+      for await (const item of Stream.toAsyncIterable(stream)) {
+        yield Ok(item);
+      }
+    } catch (error) {
+      yield Err(error as E);
+    }
+  }
+
+  return {
+    ...fromAsyncGenerator(generator),
+    freeze: () => Effect.runPromise(freeze),
+  };
+}
+
 export function empty<E = never, A = never>(): TypedAsyncIterable<E, A> {
   return new TypedAsyncIterableImpl(Effect.succeed(Stream.empty));
 }
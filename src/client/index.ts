@@ -39,10 +39,11 @@ export {
   all as allOptions,
 } from "./option";
 
-export type { TypedAsyncIterable } from "./async-iterable";
+export type { TypedAsyncIterable, FreezableAsyncIterable } from "./async-iterable";
 export {
   fromStreamEffect,
   fromStream,
+  fromFreezableStream,
   fromArray,
   fromAsyncGenerator,
   empty,
@@ -57,10 +58,17 @@ export type {
   PostError,
   ProfileFetchError,
   PostLocation,
+  PostComment,
+  PostCommentAnswer,
   SidecarNode,
   StoryItem,
   Story,
   Highlight,
   Hashtag,
+  Location,
+  TopSearchResults,
   SessionData,
+  LoadedStructure,
+  LoadStructureError,
+  DownloadError,
 } from "./types";
@@ -1,10 +1,10 @@
-import { Effect, Option as EffectOption, Stream } from "effect";
+import { Cause, Effect, Exit, Fiber, Option as EffectOption, PubSub, Stream } from "effect";
 import type { Result } from "./result";
 import { Ok, Err } from "./result";
 import type { Option } from "./option";
 import { Some, None } from "./option";
-import type { TypedAsyncIterable } from "./async-iterable";
-import { fromStream, fromStreamEffect, fromAsyncGenerator } from "./async-iterable";
+import type { TypedAsyncIterable, FreezableAsyncIterable } from "./async-iterable";
+import { fromStream, fromStreamEffect, fromAsyncGenerator, fromFreezableStream } from "./async-iterable";
 import type {
   InstaloaderOptions,
   Profile,
@@ -15,19 +15,27 @@ import type {
   Story,
   Highlight,
   Hashtag,
+  TopSearchResults,
+  Location,
   PostLocation,
+  PostComment,
+  PostCommentAnswer,
   SidecarNode,
   ProfileFetchError,
+  LoadedStructure,
+  LoadStructureError,
+  DownloadError,
 } from "./types";
 import type {
   ProfileError,
   ConnectionError as ConnectionErr,
-  LoginRequiredError,
   ProfileNotExistsError,
 } from "../errors";
+import { AbortDownloadError, InstaloaderError, InvalidArgumentError, LoginRequiredError } from "../errors";
 import type { ContextError } from "../core/context";
 import {
   makeInstaloaderContext,
+  type DownloadProgress,
   type InstaloaderContextShape,
 } from "../core/context";
 import * as ProfileEffect from "../structures/profile";
@@ -35,12 +43,40 @@ import * as PostEffect from "../structures/post";
 import * as StoryEffect from "../structures/story";
 import * as HighlightEffect from "../structures/highlight";
 import * as HashtagEffect from "../structures/hashtag";
+import * as LocationEffect from "../structures/location";
+import * as TopSearchEffect from "../structures/top-search";
 import {
   getStoriesEffect,
   getHighlightsEffect,
   getFeedPostsEffect,
+  loadStructureFromFileEffect,
+  downloadProfileEffect,
+  checkProfileIdEffect,
+  downloadHashtagEffect,
+  downloadFeedPostsEffect,
+  downloadLocationEffect,
+  downloadSavedPostsEffect,
+  downloadStoriesEffect,
+  rebuildDedupIndexEffect,
+  makeInstaloaderConfig,
+  PlatformLayer,
+  type DownloadProfileOptions,
+  type DownloadProfileSummary,
+  type DownloadPostsOptions,
+  type DownloadStoriesOptions,
+  type DownloadCount,
+  type InstaloaderConfig,
 } from "../core/instaloader";
-import type { JsonNode } from "../structures/common";
+import { openManifest, type ManifestEntry, type ManifestQuery } from "../core/manifest";
+import { loadSessionFromFileEffect, saveSessionToFileEffect } from "../session/session-file";
+import {
+  importBrowserSessionEffect,
+  type BrowserCookiesOptions,
+  type CookieBrowser,
+} from "../session/browser-cookies";
+import type { JsonStructure } from "../structures/json-structure";
+import type { JsonNode, PostCommentAnswer as PostCommentAnswerData } from "../structures/common";
+import type { FrozenNodeIterator, NodeStream } from "../iterators/node-iterator";
 
 type CreateProfileError = ProfileNotExistsError | ConnectionErr | ProfileError;
 
@@ -112,6 +148,19 @@ function createHighlightWrapper(
   };
 }
 
+function createCommentAnswerWrapper(
+  context: InstaloaderContextShape,
+  answer: PostCommentAnswerData
+): PostCommentAnswer {
+  return {
+    id: answer.id,
+    createdAtUtc: answer.createdAtUtc,
+    text: answer.text,
+    owner: createProfileWrapper(context, answer.owner),
+    likesCount: answer.likesCount,
+  };
+}
+
 function createPostWrapper(
   context: InstaloaderContextShape,
   postData: PostEffect.PostData
@@ -198,9 +247,44 @@ function createPostWrapper(
       );
       return result.map((profileData) => createProfileWrapper(context, profileData));
     },
+
+    getComments(): TypedAsyncIterable<PostError, PostComment> {
+      const stream = Stream.map(PostEffect.getCommentsStream(context, postData), (comment) => ({
+        ...createCommentAnswerWrapper(context, comment),
+        answers: comment.answers.map((answer) => createCommentAnswerWrapper(context, answer)),
+      }));
+      return fromStream(stream) as TypedAsyncIterable<PostError, PostComment>;
+    },
+
+    async getLikes(): Promise<Result<LoginRequiredError, TypedAsyncIterable<PostError, Profile>>> {
+      const result = await Effect.runPromise(
+        Effect.either(PostEffect.getLikesStream(context, postData))
+      );
+
+      if (result._tag === "Left") {
+        return Err(result.left as LoginRequiredError);
+      }
+
+      const stream = Stream.map(result.right, (profileData) => createProfileWrapper(context, profileData));
+      return Ok(fromStream(stream) as TypedAsyncIterable<PostError, Profile>);
+    },
   };
 }
 
+async function wrapProfileNodeStream<E>(
+  context: InstaloaderContextShape,
+  nodeStreamEffect: Effect.Effect<NodeStream<ProfileEffect.ProfileData>, E>
+): Promise<Result<LoginRequiredError | InvalidArgumentError, FreezableAsyncIterable<PostError, Profile>>> {
+  const result = await Effect.runPromise(Effect.either(nodeStreamEffect));
+
+  if (result._tag === "Left") {
+    return Err(result.left as LoginRequiredError | InvalidArgumentError);
+  }
+
+  const stream = Stream.map(result.right.stream, (profileData) => createProfileWrapper(context, profileData));
+  return Ok(fromFreezableStream(stream, result.right.freeze) as FreezableAsyncIterable<PostError, Profile>);
+}
+
 function createProfileWrapper(
   context: InstaloaderContextShape,
   profileData: ProfileEffect.ProfileData
@@ -302,6 +386,31 @@ function createProfileWrapper(
       }
       return Ok(result.right);
     },
+
+    getFollowers(
+      resumeFrom?: FrozenNodeIterator
+    ): Promise<Result<LoginRequiredError | InvalidArgumentError, FreezableAsyncIterable<PostError, Profile>>> {
+      return wrapProfileNodeStream(context, ProfileEffect.getFollowersStream(context, profileData, resumeFrom));
+    },
+
+    getFollowees(
+      resumeFrom?: FrozenNodeIterator
+    ): Promise<Result<LoginRequiredError | InvalidArgumentError, FreezableAsyncIterable<PostError, Profile>>> {
+      return wrapProfileNodeStream(context, ProfileEffect.getFolloweesStream(context, profileData, resumeFrom));
+    },
+
+    async getSimilarAccounts(): Promise<Result<LoginRequiredError, TypedAsyncIterable<ProfileFetchError, Profile>>> {
+      const result = await Effect.runPromise(
+        Effect.either(ProfileEffect.getSimilarAccountsStream(context, profileData))
+      );
+
+      if (result._tag === "Left") {
+        return Err(result.left as LoginRequiredError);
+      }
+
+      const stream = Stream.map(result.right, (similar) => createProfileWrapper(context, similar));
+      return Ok(fromStream(stream) as TypedAsyncIterable<ProfileFetchError, Profile>);
+    },
   };
 }
 
@@ -380,16 +489,142 @@ function createHashtagWrapper(
   };
 }
 
+function createLocationWrapper(
+  context: InstaloaderContextShape,
+  locationData: LocationEffect.LocationData
+): Location {
+  const wrapPosts = (stream: Stream.Stream<PostEffect.PostData, LocationEffect.LocationError>) =>
+    fromStream(Stream.map(stream, (postData) => createPostWrapper(context, postData))) as TypedAsyncIterable<
+      PostError,
+      Post
+    >;
+
+  return {
+    id: LocationEffect.locationId(locationData),
+    name: LocationEffect.locationName(locationData),
+    slug: LocationEffect.locationSlug(locationData),
+    lat: LocationEffect.locationLat(locationData),
+    lng: LocationEffect.locationLng(locationData),
+    hasPublicPage: LocationEffect.locationHasPublicPage(locationData),
+    mediacount: LocationEffect.locationMediacount(locationData),
+    addressJson: LocationEffect.locationAddressJson(locationData),
+
+    getPosts(): TypedAsyncIterable<PostError, Post> {
+      return wrapPosts(LocationEffect.locationGetPostsStream(context, locationData));
+    },
+
+    getTopPosts(): TypedAsyncIterable<PostError, Post> {
+      return wrapPosts(LocationEffect.locationGetTopPostsStream(context, locationData));
+    },
+
+    getRecentPosts(): TypedAsyncIterable<PostError, Post> {
+      return wrapPosts(LocationEffect.locationGetRecentPostsStream(context, locationData));
+    },
+  };
+}
+
+function createTopSearchResultsWrapper(
+  context: InstaloaderContextShape,
+  results: TopSearchEffect.TopSearchResultsData
+): TopSearchResults {
+  return {
+    searchstring: TopSearchEffect.topSearchSearchstring(results),
+
+    getProfiles(): TypedAsyncIterable<never, Profile> {
+      return fromStream(
+        Stream.map(TopSearchEffect.topSearchGetProfiles(results), (profile) => createProfileWrapper(context, profile))
+      );
+    },
+
+    getPrefixedUsernames(): TypedAsyncIterable<never, string> {
+      return fromStream(TopSearchEffect.topSearchGetPrefixedUsernames(results));
+    },
+
+    getLocations(): TypedAsyncIterable<never, PostLocation> {
+      return fromStream(TopSearchEffect.topSearchGetLocations(results));
+    },
+
+    getHashtagStrings(): TypedAsyncIterable<never, string> {
+      return fromStream(TopSearchEffect.topSearchGetHashtagStrings(results));
+    },
+
+    getHashtags(): TypedAsyncIterable<never, Hashtag> {
+      return fromStream(
+        Stream.map(TopSearchEffect.topSearchGetHashtags(results), (hashtag) => createHashtagWrapper(context, hashtag))
+      );
+    },
+  };
+}
+
+function createLoadedStructureWrapper(
+  ctx: InstaloaderContextShape,
+  loaded: JsonStructure
+): LoadedStructure {
+  switch (loaded.nodeType) {
+    case "Post":
+      return { nodeType: "Post", structure: createPostWrapper(ctx, loaded.structure) };
+    case "Profile":
+      return { nodeType: "Profile", structure: createProfileWrapper(ctx, loaded.structure) };
+    case "StoryItem":
+      return { nodeType: "StoryItem", structure: createStoryItemWrapper(loaded.structure) };
+    case "Hashtag":
+      return { nodeType: "Hashtag", structure: createHashtagWrapper(ctx, loaded.structure) };
+  }
+}
+
+function toDownloadError(error: { readonly _tag: string; readonly message: string }): DownloadError {
+  if (error._tag === "SystemError" || error._tag === "BadArgument") {
+    return new InstaloaderError(error.message, error);
+  }
+  return error as DownloadError;
+}
+
+/**
+ * Runs a download, interrupting it on SIGINT so that the resume information of
+ * the current iteration is saved before it stops.
+ */
+async function runDownload<A, E extends { readonly _tag: string; readonly message: string }>(
+  effect: Effect.Effect<A, E>
+): Promise<Result<DownloadError, A>> {
+  const fiber = Effect.runFork(effect);
+  const onSigint = () => {
+    Effect.runFork(Fiber.interrupt(fiber));
+  };
+  process.once("SIGINT", onSigint);
+  try {
+    const exit = await Effect.runPromise(Fiber.await(fiber));
+    if (Exit.isSuccess(exit)) {
+      return Ok(exit.value);
+    }
+    const failure = Cause.failureOption(exit.cause);
+    if (EffectOption.isSome(failure)) {
+      return Err(toDownloadError(failure.value));
+    }
+    if (Cause.isInterrupted(exit.cause)) {
+      return Err(new AbortDownloadError("Download interrupted."));
+    }
+    throw Cause.squash(exit.cause);
+  } finally {
+    process.off("SIGINT", onSigint);
+  }
+}
+
 export class Instaloader {
   private readonly ctx: InstaloaderContextShape;
+  private readonly config: InstaloaderConfig;
 
-  private constructor(ctx: InstaloaderContextShape) {
+  private constructor(ctx: InstaloaderContextShape, config: InstaloaderConfig) {
     this.ctx = ctx;
+    this.config = config;
   }
 
-  static async create(options?: InstaloaderOptions): Promise<Result<never, Instaloader>> {
+  static async create(options?: InstaloaderOptions): Promise<Result<InvalidArgumentError, Instaloader>> {
+    const config = await Effect.runPromise(Effect.either(makeInstaloaderConfig(options)));
+    if (config._tag === "Left") {
+      return Err(new InvalidArgumentError(config.left.message, { argument: config.left.argument, cause: config.left }));
+    }
     const ctx = await Effect.runPromise(makeInstaloaderContext(options));
-    return Ok(new Instaloader(ctx));
+    return Ok(new Instaloader(ctx, config.right));
   }
 
   async isLoggedIn(): Promise<boolean> {
@@ -525,6 +760,139 @@ export class Instaloader {
     return Ok(createHashtagWrapper(this.ctx, result.right));
   }
 
+  async getLocation(locationId: number): Promise<Result<PostError | LoginRequiredError, Location>> {
+    const result = await Effect.runPromise(
+      Effect.either(LocationEffect.fromIdEffect(this.ctx, locationId))
+    );
+
+    if (result._tag === "Left") {
+      return Err(result.left as PostError | LoginRequiredError);
+    }
+
+    return Ok(createLocationWrapper(this.ctx, result.right));
+  }
+
+  async downloadProfile(
+    username: string,
+    options?: DownloadProfileOptions
+  ): Promise<Result<DownloadError, DownloadProfileSummary>> {
+    return runDownload(
+      Effect.provide(
+        Effect.flatMap(checkProfileIdEffect(this.ctx, this.config, username), (profile) =>
+          downloadProfileEffect(this.ctx, this.config, profile, options)
+        ),
+        PlatformLayer
+      )
+    );
+  }
+
+  async downloadHashtag(
+    name: string,
+    options?: DownloadPostsOptions
+  ): Promise<Result<DownloadError, DownloadCount>> {
+    return runDownload(
+      Effect.provide(
+        Effect.flatMap(HashtagEffect.fromNameEffect(this.ctx, name), (hashtag) =>
+          downloadHashtagEffect(this.ctx, this.config, hashtag, options)
+        ),
+        PlatformLayer
+      )
+    );
+  }
+
+  async downloadFeed(options?: DownloadPostsOptions): Promise<Result<DownloadError, DownloadCount>> {
+    return runDownload(
+      Effect.provide(downloadFeedPostsEffect(this.ctx, this.config, options), PlatformLayer)
+    );
+  }
+
+  async downloadLocation(
+    id: number | string,
+    options?: DownloadPostsOptions
+  ): Promise<Result<DownloadError, DownloadCount>> {
+    return runDownload(
+      Effect.provide(
+        Effect.flatMap(LocationEffect.fromIdEffect(this.ctx, id), (location) =>
+          downloadLocationEffect(this.ctx, this.config, location, options)
+        ),
+        PlatformLayer
+      )
+    );
+  }
+
+  async downloadSavedPosts(options?: DownloadPostsOptions): Promise<Result<DownloadError, DownloadCount>> {
+    return runDownload(
+      Effect.provide(downloadSavedPostsEffect(this.ctx, this.config, options), PlatformLayer)
+    );
+  }
+
+  /** Download the stories of the given users, or of all followed users. */
+  async downloadStories(
+    userids?: number[],
+    options?: DownloadStoriesOptions
+  ): Promise<Result<DownloadError, DownloadCount>> {
+    return runDownload(
+      Effect.provide(downloadStoriesEffect(this.ctx, this.config, userids, options), PlatformLayer)
+    );
+  }
+
+  /** Rebuild the deduplication index from the files in `dirs`; returns the number of indexed files. */
+  async rebuildDedupIndex(dirs: readonly string[]): Promise<Result<DownloadError, number>> {
+    return runDownload(Effect.provide(rebuildDedupIndexEffect(this.config, dirs), PlatformLayer));
+  }
+
+  /** Items recorded in the manifest database `file` that match `query`, newest first. */
+  async queryManifest(file: string, query?: ManifestQuery): Promise<Result<DownloadError, ManifestEntry[]>> {
+    return runDownload(
+      Effect.acquireUseRelease(
+        openManifest(file),
+        (manifest) => manifest.query(query),
+        (manifest) => manifest.close
+      )
+    );
+  }
+
+  /**
+   * Calls `listener` with the progress of every file download until the returned
+   * function is called. Events are dropped if the listener falls far behind.
+   */
+  onDownloadProgress(listener: (progress: DownloadProgress) => void): () => void {
+    const fiber = Effect.runFork(
+      Effect.scoped(
+        Effect.flatMap(PubSub.subscribe(this.ctx.downloadProgress), (subscription) =>
+          Stream.runForEach(Stream.fromQueue(subscription), (progress) => Effect.sync(() => listener(progress)))
+        )
+      )
+    );
+    return () => {
+      Effect.runFork(Fiber.interrupt(fiber));
+    };
+  }
+
+  async search(query: string): Promise<Result<PostError, TopSearchResults>> {
+    const result = await Effect.runPromise(
+      Effect.either(TopSearchEffect.topSearchFromQuery(this.ctx, query))
+    );
+
+    if (result._tag === "Left") {
+      return Err(result.left as PostError);
+    }
+
+    return Ok(createTopSearchResultsWrapper(this.ctx, result.right));
+  }
+
+  async loadStructureFromFile(filename: string): Promise<Result<LoadStructureError, LoadedStructure>> {
+    const result = await Effect.runPromise(
+      Effect.either(Effect.provide(loadStructureFromFileEffect(filename), PlatformLayer))
+    );
+
+    if (result._tag === "Left") {
+      return Err(new InvalidArgumentError(result.left.message, { argument: filename, cause: result.left }));
+    }
+
+    return Ok(createLoadedStructureWrapper(this.ctx, result.right));
+  }
+
   get context(): InstaloaderContextShape {
     return this.ctx;
   }
@@ -537,13 +905,72 @@ export class Instaloader {
   async getSessionData(): Promise<Result<LoginRequiredError, SessionData>> {
     const isLoggedIn = await Effect.runPromise(this.ctx.isLoggedIn);
     if (!isLoggedIn) {
-      const { LoginRequiredError } = await import("../errors");
       return Err(new LoginRequiredError("Login required to get session data"));
     }
     const sessionData = await Effect.runPromise(this.ctx.saveSession);
     return Ok(sessionData);
   }
 
+  /**
+   * Save the session in Python instaloader's format, readable only by the owner, to
+   * `filename` or the default session file of the logged-in user. Returns the filename.
+   */
+  async saveSessionToFile(filename?: string): Promise<Result<LoginRequiredError | InstaloaderError, string>> {
+    const result = await Effect.runPromise(
+      Effect.either(Effect.provide(saveSessionToFileEffect(this.ctx, filename), PlatformLayer))
+    );
+    if (result._tag === "Left") {
+      return Err(
+        result.left._tag === "LoginRequiredError"
+          ? new LoginRequiredError(result.left.message, result.left)
+          : new InstaloaderError(result.left.message, result.left)
+      );
+    }
+    return Ok(result.right);
+  }
+
+  /**
+   * Load the session of `username` from `filename` or its default session file, as
+   * written by {@link saveSessionToFile} or Python instaloader. Returns the filename.
+   */
+  async loadSessionFromFile(
+    username: string,
+    filename?: string
+  ): Promise<Result<InvalidArgumentError | InstaloaderError, string>> {
+    const result = await Effect.runPromise(
+      Effect.either(Effect.provide(loadSessionFromFileEffect(this.ctx, username, filename), PlatformLayer))
+    );
+    if (result._tag === "Left") {
+      return Err(
+        result.left._tag === "InvalidArgumentError"
+          ? new InvalidArgumentError(result.left.message, { argument: result.left.argument, cause: result.left })
+          : new InstaloaderError(result.left.message, result.left)
+      );
+    }
+    return Ok(result.right);
+  }
+
+  /**
+   * Use the Instagram session of `browser`, reading its cookies from the most recently
+   * used profile or `options.profile`. Fails with `LoginError` if it is not logged in.
+   * Returns the username.
+   */
+  async importBrowserSession(
+    browser: CookieBrowser,
+    options?: BrowserCookiesOptions
+  ): Promise<Result<ContextError | InstaloaderError, string>> {
+    const result = await Effect.runPromise(
+      Effect.either(Effect.provide(importBrowserSessionEffect(this.ctx, browser, options), PlatformLayer))
+    );
+    if (result._tag === "Left") {
+      const error = result.left;
+      return Err(
+        error._tag === "SystemError" || error._tag === "BadArgument" ? new InstaloaderError(error.message, error) : error
+      );
+    }
+    return Ok(result.right);
+  }
+
   private async runEffect<E, A>(effect: Effect.Effect<A, E>): Promise<Result<E, A>> {
     const result = await Effect.runPromise(Effect.either(effect));
     if (result._tag === "Left") {
@@ -1,16 +1,22 @@
 import type { Option } from "./option";
 import type { Result } from "./result";
-import type { TypedAsyncIterable } from "./async-iterable";
+import type { TypedAsyncIterable, FreezableAsyncIterable } from "./async-iterable";
+import type { FrozenNodeIterator } from "../iterators/node-iterator";
 import type {
   ConnectionError,
   BadResponseError,
   AbortDownloadError,
   LoginRequiredError,
+  InvalidArgumentError,
+  InstaloaderError,
   ProfileError as ProfileErr,
 } from "../errors";
 
 export type PostError = ConnectionError | BadResponseError | AbortDownloadError;
 export type ProfileFetchError = ProfileErr | ConnectionError | BadResponseError | AbortDownloadError;
+export type LoadStructureError = InvalidArgumentError;
+/** Errors of download operations; filesystem failures are reported as `InstaloaderError` */
+export type DownloadError = ProfileFetchError | LoginRequiredError | InstaloaderError;
 
 export interface SessionData {
   [key: string]: string;
@@ -23,6 +29,31 @@ export interface InstaloaderOptions {
   maxConnectionAttempts?: number;
   requestTimeout?: number;
   iphoneSupport?: boolean;
+  /** Directory pattern for downloads, e.g. `{target}` (default) or `{profile}` */
+  dirnamePattern?: string;
+  /** Filename pattern for downloaded posts and story items (default: `{date_utc}_UTC`) */
+  filenamePattern?: string;
+  downloadPictures?: boolean;
+  downloadVideos?: boolean;
+  downloadVideoThumbnails?: boolean;
+  downloadGeotags?: boolean;
+  downloadComments?: boolean;
+  saveMetadata?: boolean;
+  compressJson?: boolean;
+  postMetadataTxtPattern?: string;
+  storyitemMetadataTxtPattern?: string;
+  /** Sidecar slides to download, e.g. `2`, `1-3` or `last` */
+  slide?: string;
+  sanitizePaths?: boolean;
+  /**
+   * Prefix of the files that interrupted profile and saved-post downloads are resumed from
+   * (default: `iterator`); `null` disables resuming. Hashtag, location and feed downloads are not resumable.
+   */
+  resumePrefix?: string | null;
+  /** Ignore resume files older than their "best before" date (default: true) */
+  checkResumeBbd?: boolean;
+  /** INI file recording the newest downloaded items per profile, so profile downloads fetch only newer ones */
+  latestStamps?: string | null;
 }
 
 /**
@@ -46,6 +77,24 @@ export interface SidecarNode {
   readonly videoUrl: string | null;
 }
 
+/**
+ * A reply to a comment on a post
+ */
+export interface PostCommentAnswer {
+  readonly id: number;
+  readonly createdAtUtc: Date;
+  readonly text: string;
+  readonly owner: Profile;
+  readonly likesCount: number;
+}
+
+/**
+ * A comment on a post, including its replies
+ */
+export interface PostComment extends PostCommentAnswer {
+  readonly answers: PostCommentAnswer[];
+}
+
 export interface Profile {
   readonly userid: number;
   readonly username: string;
@@ -83,6 +132,16 @@ export interface Profile {
   getProfilePicUrl(): Promise<Result<ProfileFetchError, string>>;
   /** Check if profile has a public story */
   getHasPublicStory(): Promise<Result<ProfileFetchError, boolean>>;
+  /** Get followers (requires login); pass a frozen iterator to resume */
+  getFollowers(
+    resumeFrom?: FrozenNodeIterator
+  ): Promise<Result<LoginRequiredError | InvalidArgumentError, FreezableAsyncIterable<PostError, Profile>>>;
+  /** Get followees (requires login); pass a frozen iterator to resume */
+  getFollowees(
+    resumeFrom?: FrozenNodeIterator
+  ): Promise<Result<LoginRequiredError | InvalidArgumentError, FreezableAsyncIterable<PostError, Profile>>>;
+  /** Get accounts Instagram suggests as similar to this one (requires login) */
+  getSimilarAccounts(): Promise<Result<LoginRequiredError, TypedAsyncIterable<ProfileFetchError, Profile>>>;
 }
 
 export interface Post {
@@ -122,6 +181,10 @@ export interface Post {
   getSponsorUsers(): Promise<Profile[]>;
   /** Get coauthor/collaborator profiles */
   getCoauthorProducers(): Promise<Profile[]>;
+  /** Get comments with their answer threads */
+  getComments(): TypedAsyncIterable<PostError, PostComment>;
+  /** Get profiles that liked this post (requires login) */
+  getLikes(): Promise<Result<LoginRequiredError, TypedAsyncIterable<PostError, Profile>>>;
 }
 
 /**
@@ -185,3 +248,50 @@ export interface Hashtag {
   /** Get top posts with this hashtag */
   getTopPosts(): TypedAsyncIterable<PostError, Post>;
 }
+
+/**
+ * A location with its posts
+ */
+export interface Location {
+  readonly id: number;
+  readonly name: string;
+  readonly slug: string | null;
+  readonly lat: number | null;
+  readonly lng: number | null;
+  readonly hasPublicPage: boolean | null;
+  readonly mediacount: number | null;
+  /** Address in the layout of Instagram's `address_json` */
+  readonly addressJson: Record<string, unknown> | null;
+  /** Top posts, then the recent posts that were not among them */
+  getPosts(): TypedAsyncIterable<PostError, Post>;
+  /** Top posts of this location */
+  getTopPosts(): TypedAsyncIterable<PostError, Post>;
+  /** Most recent posts of this location */
+  getRecentPosts(): TypedAsyncIterable<PostError, Post>;
+}
+
+/**
+ * Results of a top search for profiles, hashtags and locations
+ */
+export interface TopSearchResults {
+  readonly searchstring: string;
+  /** Profiles found by the search */
+  getProfiles(): TypedAsyncIterable<never, Profile>;
+  /** Usernames of found profiles which start with the search string */
+  getPrefixedUsernames(): TypedAsyncIterable<never, string>;
+  /** Locations found by the search */
+  getLocations(): TypedAsyncIterable<never, PostLocation>;
+  /** Names of found hashtags */
+  getHashtagStrings(): TypedAsyncIterable<never, string>;
+  /** Hashtags found by the search */
+  getHashtags(): TypedAsyncIterable<never, Hashtag>;
+}
+
+/**
+ * A structure loaded from a saved JSON metadata file
+ */
+export type LoadedStructure =
+  | { readonly nodeType: "Post"; readonly structure: Post }
+  | { readonly nodeType: "Profile"; readonly structure: Profile }
+  | { readonly nodeType: "StoryItem"; readonly structure: StoryItem }
+  | { readonly nodeType: "Hashtag"; readonly structure: Hashtag };
@@ -0,0 +1,77 @@
+import { Effect, Option, pipe } from "effect";
+import { FileSystem, Path, type Error as PlatformError } from "@effect/platform";
+
+type FileError = PlatformError.PlatformError;
+
+const TEMP_FILE = /\.(\d+)\.tmp$/;
+
+/** Temporary file that `file` is written to before it is renamed into place. */
+export const tempFileFor = (file: string): string => `${file}.${process.pid}.tmp`;
+
+/**
+ * Writes `file` atomically: the data goes to a temporary file next to it, is flushed
+ * to disk and then renamed over `file`, so that a crash never leaves a truncated file.
+ * `mode` sets the permissions of a new file, e.g. `0o600`.
+ */
+export const writeFileAtomic = (
+  file: string,
+  data: Uint8Array | string,
+  options: { readonly mode?: number } = {}
+): Effect.Effect<void, FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const tempFile = tempFileFor(file);
+    yield* pipe(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const handle = yield* fsService.open(tempFile, { flag: "w", ...options });
+          yield* handle.writeAll(typeof data === "string" ? new TextEncoder().encode(data) : data);
+          yield* handle.sync;
+        })
+      ),
+      Effect.zipRight(fsService.rename(tempFile, file)),
+      Effect.tapError(() => Effect.ignore(fsService.remove(tempFile)))
+    );
+  });
+
+const processIsRunning = (pid: number): boolean => {
+  try {
+    // Signal 0 only checks whether the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+/**
+ * Removes the temporary files that {@link writeFileAtomic} left in `dir` and its
+ * subdirectories when a process writing them crashed. Files of running processes
+ * are kept. Returns the removed files.
+ */
+export const removeStaleTempFiles = (
+  dir: string
+): Effect.Effect<string[], FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+
+    const entries = yield* pipe(
+      fsService.readDirectory(dir, { recursive: true }),
+      Effect.catchAll(() => Effect.succeed([] as string[]))
+    );
+    const removed: string[] = [];
+    for (const entry of entries) {
+      const match = TEMP_FILE.exec(entry);
+      if (match === null || processIsRunning(Number(match[1]))) {
+        continue;
+      }
+      const file = pathService.join(dir, entry);
+      const info = yield* Effect.option(fsService.stat(file));
+      if (Option.isSome(info) && info.value.type === "File") {
+        yield* fsService.remove(file);
+        removed.push(file);
+      }
+    }
+    return removed;
+  });
@@ -1,4 +1,4 @@
-import { Effect, Ref, Duration, pipe } from "effect";
+import { Effect, Ref, Duration, PubSub, pipe } from "effect";
 import {
   AbortDownloadError,
   BadCredentialsError,
@@ -111,9 +111,22 @@ const createInitialState = (): ContextState => ({
   profileIdCache: new Map(),
 });
 
+/** Progress of a file download, published after every received chunk. */
+export interface DownloadProgress {
+  readonly url: string;
+  /** File being written */
+  readonly file: string;
+  /** Bytes written so far, including those of a resumed partial download */
+  readonly bytes: number;
+  /** Size of the complete file from `Content-Length`, if known */
+  readonly total: number | null;
+}
+
 export interface InstaloaderContextShape {
   readonly options: Required<InstaloaderContextOptions>;
   readonly stateRef: Ref.Ref<ContextState>;
+  /** Download progress events; subscribe with `PubSub.subscribe` or `Stream.fromPubSub` */
+  readonly downloadProgress: PubSub.PubSub<DownloadProgress>;
 
   readonly isLoggedIn: Effect.Effect<boolean>;
   readonly getUsername: Effect.Effect<string | null>;
@@ -157,7 +170,8 @@ export interface InstaloaderContextShape {
     params: Record<string, string>
   ) => Effect.Effect<Record<string, unknown>, ContextError>;
 
-  readonly getRaw: (url: string) => Effect.Effect<Response, ContextError>;
+  /** GET a file from the CDN; with a `Range` header, 206 and 416 responses are returned as well */
+  readonly getRaw: (url: string, headers?: Record<string, string>) => Effect.Effect<Response, ContextError>;
   readonly head: (url: string, allowRedirects?: boolean) => Effect.Effect<Response, ContextError>;
 }
 
@@ -362,6 +376,11 @@ export const makeInstaloaderContext = (
 ): Effect.Effect<InstaloaderContextShape> =>
   Effect.gen(function* () {
     const stateRef = yield* Ref.make(createInitialState());
+    // API queries run one at a time so that the rate limiter sees each of them
+    // before the next is sent, even while media files download concurrently.
+    const queryLock = yield* Effect.makeSemaphore(1);
+    // Slow subscribers miss old progress events instead of holding up downloads
+    const downloadProgress = yield* PubSub.sliding<DownloadProgress>(256);
 
     const opts: Required<InstaloaderContextOptions> = {
       sleep: options.sleep ?? true,
@@ -480,7 +499,7 @@ export const makeInstaloaderContext = (
       });
 
     // Get JSON
-    const getJson = (
+    const getJsonAttempt = (
       path: string,
       params: Record<string, string>,
       jsonOptions: { host?: string; usePost?: boolean; attempt?: number } = {}
@@ -684,7 +703,7 @@ export const makeInstaloaderContext = (
                   }
                 }
 
-                return yield* getJson(path, params, {
+                return yield* getJsonAttempt(path, params, {
                   host,
                   usePost,
                   attempt: attempt + 1,
@@ -698,6 +717,13 @@ export const makeInstaloaderContext = (
         return result;
       });
 
+    const getJson = (
+      path: string,
+      params: Record<string, string>,
+      jsonOptions: { host?: string; usePost?: boolean; attempt?: number } = {}
+    ): Effect.Effect<Record<string, unknown>, ContextError> =>
+      queryLock.withPermits(1)(getJsonAttempt(path, params, jsonOptions));
+
     // GraphQL query
     const graphqlQuery = (
       queryHash: string,
@@ -746,7 +772,7 @@ export const makeInstaloaderContext = (
       path: string,
       params: Record<string, string>
     ): Effect.Effect<Record<string, unknown>, ContextError> =>
-      Effect.gen(function* () {
+      queryLock.withPermits(1)(Effect.gen(function* () {
         const state = yield* Ref.get(stateRef);
 
         const headers: Record<string, string> = {
@@ -837,17 +863,17 @@ export const makeInstaloaderContext = (
             })
           );
         }
-      });
+      }));
 
     // Get raw response
-    const getRaw = (url: string): Effect.Effect<Response, ContextError> =>
+    const getRaw = (url: string, headers: Record<string, string> = {}): Effect.Effect<Response, ContextError> =>
       Effect.gen(function* () {
         const resp = yield* fetchWithTimeout(url, {
           method: "GET",
-          headers: defaultHttpHeaders(opts.userAgent, true),
+          headers: { ...defaultHttpHeaders(opts.userAgent, true), ...headers },
         });
 
-        if (resp.status === 200) {
+        if (resp.status === 200 || ("Range" in headers && (resp.status === 206 || resp.status === 416))) {
           return resp;
         }
 
@@ -1135,6 +1161,7 @@ export const makeInstaloaderContext = (
     const context: InstaloaderContextShape = {
       options: opts,
       stateRef,
+      downloadProgress,
 
       isLoggedIn: Effect.map(Ref.get(stateRef), (s) => s.username !== null),
       getUsername: Effect.map(Ref.get(stateRef), (s) => s.username),
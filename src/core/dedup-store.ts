@@ -0,0 +1,193 @@
+import { createHash } from "node:crypto";
+import { Effect, Option, Ref, Stream, pipe } from "effect";
+import { FileSystem, Path, type Error as PlatformError } from "@effect/platform";
+import { tempFileFor, writeFileAtomic } from "./atomic-file.ts";
+
+type FileError = PlatformError.PlatformError;
+
+/** How a duplicate file is made to point at the stored copy. */
+export type DedupLinkMode = "hardlink" | "symlink";
+
+// Files that are not media or not complete
+const UNINDEXED = [".part", ".tmp", ".json", ".json.xz", ".txt"];
+
+/**
+ * Content-addressed index of downloaded media, so that a file seen again, e.g. in
+ * a repost, a tagged post or a hashtag, is linked to the copy already downloaded
+ * instead of being stored twice.
+ *
+ * The index file lists one `{sha256}  {path}` line per file, like `sha256sum`, with
+ * paths relative to the index file. New entries are appended; {@link DedupStore.rebuild}
+ * rewrites the index from the files in the target directories.
+ */
+export interface DedupStore {
+  readonly file: string;
+  readonly linkMode: DedupLinkMode;
+  /** Path of a stored file with the given hash, if it still exists */
+  readonly lookup: (hash: string) => Effect.Effect<string | null>;
+  readonly record: (hash: string, path: string) => Effect.Effect<void, FileError>;
+  /**
+   * Replaces `path` with a link to a stored file of the same content. Returns the
+   * stored file, or null if the content is new and `path` was recorded instead.
+   */
+  readonly deduplicate: (path: string) => Effect.Effect<string | null, FileError>;
+  /**
+   * Rewrites the index from the media files in the given directories, skipping files
+   * named in `unindexedNames`, e.g. a manifest; returns the number of indexed files
+   */
+  readonly rebuild: (dirs: readonly string[], unindexedNames?: readonly string[]) => Effect.Effect<number, FileError>;
+}
+
+/** SHA-256 of a file as hex string, read in chunks. */
+export const hashFile = (path: string): Effect.Effect<string, FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const hash = createHash("sha256");
+    yield* Stream.runForEach(fsService.stream(path), (chunk) => Effect.sync(() => hash.update(chunk)));
+    return hash.digest("hex");
+  });
+
+const parseIndex = (content: string): Map<string, string> => {
+  const entries = new Map<string, string>();
+  for (const line of content.split("\n")) {
+    // A crash while appending may leave a partial last line
+    const match = /^([0-9a-f]{64}) {2}(.+)$/.exec(line);
+    if (match) {
+      entries.set(match[1]!, match[2]!);
+    }
+  }
+  return entries;
+};
+
+const formatEntry = (hash: string, path: string): string => `${hash}  ${path}\n`;
+
+/** Opens the deduplication index in `file`, which need not exist yet. */
+export const makeDedupStore = (
+  file: string,
+  linkMode: DedupLinkMode = "hardlink"
+): Effect.Effect<DedupStore, FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+
+    const base = pathService.dirname(pathService.resolve(file));
+    const exists = yield* fsService.exists(file);
+    const entriesRef = yield* Ref.make(exists ? parseIndex(yield* fsService.readFileString(file)) : new Map());
+    const lock = yield* Effect.makeSemaphore(1);
+
+    const provide = <A, E>(effect: Effect.Effect<A, E, FileSystem.FileSystem>) =>
+      Effect.provideService(effect, FileSystem.FileSystem, fsService);
+
+    const lookup = (hash: string): Effect.Effect<string | null> =>
+      Effect.gen(function* () {
+        const entry = (yield* Ref.get(entriesRef)).get(hash);
+        if (entry === undefined) {
+          return null;
+        }
+        const path = pathService.join(base, entry);
+        if (yield* Effect.orElseSucceed(fsService.exists(path), () => false)) {
+          return path;
+        }
+        yield* Ref.update(entriesRef, (entries) => {
+          entries.delete(hash);
+          return entries;
+        });
+        return null;
+      });
+
+    // Callers hold the lock
+    const recordUnlocked = (hash: string, path: string): Effect.Effect<void, FileError> =>
+      Effect.gen(function* () {
+        const entry = pathService.relative(base, pathService.resolve(path));
+        yield* fsService.makeDirectory(base, { recursive: true });
+        yield* fsService.writeFileString(file, formatEntry(hash, entry), { flag: "a" });
+        yield* Ref.update(entriesRef, (entries) => entries.set(hash, entry));
+      });
+
+    const link = (stored: string, path: string): Effect.Effect<void, FileError> =>
+      Effect.gen(function* () {
+        const tempFile = tempFileFor(path);
+        if (linkMode === "symlink") {
+          yield* fsService.symlink(pathService.relative(pathService.dirname(path), stored), tempFile);
+        } else {
+          yield* fsService.link(stored, tempFile);
+        }
+        yield* pipe(
+          fsService.rename(tempFile, path),
+          Effect.tapError(() => Effect.ignore(fsService.remove(tempFile)))
+        );
+      });
+
+    const isIndexed = (path: string, unindexedNames: readonly string[]): Effect.Effect<boolean> =>
+      Effect.gen(function* () {
+        if (
+          UNINDEXED.some((suffix) => path.endsWith(suffix)) ||
+          unindexedNames.includes(pathService.basename(path)) ||
+          pathService.resolve(path) === pathService.resolve(file)
+        ) {
+          return false;
+        }
+        // Media files are named with an extension, unlike the profile `id` files
+        if (pathService.extname(path) === "") {
+          return false;
+        }
+        // Links point at files that are indexed themselves
+        if (Option.isSome(yield* Effect.option(fsService.readLink(path)))) {
+          return false;
+        }
+        const info = yield* Effect.option(fsService.stat(path));
+        return Option.isSome(info) && info.value.type === "File";
+      });
+
+    return {
+      file,
+      linkMode,
+      lookup,
+      record: (hash, path) => lock.withPermits(1)(recordUnlocked(hash, path)),
+      deduplicate: (path) =>
+        Effect.flatMap(provide(hashFile(path)), (hash) =>
+          // Files of the same content downloaded at the same time are stored once
+          lock.withPermits(1)(
+            Effect.gen(function* () {
+              const stored = yield* lookup(hash);
+              if (stored !== null && pathService.resolve(stored) !== pathService.resolve(path)) {
+                yield* link(stored, path);
+                return stored;
+              }
+              if (stored === null) {
+                yield* recordUnlocked(hash, path);
+              }
+              return null;
+            })
+          )
+        ),
+      rebuild: (dirs, unindexedNames = []) =>
+        lock.withPermits(1)(
+          Effect.gen(function* () {
+            const entries = new Map<string, string>();
+            for (const dir of dirs) {
+              const names = yield* pipe(
+                fsService.readDirectory(dir, { recursive: true }),
+                Effect.catchAll(() => Effect.succeed([] as string[]))
+              );
+              for (const name of names.sort()) {
+                const path = pathService.join(dir, name);
+                if (!(yield* isIndexed(path, unindexedNames))) {
+                  continue;
+                }
+                const hash = yield* provide(hashFile(path));
+                if (!entries.has(hash)) {
+                  entries.set(hash, pathService.relative(base, pathService.resolve(path)));
+                }
+              }
+            }
+            yield* fsService.makeDirectory(base, { recursive: true });
+            yield* provide(
+              writeFileAtomic(file, Array.from(entries, ([hash, entry]) => formatEntry(hash, entry)).join(""))
+            );
+            yield* Ref.set(entriesRef, entries);
+            return entries.size;
+          })
+        ),
+    };
+  });
@@ -1,4 +1,4 @@
-import { Effect, Layer, Option, pipe, Stream } from "effect";
+import { Effect, FiberRef, Layer, Option, pipe, PubSub, Scope, Stream } from "effect";
 import { FileSystem, Path, Error as PlatformError } from "@effect/platform";
 import { NodeFileSystem, NodePath } from "@effect/platform-node";
 import {
@@ -9,48 +9,207 @@ import {
 import {
   AbortDownloadError,
   BadResponseError,
+  ConnectionError,
+  InvalidArgumentError,
   LoginRequiredError,
+  PrivateProfileNotFollowedError,
 } from "../exceptions/index.ts";
+import { xzCompress, xzDecompress } from "../utils/xz.ts";
+import { makeLatestStamps, type LatestStampKind } from "./latest-stamps.ts";
+import { removeStaleTempFiles, writeFileAtomic } from "./atomic-file.ts";
+import { hashFile, makeDedupStore, type DedupLinkMode, type DedupStore } from "./dedup-store.ts";
+import { openManifest, type Manifest, type ManifestItem } from "./manifest.ts";
+import { compileItemFilter, evaluateItemFilter, type ItemFilter, type ItemFilterType } from "./item-filter.ts";
+import {
+  formatTemplate,
+  localDate,
+  postTemplateFields,
+  profileTemplateFields,
+  storyItemTemplateFields,
+  templateContainsKey,
+  utcDate,
+  type TemplateFields,
+} from "./path-formatter.ts";
 import {
   type JsonNode,
   type ProfileData,
   type PostData,
+  profileFromUsername,
+  profileGetSavedPostsNodeStream,
+  profileFromId as profileFromIdEffect,
   profileUserid,
   profileUsername,
+  profileIsPrivate,
+  profileFollowedByViewer,
+  profileGetProfilePicUrl,
+  profileGetPostsNodeStream,
+  profileGetTaggedPostsNodeStream,
+  profileGetReelsNodeStream,
+  profileGetIgtvPostsNodeStream,
   storyFromNode,
+  storyGetItems,
+  storyOwnerUsername,
   type StoryData,
   type StoryItemData,
   highlightFromNode,
+  highlightTitle,
+  highlightGetItems,
   type HighlightData,
   type PostLocation,
   postFromNode,
-  postShortcode,
+  postFromNodeSync,
+  postGetOwnerProfile,
+  postOwnerUsername,
+  postOwnerId,
   postMediaid,
+  postIsPinned,
+  postDateUtc,
+  profileProfilePicUrl,
+  storyItemDateUtc,
+  hashtagName,
+  hashtagGetPostsStream,
+  type HashtagData,
+  locationId,
+  locationGetPostsStream,
+  type LocationData,
+  postShortcode,
   postTypename,
   postDateLocal,
-  postDateUtc,
   postUrl,
   postIsVideo,
   postMediacount,
-  postToDict,
   postGetSidecarNodes,
   postGetVideoUrl,
   postGetLocation,
+  postGetCommentsStream,
+  postCommentToDict,
+  storyItemShortcode,
   storyItemMediaid,
+  storyItemOwnerUsername,
+  storyItemOwnerId,
+  storyItemTypename,
   storyItemDateLocal,
-  storyItemDateUtc,
   storyItemIsVideo,
-  storyItemToDict,
   storyItemGetVideoUrl,
   storyItemGetUrl,
   postSupportedGraphqlTypes,
+  structureToJson,
+  loadStructure,
+  frozenNodeIteratorToJson,
+  loadFrozenNodeIterator,
+  type JsonStructure,
 } from "../structures/index.ts";
+import {
+  resumableIterationStream,
+  type FrozenNodeIterator,
+  type NodeStream,
+  type ResumableIterationResult,
+} from "../iterators/index.ts";
 
 export type InstaloaderError = ContextError | AbortDownloadError;
 type FileError = PlatformError.PlatformError;
 
 export const PlatformLayer = Layer.merge(NodeFileSystem.layer, NodePath.layer);
 
+interface RawDownload {
+  readonly response: Response;
+  /** Bytes of the partial file that the response continues */
+  readonly offset: number;
+}
+
+const contentRangeStart = (resp: Response): number | null => {
+  const match = /^bytes (\d+)-/.exec(resp.headers.get("Content-Range") ?? "");
+  return match ? Number(match[1]) : null;
+};
+
+/** Releases the connection of a response whose body is not read. */
+const discardBody = (resp: Response): Effect.Effect<void> =>
+  Effect.promise(() => resp.body?.cancel() ?? Promise.resolve());
+
+/**
+ * Requests `url`, continuing an existing `partFile` with a `Range` request. If the
+ * server cannot continue it, the whole file is requested again.
+ */
+const getRawResumableEffect = (
+  context: InstaloaderContextShape,
+  url: string,
+  partFile: string
+): Effect.Effect<RawDownload, ContextError | FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+
+    const offset = (yield* fsService.exists(partFile)) ? Number((yield* fsService.stat(partFile)).size) : 0;
+    if (offset > 0) {
+      const resp = yield* context.getRaw(url, { Range: `bytes=${offset}-` });
+      if (resp.status === 206 && contentRangeStart(resp) === offset) {
+        yield* context.log(`Resuming ${partFile} at ${offset} bytes`);
+        return { response: resp, offset };
+      }
+      if (resp.status === 200) {
+        return { response: resp, offset: 0 };
+      }
+      yield* discardBody(resp);
+    }
+    return { response: yield* context.getRaw(url), offset: 0 };
+  });
+
+/**
+ * Streams a response into `partFile`, publishing progress to the context, and renames
+ * it to `targetPath` once complete. An interrupted or failed transfer leaves the
+ * partial file behind to be resumed by the next download.
+ */
+const writeRawDownloadEffect = (
+  context: InstaloaderContextShape,
+  url: string,
+  { response, offset }: RawDownload,
+  partFile: string,
+  targetPath: string
+): Effect.Effect<void, ContextError | FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+
+    // The length of an encoded body does not match the decoded bytes
+    const contentLength = response.headers.get("Content-Length");
+    const total =
+      contentLength !== null && /^\d+$/.test(contentLength) && !response.headers.has("Content-Encoding")
+        ? offset + Number(contentLength)
+        : null;
+
+    const bytes = yield* Effect.scoped(
+      Effect.gen(function* () {
+        const file = yield* fsService.open(partFile, { flag: offset > 0 ? "a" : "w" });
+        let written = offset;
+        if (response.body !== null) {
+          const body = response.body;
+          yield* Stream.runForEach(
+            Stream.fromReadableStream(
+              () => body,
+              (error) =>
+                new ConnectionError({
+                  message: `Download of ${url} failed: ${error instanceof Error ? error.message : String(error)}`,
+                })
+            ),
+            (chunk: Uint8Array) =>
+              Effect.gen(function* () {
+                yield* file.writeAll(chunk);
+                written += chunk.length;
+                yield* PubSub.publish(context.downloadProgress, { url, file: targetPath, bytes: written, total });
+              })
+          );
+        }
+        yield* file.sync;
+        return written;
+      })
+    );
+
+    if (total !== null && bytes < total) {
+      return yield* Effect.fail(
+        new ConnectionError({ message: `Download of ${url} ended after ${bytes} of ${total} bytes` })
+      );
+    }
+    yield* fsService.rename(partFile, targetPath);
+  });
+
 export const downloadFileEffect = (
   context: InstaloaderContextShape,
   url: string,
@@ -67,16 +226,15 @@ export const downloadFileEffect = (
       return false;
     }
 
-    const resp = yield* context.getRaw(url);
-    const buffer = yield* Effect.promise(() => resp.arrayBuffer());
-
     const dir = pathService.dirname(targetPath);
     const dirExists = yield* fsService.exists(dir);
     if (!dirExists) {
       yield* fsService.makeDirectory(dir, { recursive: true });
     }
 
-    yield* fsService.writeFile(targetPath, new Uint8Array(buffer));
+    const partFile = `${targetPath}.part`;
+    const download = yield* getRawResumableEffect(context, url, partFile);
+    yield* writeRawDownloadEffect(context, url, download, partFile, targetPath);
 
     if (mtime) {
       yield* pipe(
@@ -106,10 +264,20 @@ export interface InstaloaderConfig {
   readonly compressJson: boolean;
   readonly postMetadataTxtPattern: string;
   readonly storyitemMetadataTxtPattern: string;
+  /** Prefix of the resume files of profile and saved-post downloads, or null to not resume */
   readonly resumePrefix: string | null;
   readonly checkResumeBbd: boolean;
+  /** File of the latest-stamps database that profile downloads consult and update, if any */
+  readonly latestStamps: string | null;
   readonly slideStart: number;
   readonly slideEnd: number;
+  /** Number of media files downloaded at the same time; API queries are still sent one at a time */
+  readonly downloadConcurrency: number;
+  /** Index file of the content-addressed store that deduplicates media files, if any */
+  readonly dedupIndex: string | null;
+  readonly dedupLinks: DedupLinkMode;
+  /** Name of the SQLite manifest in each target directory that records the saved items, if any */
+  readonly manifestFilename: string | null;
 }
 
 export const defaultConfig: InstaloaderConfig = {
@@ -128,13 +296,17 @@ export const defaultConfig: InstaloaderConfig = {
   storyitemMetadataTxtPattern: "",
   resumePrefix: "iterator",
   checkResumeBbd: true,
+  latestStamps: null,
   slideStart: 0,
   slideEnd: -1,
+  downloadConcurrency: 1,
+  dedupIndex: null,
+  dedupLinks: "hardlink",
+  manifestFilename: null,
 };
 
 export function formatStringContainsKey(formatString: string, key: string): boolean {
-  const pattern = new RegExp(`\\{${key}(?:\\.[^}]*)?\\}`, "g");
-  return pattern.test(formatString);
+  return templateContainsKey(formatString, key);
 }
 
 export const sanitizePath = (str: string, forceWindows = false): string => {
@@ -179,10 +351,6 @@ export const sanitizePath = (str: string, forceWindows = false): string => {
   return result;
 };
 
-const formatDate = (date: Date): string => {
-  return date.toISOString().replace(/[:.]/g, "-").slice(0, -5) + "_UTC";
-};
-
 const EPOCH_DATE = new Date(0);
 
 export const formatPostFilename = (
@@ -190,52 +358,37 @@ export const formatPostFilename = (
   pattern: string,
   target?: string,
   forceWindows = false,
-): string => {
-  let result = pattern;
-  const dateUtc = Option.getOrElse(postDateUtc(post), () => EPOCH_DATE);
-  result = result
-    .replace("{date_utc}", formatDate(dateUtc))
-    .replace("{shortcode}", postShortcode(post))
-    .replace("{mediaid}", String(postMediaid(post)))
-    .replace("{typename}", postTypename(post));
-
-  if (target) {
-    result = result.replace("{target}", sanitizePath(target, forceWindows));
-  }
-
-  return result;
-};
+): string =>
+  formatTemplate(
+    pattern,
+    target === undefined ? postTemplateFields(post) : { ...postTemplateFields(post), target },
+    (value) => sanitizePath(value, forceWindows)
+  );
 
 export const formatStoryItemFilename = (
   item: StoryItemData,
   pattern: string,
   target?: string,
   forceWindows = false,
-): string => {
-  let result = pattern;
-  result = result
-    .replace("{date_utc}", formatDate(storyItemDateUtc(item)))
-    .replace("{mediaid}", String(storyItemMediaid(item)));
-
-  if (target) {
-    result = result.replace("{target}", sanitizePath(target, forceWindows));
-  }
-
-  return result;
-};
+): string =>
+  formatTemplate(
+    pattern,
+    target === undefined ? storyItemTemplateFields(item) : { ...storyItemTemplateFields(item), target },
+    (value) => sanitizePath(value, forceWindows)
+  );
 
 export const formatDirname = (
   config: InstaloaderConfig,
   target: string,
   profile?: ProfileData
-): string => {
-  let result = config.dirnamePattern;
-  const profileName = profile ? profileUsername(profile) : target;
-  result = result
-    .replace("{profile}", sanitizePath(profileName, config.sanitizePaths))
-    .replace("{target}", sanitizePath(target, config.sanitizePaths));
-  return result;
-};
+): string =>
+  formatTemplate(
+    config.dirnamePattern,
+    profile
+      ? { ...profileTemplateFields(profile), profile: profileUsername(profile), target }
+      : { profile: target, target },
+    (value) => sanitizePath(value, config.sanitizePaths)
+  );
 
 const prepareFilenameEffect = (
   filenameTemplate: string,
@@ -266,13 +419,106 @@ const prepareFilenameEffect = (
 // Effect-based Download Functions
 // ============================================================================
 
-export const downloadPicEffect = (
+/**
+ * Deduplication indexes and manifests opened during a download, kept open until
+ * the download finishes as every post consults them.
+ */
+interface DownloadStores {
+  readonly dedupStores: Map<string, DedupStore>;
+  readonly manifests: Map<string, Manifest>;
+  readonly lock: Effect.Semaphore;
+}
+
+const currentDownloadStores = FiberRef.unsafeMake<DownloadStores | null>(null);
+
+/**
+ * Runs a download with its own {@link DownloadStores}, closing them when it ends.
+ * Downloads nested in another one share the stores of the outermost download.
+ */
+const withDownloadStores = <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+  Effect.flatMap(FiberRef.get(currentDownloadStores), (stores) =>
+    stores !== null
+      ? effect
+      : Effect.acquireUseRelease(
+          Effect.map(
+            Effect.makeSemaphore(1),
+            (lock): DownloadStores => ({ dedupStores: new Map(), manifests: new Map(), lock })
+          ),
+          (opened) => Effect.locally(effect, currentDownloadStores, opened),
+          (opened) => Effect.forEach(opened.manifests.values(), (manifest) => manifest.close, { discard: true })
+        )
+  );
+
+/** Gets the store cached under `key` in the current download, opening it on first use. */
+const downloadStore = <A, E, R>(
+  select: (stores: DownloadStores) => Map<string, A>,
+  key: string,
+  open: Effect.Effect<A, E, R>
+): Effect.Effect<A, E, R> =>
+  Effect.flatMap(FiberRef.get(currentDownloadStores), (stores) => {
+    if (stores === null) {
+      return Effect.dieMessage("Download stores are used outside of a download.");
+    }
+    return stores.lock.withPermits(1)(
+      Effect.gen(function* () {
+        const cached = select(stores).get(key);
+        if (cached !== undefined) {
+          return cached;
+        }
+        const opened = yield* open;
+        select(stores).set(key, opened);
+        return opened;
+      })
+    );
+  });
+
+const dedupStoreFor = (
+  config: InstaloaderConfig
+): Effect.Effect<DedupStore | null, FileError, FileSystem.FileSystem | Path.Path> => {
+  const file = config.dedupIndex;
+  if (file === null) {
+    return Effect.succeed(null);
+  }
+  return Effect.flatMap(Path.Path, (pathService) =>
+    downloadStore(
+      (stores) => stores.dedupStores,
+      `${config.dedupLinks}:${pathService.resolve(file)}`,
+      makeDedupStore(file, config.dedupLinks)
+    )
+  );
+};
+
+/**
+ * Rebuild the deduplication index of `config.dedupIndex` from the files in the given
+ * target directories, e.g. after files were moved or deleted.
+ */
+export const rebuildDedupIndexEffect = (
+  config: InstaloaderConfig,
+  dirs: readonly string[]
+): Effect.Effect<number, InvalidArgumentError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const store = yield* dedupStoreFor(config);
+    if (store === null) {
+      return yield* Effect.fail(
+        new InvalidArgumentError({ message: "No dedupIndex configured.", argument: "dedupIndex" })
+      );
+    }
+    const manifest = config.manifestFilename;
+    return yield* store.rebuild(
+      dirs,
+      manifest === null ? [] : [manifest, `${manifest}-wal`, `${manifest}-shm`, `${manifest}-journal`]
+    );
+  }).pipe(withDownloadStores);
+
+/** Downloads a picture or video like {@link downloadPicEffect}, returning the written file. */
+const downloadPicFileEffect = (
   context: InstaloaderContextShape,
   filename: string,
   url: string,
   mtime: Date,
   filenameSuffix?: string,
-): Effect.Effect<boolean, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  dedupStore: DedupStore | null = null,
+): Effect.Effect<string | null, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
   Effect.gen(function* () {
     const fsService = yield* FileSystem.FileSystem;
     const pathService = yield* Path.Path;
@@ -289,11 +535,12 @@ export const downloadPicEffect = (
     const nominalExists = yield* fsService.exists(nominalFilename);
     if (nominalExists) {
       yield* context.log(`${nominalFilename} exists`);
-      return false;
+      return null;
     }
 
-    const resp = yield* context.getRaw(url);
-    const contentType = resp.headers.get("Content-Type");
+    const partFile = `${nominalFilename}.part`;
+    const download = yield* getRawResumableEffect(context, url, partFile);
+    const contentType = download.response.headers.get("Content-Type");
     let finalFilename: string;
 
     if (contentType) {
@@ -307,12 +554,12 @@ export const downloadPicEffect = (
     if (finalFilename !== nominalFilename) {
       const finalExists = yield* fsService.exists(finalFilename);
       if (finalExists) {
+        yield* discardBody(download.response);
         yield* context.log(`${finalFilename} exists`);
-        return false;
+        return null;
       }
     }
 
-    const buffer = yield* Effect.promise(() => resp.arrayBuffer());
     const dir = pathService.dirname(finalFilename);
     if (dir) {
       const dirExists = yield* fsService.exists(dir);
@@ -320,13 +567,73 @@ export const downloadPicEffect = (
         yield* fsService.makeDirectory(dir, { recursive: true });
       }
     }
-    yield* fsService.writeFile(finalFilename, new Uint8Array(buffer));
+    yield* writeRawDownloadEffect(context, url, download, partFile, finalFilename);
+    if (dedupStore !== null) {
+      const stored = yield* pipe(
+        dedupStore.deduplicate(finalFilename),
+        Effect.catchAll((error) =>
+          Effect.as(context.log(`Keeping ${finalFilename}, linking it failed: ${error.message}`), null)
+        )
+      );
+      if (stored !== null) {
+        // The link shares the stored file's timestamps
+        yield* context.log(`${finalFilename} is a duplicate of ${stored}`);
+        return finalFilename;
+      }
+    }
     yield* pipe(
       fsService.utimes(finalFilename, new Date(), mtime),
       Effect.catchAll(() => Effect.void)
     );
 
-    return true;
+    return finalFilename;
+  });
+
+export const downloadPicEffect = (
+  context: InstaloaderContextShape,
+  filename: string,
+  url: string,
+  mtime: Date,
+  filenameSuffix?: string,
+  dedupStore: DedupStore | null = null,
+): Effect.Effect<boolean, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.map(
+    downloadPicFileEffect(context, filename, url, mtime, filenameSuffix, dedupStore),
+    (written) => written !== null
+  );
+
+/**
+ * Records an item and the files written for it in the manifest `config.manifestFilename`
+ * of its target directory, with file paths relative to that directory. The item is
+ * recorded even if no file was written, e.g. because all of them already existed.
+ */
+const recordInManifestEffect = (
+  config: InstaloaderConfig,
+  dirname: string,
+  item: ManifestItem,
+  files: readonly string[]
+): Effect.Effect<void, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+    if (config.manifestFilename === null) {
+      return;
+    }
+    const file = pathService.resolve(dirname, config.manifestFilename);
+    const manifest = yield* downloadStore(
+      (stores) => stores.manifests,
+      file,
+      Effect.zipRight(fsService.makeDirectory(pathService.dirname(file), { recursive: true }), openManifest(file))
+    );
+    const entries = [];
+    for (const written of files) {
+      entries.push({
+        path: pathService.relative(pathService.dirname(file), pathService.resolve(written)),
+        size: Number((yield* fsService.stat(written)).size),
+        sha256: yield* hashFile(written),
+      });
+    }
+    yield* manifest.record(item, entries);
   });
 
 const saveLocationEffect = (
@@ -344,7 +651,7 @@ const saveLocationEffect = (
     } else {
       locationString = location.name;
     }
-    yield* fsService.writeFileString(locationFilename, locationString);
+    yield* writeFileAtomic(locationFilename, locationString);
     yield* pipe(
       fsService.utimes(locationFilename, new Date(), mtime),
       Effect.catchAll(() => Effect.void)
@@ -352,10 +659,52 @@ const saveLocationEffect = (
     yield* context.log("geo");
   });
 
+const elliptify = (caption: string): string => {
+  const pcaption = caption.replace(/\n/g, " ").trim();
+  return `[${pcaption.length > 31 ? `${pcaption.slice(0, 29)}…` : pcaption}]`;
+};
+
+/**
+ * Writes `{filename}.txt` with the given caption. An identical file is left untouched,
+ * a differing one is replaced.
+ */
+const saveCaptionEffect = (
+  context: InstaloaderContextShape,
+  filename: string,
+  mtime: Date,
+  caption: string
+): Effect.Effect<void, ContextError | FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const captionFilename = `${filename}.txt`;
+    const content = `${caption}\n`;
+    const pcaption = elliptify(content);
+
+    const existing = yield* pipe(
+      fsService.readFileString(captionFilename),
+      Effect.map(Option.some),
+      Effect.catchAll(() => Effect.succeed(Option.none<string>()))
+    );
+    if (Option.isSome(existing)) {
+      if (existing.value.replace(/\r\n/g, "\n") === content.replace(/\r\n/g, "\n")) {
+        yield* context.log(`${pcaption} unchanged`);
+        return;
+      }
+      yield* context.log(`${pcaption} updated`);
+    }
+
+    yield* writeFileAtomic(captionFilename, content);
+    yield* pipe(
+      fsService.utimes(captionFilename, new Date(), mtime),
+      Effect.catchAll(() => Effect.void)
+    );
+    yield* context.log(pcaption);
+  });
+
 const saveMetadataJsonEffect = (
   context: InstaloaderContextShape,
   filename: string,
-  data: JsonNode,
+  structure: JsonStructure,
   compressJson: boolean
 ): Effect.Effect<void, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
   Effect.gen(function* () {
@@ -369,11 +718,98 @@ const saveMetadataJsonEffect = (
         yield* fsService.makeDirectory(dir, { recursive: true });
       }
     }
-    const jsonStr = JSON.stringify(data, null, compressJson ? undefined : 2);
-    yield* fsService.writeFileString(jsonFilename, jsonStr);
+    const jsonStr = JSON.stringify(structureToJson(structure), null, compressJson ? undefined : 2);
+    if (compressJson) {
+      yield* writeFileAtomic(jsonFilename, xzCompress(new TextEncoder().encode(jsonStr)));
+    } else {
+      yield* writeFileAtomic(jsonFilename, jsonStr);
+    }
     yield* context.log("json");
   });
 
+export const loadMetadataJsonEffect = (
+  filename: string
+): Effect.Effect<JsonNode, InvalidArgumentError | FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const raw = yield* fsService.readFile(filename);
+    return yield* Effect.try({
+      try: () => {
+        const bytes = filename.endsWith(".xz") ? xzDecompress(raw) : raw;
+        return JSON.parse(new TextDecoder().decode(bytes)) as JsonNode;
+      },
+      catch: (e) =>
+        new InvalidArgumentError({
+          argument: filename,
+          message: `${filename} is not a valid JSON metadata file: ${e instanceof Error ? e.message : String(e)}`,
+          cause: e,
+        }),
+    });
+  });
+
+export const loadStructureFromFileEffect = (
+  filename: string
+): Effect.Effect<JsonStructure, InvalidArgumentError | FileError, FileSystem.FileSystem> =>
+  Effect.flatMap(loadMetadataJsonEffect(filename), loadStructure);
+
+const getUniqueComments = (comments: JsonNode[], combineAnswers = false): JsonNode[] => {
+  if (comments.length === 0) {
+    return [];
+  }
+  const sorted = [...comments]
+    .sort((a, b) => Number(a["id"]) - Number(b["id"]))
+    .sort((a, b) => Number(b["created_at"]) - Number(a["created_at"]));
+  const unique: JsonNode[] = [sorted[0]!];
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1]!;
+    const current = sorted[i]!;
+    if (Number(prev["id"]) !== Number(current["id"])) {
+      unique.push(current);
+    } else if (combineAnswers) {
+      const last = unique[unique.length - 1]!;
+      const combined = [
+        ...((last["answers"] as JsonNode[] | undefined) ?? []),
+        ...((current["answers"] as JsonNode[] | undefined) ?? []),
+      ];
+      unique[unique.length - 1] = { ...last, answers: getUniqueComments(combined) };
+    }
+  }
+  return unique;
+};
+
+const saveCommentsEffect = (
+  context: InstaloaderContextShape,
+  filename: string,
+  post: PostData
+): Effect.Effect<void, ContextError | FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const commentsFilename = `${filename}_comments.json`;
+
+    const existing = yield* pipe(
+      fsService.readFileString(commentsFilename),
+      Effect.flatMap((content) => Effect.try(() => JSON.parse(content) as unknown)),
+      Effect.map((parsed) => (Array.isArray(parsed) ? (parsed as JsonNode[]) : [])),
+      Effect.catchAll(() => Effect.succeed([] as JsonNode[]))
+    );
+
+    const fetched = yield* Stream.runCollect(postGetCommentsStream(context, post));
+    const comments = [...existing, ...Array.from(fetched, postCommentToDict)];
+    if (comments.length === 0) {
+      return;
+    }
+
+    const unique = getUniqueComments(comments, true);
+    const answerIds = new Set(
+      unique.flatMap((c) => ((c["answers"] as JsonNode[] | undefined) ?? []).map((a) => Number(a["id"])))
+    );
+    const topLevel = unique.filter((c) => !answerIds.has(Number(c["id"])));
+    yield* writeFileAtomic(commentsFilename, JSON.stringify(topLevel, null, 4));
+    yield* context.log("comments");
+  });
+
+const OWNER_KEYS = ["profile", "owner_username", "owner_id", "owner_profile"];
+
 export const downloadPostEffect = (
   context: InstaloaderContextShape,
   config: InstaloaderConfig,
@@ -384,13 +820,24 @@ export const downloadPostEffect = (
     const fsService = yield* FileSystem.FileSystem;
     const pathService = yield* Path.Path;
 
-    const dirname = formatDirname(config, target);
+    const needsOwner = [config.dirnamePattern, config.filenamePattern].some((pattern) =>
+      OWNER_KEYS.some((key) => formatStringContainsKey(pattern, key))
+    );
+    if (needsOwner && Option.isNone(postOwnerUsername(post))) {
+      post = { ...post, ownerProfile: yield* postGetOwnerProfile(context, post) };
+    }
+
+    const dirname = formatPostFilename(post, config.dirnamePattern, target, config.sanitizePaths);
     const formattedFilename = formatPostFilename(post, config.filenamePattern, target, config.sanitizePaths);
     const filenameTemplate = pathService.join(dirname, formattedFilename);
     const filename = yield* prepareFilenameEffect(filenameTemplate, postUrl(post));
     const mtime = Option.getOrElse(postDateLocal(post), () => EPOCH_DATE);
 
-    let downloaded = true;
+    const dedupStore = yield* dedupStoreFor(config);
+    // API queries are made here; only the media files are fetched concurrently below
+    const mediaDownloads: Array<
+      Effect.Effect<string | null, ContextError | FileError, FileSystem.FileSystem | Path.Path>
+    > = [];
     const typenameVal = postTypename(post);
 
     if (typenameVal === "GraphSidecar") {
@@ -402,48 +849,31 @@ export const downloadPostEffect = (
           const suffix = String(edgeNumber);
 
           if (config.downloadPictures && (!sidecarNode.videoUrl || config.downloadVideoThumbnails)) {
-            const sidecarFilename = yield* prepareFilenameEffect(filenameTemplate, sidecarNode.displayUrl);
-            const picDownloaded = yield* downloadPicEffect(
-              context,
-              sidecarFilename,
-              sidecarNode.displayUrl,
-              mtime,
-              suffix,
+            mediaDownloads.push(
+              Effect.flatMap(prepareFilenameEffect(filenameTemplate, sidecarNode.displayUrl), (sidecarFilename) =>
+                downloadPicFileEffect(context, sidecarFilename, sidecarNode.displayUrl, mtime, suffix, dedupStore)
+              )
             );
-            downloaded = downloaded && picDownloaded;
           }
 
           if (sidecarNode.videoUrl && config.downloadVideos) {
-            const sidecarFilename = yield* prepareFilenameEffect(filenameTemplate, sidecarNode.videoUrl);
-            const vidDownloaded = yield* downloadPicEffect(
-              context,
-              sidecarFilename,
-              sidecarNode.videoUrl,
-              mtime,
-              suffix,
+            const videoUrl = sidecarNode.videoUrl;
+            mediaDownloads.push(
+              Effect.flatMap(prepareFilenameEffect(filenameTemplate, videoUrl), (sidecarFilename) =>
+                downloadPicFileEffect(context, sidecarFilename, videoUrl, mtime, suffix, dedupStore)
+              )
             );
-            downloaded = downloaded && vidDownloaded;
           }
         }
       }
-    } else if (typenameVal === "GraphImage") {
-      if (config.downloadPictures) {
-        const jpgExists = yield* fsService.exists(`${filename}.jpg`);
-        if (!jpgExists) {
-          downloaded = yield* downloadPicEffect(context, filename, postUrl(post), mtime);
-        } else {
-          yield* context.log(`${filename}.jpg exists`);
-          downloaded = false;
-        }
-      }
-    } else if (typenameVal === "GraphVideo") {
-      if (config.downloadPictures && config.downloadVideoThumbnails) {
+    } else if (typenameVal === "GraphImage" || typenameVal === "GraphVideo") {
+      if (config.downloadPictures && (typenameVal === "GraphImage" || config.downloadVideoThumbnails)) {
         const jpgExists = yield* fsService.exists(`${filename}.jpg`);
         if (!jpgExists) {
-          downloaded = yield* downloadPicEffect(context, filename, postUrl(post), mtime);
+          mediaDownloads.push(downloadPicFileEffect(context, filename, postUrl(post), mtime, undefined, dedupStore));
         } else {
           yield* context.log(`${filename}.jpg exists`);
-          downloaded = false;
+          mediaDownloads.push(Effect.succeed(null));
         }
       }
     }
@@ -453,12 +883,36 @@ export const downloadPostEffect = (
       if (videoUrl) {
         const mp4Exists = yield* fsService.exists(`${filename}.mp4`);
         if (!mp4Exists) {
-          const vidDownloaded = yield* downloadPicEffect(context, filename, videoUrl, mtime);
-          downloaded = downloaded && vidDownloaded;
+          mediaDownloads.push(downloadPicFileEffect(context, filename, videoUrl, mtime, undefined, dedupStore));
         }
       }
     }
 
+    const written = yield* Effect.all(mediaDownloads, { concurrency: config.downloadConcurrency });
+    const downloaded = written.every((file) => file !== null);
+    yield* recordInManifestEffect(
+      config,
+      dirname,
+      {
+        kind: "post",
+        shortcode: postShortcode(post),
+        mediaid: postMediaid(post),
+        ownerUsername: Option.getOrNull(postOwnerUsername(post)),
+        ownerId: Option.getOrNull(postOwnerId(post)),
+        typename: typenameVal,
+        dateUtc: Option.getOrElse(postDateUtc(post), () => EPOCH_DATE),
+        target,
+      },
+      written.filter((file) => file !== null)
+    );
+
+    if (config.postMetadataTxtPattern) {
+      const caption = formatTemplate(config.postMetadataTxtPattern, postTemplateFields(post)).trim();
+      if (caption) {
+        yield* saveCaptionEffect(context, filename, mtime, caption);
+      }
+    }
+
     if (config.downloadGeotags) {
       const location = yield* postGetLocation(context, post);
       if (location) {
@@ -467,12 +921,21 @@ export const downloadPostEffect = (
     }
 
     if (config.saveMetadata) {
-      yield* saveMetadataJsonEffect(context, filename, postToDict(post), config.compressJson);
+      yield* saveMetadataJsonEffect(
+        context,
+        filename,
+        { nodeType: "Post", structure: post },
+        config.compressJson
+      );
+    }
+
+    if (config.downloadComments) {
+      yield* saveCommentsEffect(context, filename, post);
     }
 
     yield* context.log("");
     return downloaded;
-  });
+  }).pipe(withDownloadStores);
 
 export const downloadStoryItemEffect = (
   context: InstaloaderContextShape,
@@ -484,13 +947,16 @@ export const downloadStoryItemEffect = (
     const fsService = yield* FileSystem.FileSystem;
     const pathService = yield* Path.Path;
 
-    const dirname = formatDirname(config, target);
+    const dirname = formatStoryItemFilename(item, config.dirnamePattern, target, config.sanitizePaths);
     const formattedFilename = formatStoryItemFilename(item, config.filenamePattern, target, config.sanitizePaths);
     const filenameTemplate = pathService.join(dirname, formattedFilename);
     const imageUrl = yield* storyItemGetUrl(context, item);
     const filename = yield* prepareFilenameEffect(filenameTemplate, imageUrl);
 
-    let downloaded = false;
+    const dedupStore = yield* dedupStoreFor(config);
+    const mediaDownloads: Array<
+      Effect.Effect<string | null, ContextError | FileError, FileSystem.FileSystem | Path.Path>
+    > = [];
 
     if (storyItemIsVideo(item) && config.downloadVideos) {
       const videoUrl = yield* storyItemGetVideoUrl(context, item);
@@ -498,7 +964,7 @@ export const downloadStoryItemEffect = (
         const videoFilename = yield* prepareFilenameEffect(filenameTemplate, videoUrl);
         const mp4Exists = yield* fsService.exists(`${videoFilename}.mp4`);
         if (!mp4Exists) {
-          downloaded = yield* downloadPicEffect(context, videoFilename, videoUrl, storyItemDateLocal(item));
+          mediaDownloads.push(downloadPicFileEffect(context, videoFilename, videoUrl, storyItemDateLocal(item), undefined, dedupStore));
         }
       }
     }
@@ -506,17 +972,47 @@ export const downloadStoryItemEffect = (
     if (!storyItemIsVideo(item) || config.downloadVideoThumbnails) {
       const jpgExists = yield* fsService.exists(`${filename}.jpg`);
       if (!jpgExists) {
-        downloaded = yield* downloadPicEffect(context, filename, imageUrl, storyItemDateLocal(item));
+        mediaDownloads.push(downloadPicFileEffect(context, filename, imageUrl, storyItemDateLocal(item), undefined, dedupStore));
+      }
+    }
+
+    const written = yield* Effect.all(mediaDownloads, { concurrency: config.downloadConcurrency });
+    const downloaded = (written.at(-1) ?? null) !== null;
+    yield* recordInManifestEffect(
+      config,
+      dirname,
+      {
+        kind: "storyitem",
+        shortcode: storyItemShortcode(item),
+        mediaid: storyItemMediaid(item),
+        ownerUsername: Option.getOrNull(storyItemOwnerUsername(item)),
+        ownerId: Option.getOrNull(storyItemOwnerId(item)),
+        typename: storyItemTypename(item),
+        dateUtc: storyItemDateUtc(item),
+        target,
+      },
+      written.filter((file) => file !== null)
+    );
+
+    if (config.storyitemMetadataTxtPattern) {
+      const caption = formatTemplate(config.storyitemMetadataTxtPattern, storyItemTemplateFields(item)).trim();
+      if (caption) {
+        yield* saveCaptionEffect(context, filename, storyItemDateLocal(item), caption);
       }
     }
 
     if (config.saveMetadata) {
-      yield* saveMetadataJsonEffect(context, filename, storyItemToDict(item), config.compressJson);
+      yield* saveMetadataJsonEffect(
+        context,
+        filename,
+        { nodeType: "StoryItem", structure: item },
+        config.compressJson
+      );
     }
 
     yield* context.log("");
     return downloaded;
-  });
+  }).pipe(withDownloadStores);
 
 export const getStoriesEffect = (
   context: InstaloaderContextShape,
@@ -672,6 +1168,972 @@ export const getFeedPostsEffect = (
     ).pipe(Stream.flatMap((posts) => Stream.fromIterable(posts)));
   });
 
+// ============================================================================
+// Resumable Iteration
+// ============================================================================
+
+const loadResumeFileEffect = (
+  filename: string
+): Effect.Effect<FrozenNodeIterator | null, InvalidArgumentError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const exists = yield* pipe(fsService.exists(filename), Effect.orElseSucceed(() => false));
+    if (!exists) {
+      return null;
+    }
+    const json = yield* pipe(
+      loadMetadataJsonEffect(filename),
+      Effect.mapError((error) =>
+        error._tag === "InvalidArgumentError"
+          ? error
+          : new InvalidArgumentError({ argument: filename, message: error.message, cause: error })
+      )
+    );
+    return yield* loadFrozenNodeIterator(json);
+  });
+
+const saveResumeFileEffect = (
+  context: InstaloaderContextShape,
+  fni: FrozenNodeIterator,
+  filename: string
+): Effect.Effect<void, never, FileSystem.FileSystem | Path.Path> =>
+  pipe(
+    Effect.gen(function* () {
+      const fsService = yield* FileSystem.FileSystem;
+      const pathService = yield* Path.Path;
+      yield* fsService.makeDirectory(pathService.dirname(filename), { recursive: true });
+      const jsonStr = JSON.stringify(frozenNodeIteratorToJson(fni));
+      yield* writeFileAtomic(filename, xzCompress(new TextEncoder().encode(jsonStr)));
+    }),
+    Effect.catchAll((error) => context.error(`Could not save resume information to ${filename}: ${error.message}`))
+  );
+
+/**
+ * Iterates a node stream resumably, keeping the resume information in
+ * `{dirname}/{resumePrefix}_{magic}.json.xz` when the enclosing scope closes.
+ * Plain iteration if `resumePrefix` is null.
+ */
+export const resumableNodeStream = <T, E extends ContextError = InvalidArgumentError>(
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  dirname: string,
+  makeStream: (frozen: FrozenNodeIterator | null) => Effect.Effect<NodeStream<T>, E>
+): Effect.Effect<
+  Stream.Stream<ResumableIterationResult<T>, ContextError>,
+  E,
+  FileSystem.FileSystem | Path.Path | Scope.Scope
+> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+    return yield* resumableIterationStream(
+      context,
+      makeStream,
+      (filename) => Effect.provideService(loadResumeFileEffect(filename), FileSystem.FileSystem, fsService),
+      (fni, filename) =>
+        saveResumeFileEffect(context, fni, filename).pipe(
+          Effect.provideService(FileSystem.FileSystem, fsService),
+          Effect.provideService(Path.Path, pathService)
+        ),
+      (filename) => Effect.ignore(fsService.remove(filename)),
+      (magic) => pathService.join(dirname, `${config.resumePrefix ?? ""}_${magic}.json.xz`),
+      { checkBbd: config.checkResumeBbd, enabled: config.resumePrefix !== null }
+    );
+  });
+
+// ============================================================================
+// Profile Downloads
+// ============================================================================
+
+const formatTitlePicFilename = (
+  config: InstaloaderConfig,
+  date: Date,
+  profile: ProfileData,
+  typename: string,
+  igFilename: string
+): string =>
+  formatTemplate(
+    config.titlePattern,
+    {
+      profile: profileUsername(profile),
+      target: profileUsername(profile),
+      owner_profile: profileTemplateFields(profile),
+      owner_username: profileUsername(profile),
+      owner_id: profileUserid(profile),
+      typename,
+      date_utc: utcDate(date),
+      date_local: localDate(date),
+      date: utcDate(date),
+    },
+    (value) => sanitizePath(value, config.sanitizePaths)
+  ).replace(/\{filename\}/g, igFilename);
+
+/** The most recently modified file in `dir` whose name ends with `suffix`, if any. */
+const newestFileEffect = (
+  dir: string,
+  suffix: string
+): Effect.Effect<Option.Option<string>, never, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+    const entries = yield* pipe(
+      fsService.readDirectory(dir),
+      Effect.catchAll(() => Effect.succeed([] as string[]))
+    );
+    let newest: Option.Option<string> = Option.none();
+    let newestMtime = -Infinity;
+    for (const entry of entries.filter((name) => name.endsWith(suffix))) {
+      const file = pathService.join(dir, entry);
+      const info = yield* Effect.option(fsService.stat(file));
+      if (Option.isNone(info) || info.value.type !== "File") {
+        continue;
+      }
+      const mtime = Option.getOrElse(info.value.mtime, () => EPOCH_DATE).getTime();
+      if (mtime >= newestMtime) {
+        newest = Option.some(file);
+        newestMtime = mtime;
+      }
+    }
+    return newest;
+  });
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array): boolean =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * Download the profile picture of a profile to `{target}/{date_utc}_UTC_profile_pic.jpg`
+ * (by `titlePattern`), dated by the `Last-Modified` header of the picture. Nothing is
+ * written if the newest profile picture already in the directory has the same content.
+ */
+export const downloadProfilePicEffect = (
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  profile: ProfileData
+): Effect.Effect<boolean, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+
+    const url = yield* profileGetProfilePicUrl(context, profile);
+    const resp = yield* context.getRaw(url);
+    const lastModifiedHeader = resp.headers.get("Last-Modified");
+    const lastModified = lastModifiedHeader ? new Date(lastModifiedHeader) : null;
+    const mtime = lastModified && !Number.isNaN(lastModified.getTime()) ? lastModified : null;
+
+    const username = profileUsername(profile);
+    const dirname = formatDirname(config, username, profile);
+    const igFilename = pathService.basename(new URL(url).pathname).split(".")[0] ?? "";
+    const filename = `${pathService.join(
+      dirname,
+      formatTitlePicFilename(config, mtime ?? new Date(), profile, "profile_pic", igFilename)
+    )}.jpg`;
+
+    const exists = yield* fsService.exists(filename);
+    if (exists) {
+      yield* discardBody(resp);
+      yield* context.log(`${filename} already exists`);
+      return false;
+    }
+
+    const content = new Uint8Array(yield* Effect.promise(() => resp.arrayBuffer()));
+    const newest = yield* newestFileEffect(pathService.dirname(filename), "profile_pic.jpg");
+    if (Option.isSome(newest)) {
+      const existing = yield* fsService.readFile(newest.value);
+      if (bytesEqual(existing, content)) {
+        yield* context.log(`${newest.value} is unchanged`);
+        return false;
+      }
+    }
+
+    yield* fsService.makeDirectory(pathService.dirname(filename), { recursive: true });
+    yield* writeFileAtomic(filename, content);
+    if (mtime) {
+      yield* pipe(
+        fsService.utimes(filename, new Date(), mtime),
+        Effect.catchAll(() => Effect.void)
+      );
+    }
+    yield* context.log("");
+    return true;
+  });
+
+export type ProfileDownloadSection =
+  | "profilePic"
+  | "posts"
+  | "tagged"
+  | "reels"
+  | "igtv"
+  | "stories"
+  | "highlights";
+
+export interface DownloadProfileOptions {
+  /** Download the profile picture (default: true) */
+  readonly profilePic?: boolean;
+  /** Download the profile's posts (default: true) */
+  readonly posts?: boolean;
+  /** Download posts the profile is tagged in, into `{target}/:tagged` */
+  readonly tagged?: boolean;
+  /** Download the profile's reels */
+  readonly reels?: boolean;
+  /** Download the profile's IGTV videos */
+  readonly igtv?: boolean;
+  /** Download the profile's current stories (requires login) */
+  readonly stories?: boolean;
+  /** Download the profile's highlights, into `{target}/{highlight title}` (requires login) */
+  readonly highlights?: boolean;
+  /** Stop each section at the first item that was already downloaded; pinned posts do not count */
+  readonly fastUpdate?: boolean;
+  /** Only download posts for which this expression is true, e.g. `likes > 500 and not is_video` */
+  readonly postFilter?: string;
+  /** Only download story items for which this expression is true */
+  readonly storyitemFilter?: string;
+}
+
+export interface DownloadCount {
+  /** Items that were retrieved */
+  readonly fetched: number;
+  /** Items for which new files were written */
+  readonly downloaded: number;
+  /** Items whose download failed; the errors are logged by the context */
+  readonly failed: number;
+}
+
+export interface ProfileDownloadSkip {
+  readonly section: ProfileDownloadSection;
+  readonly reason: string;
+}
+
+export interface DownloadProfileSummary {
+  readonly profile: string;
+  readonly dirname: string;
+  readonly sections: Partial<Record<ProfileDownloadSection, DownloadCount>>;
+  readonly skipped: ProfileDownloadSkip[];
+}
+
+const emptyCount: DownloadCount = { fetched: 0, downloaded: 0, failed: 0 };
+
+/** Removes the temporary files of writes that crashed in an earlier run. */
+const cleanTargetDirectoryEffect = (
+  context: InstaloaderContextShape,
+  dirname: string
+): Effect.Effect<void, FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    for (const file of yield* removeStaleTempFiles(dirname)) {
+      yield* context.log(`Removed stale temporary file ${file}`);
+    }
+  });
+
+const compileFilterOption = (
+  source: string | undefined,
+  itemType: ItemFilterType
+): Effect.Effect<ItemFilter | null, InvalidArgumentError> =>
+  source === undefined ? Effect.succeed(null) : compileItemFilter(source, itemType);
+
+/**
+ * Drops the items for which `filter` is false. Items whose evaluation fails are
+ * dropped as well, and the error is logged.
+ */
+const filterItemsStream = <A, E, R>(
+  context: InstaloaderContextShape,
+  items: Stream.Stream<A, E, R>,
+  filter: ItemFilter | null,
+  fields: (item: A) => TemplateFields,
+  describe: (item: A) => string
+): Stream.Stream<A, E, R> =>
+  filter === null
+    ? items
+    : Stream.filterEffect(items, (item) =>
+        pipe(
+          evaluateItemFilter(filter, fields(item)),
+          Effect.tap((keep) => (keep ? Effect.void : context.log(`${describe(item)} skipped`))),
+          Effect.catchAll((error) =>
+            Effect.as(context.error(`${describe(item)} skipped. Filter evaluation failed: ${error.message}`), false)
+          )
+        )
+      );
+
+interface CountDownloadsOptions<A> {
+  /** Stop at the first item that was not newly downloaded */
+  readonly fastUpdate?: boolean | undefined;
+  /** Items that do not stop a fast update, e.g. pinned posts */
+  readonly ignoreExisting?: (item: A) => boolean;
+  /** Number of items downloaded at the same time */
+  readonly concurrency?: number;
+  /** Runs for each item once it and all items before it are counted, e.g. to mark it done for resuming */
+  readonly counted?: (item: A) => Effect.Effect<void>;
+}
+
+type DownloadOutcome = "downloaded" | "existing" | "failed";
+
+/**
+ * Downloads the items of a stream, counting them in stream order. With `fastUpdate`,
+ * iteration stops at the first item that was not newly downloaded and for which
+ * `ignoreExisting` is false; downloads of later items already in flight are interrupted.
+ */
+const countDownloadsEffect = <A, E, R>(
+  context: InstaloaderContextShape,
+  items: Stream.Stream<A, E, R>,
+  describe: (item: A) => string,
+  download: (item: A) => Effect.Effect<boolean, ContextError | FileError, R>,
+  { fastUpdate = false, ignoreExisting = () => false, concurrency = 1, counted }: CountDownloadsOptions<A> = {}
+): Effect.Effect<DownloadCount, E | AbortDownloadError, R> =>
+  pipe(
+    items,
+    Stream.mapEffect(
+      (item) =>
+        pipe(
+          download(item),
+          Effect.map((downloaded): [A, DownloadOutcome] => [item, downloaded ? "downloaded" : "existing"]),
+          Effect.catchAll((error) =>
+            error._tag === "AbortDownloadError"
+              ? Effect.fail(error)
+              : Effect.as(context.error(`Download ${describe(item)}: ${error.message}`), [item, "failed"] as [
+                  A,
+                  DownloadOutcome,
+                ])
+          )
+        ),
+      { concurrency }
+    ),
+    (outcomes) => (counted === undefined ? outcomes : Stream.tap(outcomes, ([item]) => counted(item))),
+    Stream.runFoldWhile(
+      { count: emptyCount, stop: false },
+      (state) => !state.stop,
+      (state, [item, outcome]) => ({
+        count: {
+          fetched: state.count.fetched + 1,
+          downloaded: state.count.downloaded + (outcome === "downloaded" ? 1 : 0),
+          failed: state.count.failed + (outcome === "failed" ? 1 : 0),
+        },
+        stop: fastUpdate && outcome === "existing" && !ignoreExisting(item),
+      })
+    ),
+    Effect.map((state) => state.count)
+  );
+
+const checkProfileAccessEffect = (
+  context: InstaloaderContextShape,
+  profile: ProfileData
+): Effect.Effect<void, LoginRequiredError | PrivateProfileNotFollowedError> =>
+  Effect.gen(function* () {
+    const isPrivate = Option.getOrElse(profileIsPrivate(profile), () => false);
+    if (!isPrivate) {
+      return;
+    }
+    const loggedIn = yield* context.isLoggedIn;
+    if (!loggedIn) {
+      return yield* Effect.fail(new LoginRequiredError({ message: "Login required." }));
+    }
+    const contextUsername = yield* context.getUsername;
+    const followed = Option.getOrElse(profileFollowedByViewer(profile), () => false);
+    if (contextUsername !== profileUsername(profile) && !followed) {
+      return yield* Effect.fail(
+        new PrivateProfileNotFollowedError({
+          message: "Private but not followed.",
+          username: profileUsername(profile),
+        })
+      );
+    }
+  });
+
+const isSkippable = (error: { readonly _tag: string }): error is LoginRequiredError | PrivateProfileNotFollowedError =>
+  error._tag === "LoginRequiredError" || error._tag === "PrivateProfileNotFollowedError";
+
+const profileIdFilename = (config: InstaloaderConfig, pathService: Path.Path, profileName: string): string =>
+  formatStringContainsKey(config.dirnamePattern, "profile") || formatStringContainsKey(config.dirnamePattern, "target")
+    ? pathService.join(formatDirname(config, profileName), "id")
+    : pathService.join(formatDirname(config, profileName), `${profileName}_id`);
+
+const saveProfileIdEffect = (
+  config: InstaloaderConfig,
+  profile: ProfileData
+): Effect.Effect<void, FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+    const filename = profileIdFilename(config, pathService, profileUsername(profile));
+    yield* fsService.makeDirectory(pathService.dirname(filename), { recursive: true });
+    yield* writeFileAtomic(filename, String(profileUserid(profile)));
+  });
+
+const loadProfileIdEffect = (
+  config: InstaloaderConfig,
+  profileName: string
+): Effect.Effect<number | null, FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+    const filename = profileIdFilename(config, pathService, profileName);
+    if (!(yield* fsService.exists(filename))) {
+      return null;
+    }
+    const content = (yield* fsService.readFileString(filename)).trim();
+    return /^\d+$/.test(content) ? Number(content) : null;
+  });
+
+/** Moves `from` to `to`, or its entries into `to` if that already exists. */
+const migrateDirectoryEffect = (
+  context: InstaloaderContextShape,
+  from: string,
+  to: string
+): Effect.Effect<void, FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+    if (!(yield* fsService.exists(from))) {
+      return;
+    }
+    if (!(yield* fsService.exists(to))) {
+      yield* fsService.makeDirectory(pathService.dirname(to), { recursive: true });
+      yield* fsService.rename(from, to);
+      return;
+    }
+    for (const entry of yield* fsService.readDirectory(from)) {
+      if (!(yield* fsService.exists(pathService.join(to, entry)))) {
+        yield* fsService.rename(pathService.join(from, entry), pathService.join(to, entry));
+      }
+    }
+    const remaining = yield* fsService.readDirectory(from);
+    if (remaining.length === 0) {
+      yield* fsService.remove(from, { recursive: true });
+    } else {
+      yield* context.error(`Warning: Kept ${remaining.length} files in ${from} that also exist in ${to}.`);
+    }
+  });
+
+/**
+ * Resolves a profile by name, detecting a change of its name by the profile ID
+ * stored by a previous download, i.e. the `{target}/id` file or the latest-stamps
+ * database. The files downloaded under the old name are moved to the new one.
+ */
+export const checkProfileIdEffect = (
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  profileName: string
+): Effect.Effect<ProfileData, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const name = profileName.toLowerCase();
+    const byName = yield* Effect.either(profileFromUsername(context, name));
+    if (byName._tag === "Left" && byName.left._tag !== "ProfileNotExistsError") {
+      return yield* Effect.fail(byName.left);
+    }
+    const profile = byName._tag === "Right" ? byName.right : null;
+
+    const stamps = config.latestStamps !== null ? yield* makeLatestStamps(config.latestStamps) : null;
+    const storedId =
+      stamps !== null ? yield* stamps.getProfileId(name) : yield* loadProfileIdEffect(config, name);
+
+    if (storedId !== null && (profile === null || profileUserid(profile) !== storedId)) {
+      yield* context.log(
+        profile !== null
+          ? `Profile ${name} does not match the stored unique ID ${storedId}.`
+          : `Trying to find profile ${name} using its unique ID ${storedId}.`
+      );
+      const profileFromId = yield* profileFromIdEffect(context, storedId);
+      const newname = profileUsername(profileFromId);
+      if (newname === name) {
+        yield* context.error(`Warning: Profile ${name} could not be retrieved by its name, but by its ID.`);
+        return profileFromId;
+      }
+      yield* context.error(`Profile ${name} has changed its name to ${newname}.`);
+      if (stamps !== null) {
+        yield* stamps.renameProfile(name, newname);
+      } else if (
+        formatStringContainsKey(config.dirnamePattern, "profile") ||
+        formatStringContainsKey(config.dirnamePattern, "target")
+      ) {
+        yield* migrateDirectoryEffect(context, formatDirname(config, name), formatDirname(config, newname));
+      } else {
+        const fsService = yield* FileSystem.FileSystem;
+        const pathService = yield* Path.Path;
+        yield* fsService.rename(
+          profileIdFilename(config, pathService, name),
+          profileIdFilename(config, pathService, newname)
+        );
+      }
+      return profileFromId;
+    }
+
+    if (byName._tag === "Left") {
+      return yield* Effect.fail(byName.left);
+    }
+    if (stamps !== null && storedId === null) {
+      yield* stamps.saveProfileId(name, profileUserid(byName.right));
+    }
+    return byName.right;
+  });
+
+/**
+ * Download a profile: its picture, metadata, posts and, as requested, tagged
+ * posts, reels, IGTV videos, stories and highlights. Sections that cannot be
+ * accessed, e.g. of a private profile that is not followed, are skipped and
+ * reported in the summary instead of failing the whole download.
+ */
+export const downloadProfileEffect = (
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  profile: ProfileData,
+  options: DownloadProfileOptions = {}
+): Effect.Effect<DownloadProfileSummary, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+
+    const username = profileUsername(profile);
+    const dirname = formatDirname(config, username, profile);
+    const sections: Partial<Record<ProfileDownloadSection, DownloadCount>> = {};
+    const skipped: ProfileDownloadSkip[] = [];
+
+    const postFilter = yield* compileFilterOption(options.postFilter, "Post");
+    const storyitemFilter = yield* compileFilterOption(options.storyitemFilter, "StoryItem");
+
+    yield* fsService.makeDirectory(dirname, { recursive: true });
+    yield* cleanTargetDirectoryEffect(context, dirname);
+
+    const stamps = config.latestStamps !== null ? yield* makeLatestStamps(config.latestStamps) : null;
+    if (stamps === null) {
+      yield* saveProfileIdEffect(config, profile);
+    } else {
+      const userid = profileUserid(profile);
+      const knownName = yield* stamps.getProfileName(userid);
+      if (knownName !== null && knownName !== username) {
+        yield* context.log(`Profile ${knownName} has changed its name to ${username}.`);
+        yield* stamps.renameProfile(knownName, username);
+      } else if ((yield* stamps.getProfileId(username)) !== userid) {
+        yield* stamps.saveProfileId(username, userid);
+      }
+    }
+
+    const runSection = (
+      section: ProfileDownloadSection,
+      effect: Effect.Effect<DownloadCount, ContextError | FileError, FileSystem.FileSystem | Path.Path>
+    ) =>
+      pipe(
+        effect,
+        Effect.tap((count) =>
+          Effect.sync(() => {
+            sections[section] = count;
+          })
+        ),
+        Effect.catchIf(isSkippable, (error) =>
+          Effect.gen(function* () {
+            skipped.push({ section, reason: error.message });
+            yield* context.log(`Skipping ${section} of ${username}: ${error.message}`);
+          })
+        )
+      );
+
+    const subdirname = (subdir: string): string =>
+      pathService.join(dirname, sanitizePath(subdir, config.sanitizePaths));
+    const subdirConfig = (subdir: string): InstaloaderConfig => ({ ...config, dirnamePattern: subdirname(subdir) });
+
+    const postDate = (post: PostData): Date => Option.getOrElse(postDateUtc(post), () => EPOCH_DATE);
+    const describePost = ({ item }: ResumableIterationResult<PostData>): string =>
+      `${postShortcode(item)} of ${username}`;
+    const filterPosts = <E, R>(posts: Stream.Stream<ResumableIterationResult<PostData>, E, R>) =>
+      filterItemsStream(context, posts, postFilter, ({ item }) => postTemplateFields(item), describePost);
+
+    const downloadPosts = (
+      targetConfig: InstaloaderConfig,
+      targetDirname: string,
+      makeStream: (frozen: FrozenNodeIterator | null) => Effect.Effect<NodeStream<PostData>, InvalidArgumentError>,
+      stampKind: LatestStampKind | null
+    ) =>
+      Effect.scoped(
+        Effect.gen(function* () {
+          const posts = yield* resumableNodeStream(context, config, targetDirname, makeStream);
+          const countOptions: CountDownloadsOptions<ResumableIterationResult<PostData>> = {
+            fastUpdate: options.fastUpdate,
+            ignoreExisting: ({ item }) => postIsPinned(item),
+            concurrency: config.downloadConcurrency,
+            counted: ({ done }) => done,
+          };
+          if (stamps === null || stampKind === null) {
+            return yield* countDownloadsEffect(
+              context,
+              filterPosts(posts),
+              describePost,
+              ({ item }) => downloadPostEffect(context, targetConfig, item, username),
+              countOptions
+            );
+          }
+          // Posts come newest first, except for pinned ones
+          const lastScraped = yield* stamps.getLastTimestamp(username, stampKind);
+          let newest = lastScraped;
+          const count = yield* countDownloadsEffect(
+            context,
+            posts.pipe(
+              Stream.takeWhile(({ item }) => postIsPinned(item) || postDate(item) > lastScraped),
+              Stream.filter(({ item }) => postDate(item) > lastScraped),
+              Stream.tap(({ item }) =>
+                Effect.sync(() => {
+                  if (postDate(item) > newest) {
+                    newest = postDate(item);
+                  }
+                })
+              ),
+              filterPosts
+            ),
+            describePost,
+            ({ item }) => downloadPostEffect(context, targetConfig, item, username),
+            countOptions
+          );
+          if (newest > lastScraped) {
+            yield* stamps.setLastTimestamp(username, stampKind, newest);
+          }
+          return count;
+        })
+      );
+
+    const describeStoryItem = (item: StoryItemData): string => `${storyItemShortcode(item)} of ${username}`;
+    const downloadStoryItems = (targetConfig: InstaloaderConfig, items: StoryItemData[]) =>
+      countDownloadsEffect(
+        context,
+        filterItemsStream(
+          context,
+          Stream.fromIterable(items),
+          storyitemFilter,
+          storyItemTemplateFields,
+          describeStoryItem
+        ),
+        describeStoryItem,
+        (item) => downloadStoryItemEffect(context, targetConfig, item, username),
+        { fastUpdate: options.fastUpdate, concurrency: config.downloadConcurrency }
+      );
+
+    const downloadProfilePic = Effect.gen(function* () {
+      const basename = Option.map(profileProfilePicUrl(profile), (url) => new URL(url).pathname.split("/").pop() ?? "");
+      if (stamps !== null && Option.isSome(basename)) {
+        if ((yield* stamps.getProfilePic(username)) === basename.value) {
+          yield* context.log(`Profile picture of ${username} is unchanged.`);
+          return false;
+        }
+        const downloaded = yield* downloadProfilePicEffect(context, config, profile);
+        yield* stamps.setProfilePic(username, basename.value);
+        return downloaded;
+      }
+      return yield* downloadProfilePicEffect(context, config, profile);
+    });
+
+    if (options.profilePic ?? true) {
+      yield* runSection(
+        "profilePic",
+        pipe(
+          downloadProfilePic,
+          Effect.map((downloaded) => ({ fetched: 1, downloaded: downloaded ? 1 : 0, failed: 0 })),
+          Effect.catchIf(
+            (error) => error._tag !== "AbortDownloadError" && !isSkippable(error),
+            (error) =>
+              Effect.as(context.error(`Download profile picture of ${username}: ${error.message}`), {
+                fetched: 0,
+                downloaded: 0,
+                failed: 1,
+              })
+          )
+        )
+      );
+    }
+
+    if (config.saveMetadata) {
+      yield* saveMetadataJsonEffect(
+        context,
+        pathService.join(dirname, `${username}_${profileUserid(profile)}`),
+        { nodeType: "Profile", structure: profile },
+        config.compressJson
+      );
+    }
+
+    const contentSections: Array<[ProfileDownloadSection, boolean]> = [
+      ["tagged", options.tagged ?? false],
+      ["igtv", options.igtv ?? false],
+      ["highlights", options.highlights ?? false],
+      ["posts", options.posts ?? true],
+      ["reels", options.reels ?? false],
+    ];
+    const requested = contentSections.filter(([, enabled]) => enabled).map(([section]) => section);
+
+    const access = yield* Effect.either(checkProfileAccessEffect(context, profile));
+    if (access._tag === "Left") {
+      for (const section of requested) {
+        skipped.push({ section, reason: access.left.message });
+      }
+      yield* context.log(`Skipping ${username}: ${access.left.message}`);
+    } else {
+      for (const section of requested) {
+        switch (section) {
+          case "tagged":
+            yield* context.log(`Retrieving tagged posts of profile ${username}.`);
+            yield* runSection(
+              "tagged",
+              downloadPosts(subdirConfig(":tagged"), subdirname(":tagged"), (frozen) =>
+                profileGetTaggedPostsNodeStream(
+                  context,
+                  profile,
+                  (node, owner) => postFromNodeSync(node, owner ?? undefined),
+                  frozen
+                ),
+                "tagged"
+              )
+            );
+            break;
+          case "igtv":
+            yield* context.log(`Retrieving IGTV videos of profile ${username}.`);
+            yield* runSection(
+              "igtv",
+              downloadPosts(
+                config,
+                dirname,
+                (frozen) => profileGetIgtvPostsNodeStream(context, profile, postFromNodeSync, frozen),
+                "igtv"
+              )
+            );
+            break;
+          case "highlights":
+            yield* runSection(
+              "highlights",
+              Effect.gen(function* () {
+                const highlights = yield* getHighlightsEffect(context, profile);
+                let total = emptyCount;
+                for (const highlight of highlights) {
+                  yield* context.log(`Retrieving highlights "${highlightTitle(highlight)}" of profile ${username}.`);
+                  const items = yield* highlightGetItems(context, highlight);
+                  const count = yield* downloadStoryItems(subdirConfig(highlightTitle(highlight)), items);
+                  total = {
+                    fetched: total.fetched + count.fetched,
+                    downloaded: total.downloaded + count.downloaded,
+                    failed: total.failed + count.failed,
+                  };
+                }
+                return total;
+              })
+            );
+            break;
+          case "posts":
+            yield* context.log(`Retrieving posts from profile ${username}.`);
+            yield* runSection(
+              "posts",
+              downloadPosts(
+                config,
+                dirname,
+                (frozen) => profileGetPostsNodeStream(context, profile, postFromNodeSync, frozen),
+                "post"
+              )
+            );
+            break;
+          case "reels":
+            yield* context.log(`Retrieving reels of profile ${username}.`);
+            yield* runSection(
+              "reels",
+              downloadPosts(
+                config,
+                dirname,
+                (frozen) => profileGetReelsNodeStream(context, profile, (node) => postFromNodeSync(node, profile), frozen),
+                null
+              )
+            );
+            break;
+          default:
+            break;
+        }
+      }
+    }
+
+    if (options.stories ?? false) {
+      yield* runSection(
+        "stories",
+        Effect.gen(function* () {
+          yield* context.log(`Retrieving stories of profile ${username}.`);
+          const stories = yield* getStoriesEffect(context, [profileUserid(profile)]);
+          const lastScraped = stamps !== null ? yield* stamps.getLastTimestamp(username, "story") : EPOCH_DATE;
+          const scrapedAt = new Date();
+          let total = emptyCount;
+          for (const story of stories) {
+            const items = yield* storyGetItems(context, story);
+            const count = yield* downloadStoryItems(
+              config,
+              items.filter((item) => storyItemDateUtc(item) > lastScraped)
+            );
+            total = {
+              fetched: total.fetched + count.fetched,
+              downloaded: total.downloaded + count.downloaded,
+              failed: total.failed + count.failed,
+            };
+          }
+          if (stamps !== null) {
+            yield* stamps.setLastTimestamp(username, "story", scrapedAt);
+          }
+          return total;
+        })
+      );
+    }
+
+    return { profile: username, dirname, sections, skipped };
+  }).pipe(withDownloadStores);
+
+// ============================================================================
+// Hashtag, Location, Feed, Saved and Stories Downloads
+// ============================================================================
+
+export interface DownloadPostsOptions {
+  /** Stop at the first post that was already downloaded; pinned posts do not count */
+  readonly fastUpdate?: boolean;
+  /** Only download posts for which this expression is true, e.g. `likes > 500 and not is_video` */
+  readonly postFilter?: string;
+}
+
+/** Download the posts of a hashtag into the target `#{name}`. */
+export const downloadHashtagEffect = (
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  hashtag: HashtagData,
+  options: DownloadPostsOptions = {}
+): Effect.Effect<DownloadCount, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const pathService = yield* Path.Path;
+    const target = `#${hashtagName(hashtag)}`;
+    const postFilter = yield* compileFilterOption(options.postFilter, "Post");
+    yield* cleanTargetDirectoryEffect(context, formatDirname(config, target));
+    yield* context.log(`Retrieving pictures with hashtag ${target}...`);
+    if (config.saveMetadata) {
+      yield* saveMetadataJsonEffect(
+        context,
+        pathService.join(formatDirname(config, target), target),
+        { nodeType: "Hashtag", structure: hashtag },
+        config.compressJson
+      );
+    }
+    const posts = yield* hashtagGetPostsStream(context, hashtag);
+    const describePost = (post: PostData): string => `${postShortcode(post)} of ${target}`;
+    return yield* countDownloadsEffect(
+      context,
+      filterItemsStream(context, posts, postFilter, postTemplateFields, describePost),
+      describePost,
+      (post) => downloadPostEffect(context, config, post, target),
+      { fastUpdate: options.fastUpdate, ignoreExisting: postIsPinned, concurrency: config.downloadConcurrency }
+    );
+  }).pipe(withDownloadStores);
+
+/** Download the posts of the logged-in user's feed into the target `:feed`. */
+export const downloadFeedPostsEffect = (
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  options: DownloadPostsOptions = {}
+): Effect.Effect<DownloadCount, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const postFilter = yield* compileFilterOption(options.postFilter, "Post");
+    yield* cleanTargetDirectoryEffect(context, formatDirname(config, ":feed"));
+    yield* context.log("Retrieving pictures from your feed...");
+    const posts = yield* getFeedPostsEffect(context);
+    const describePost = (post: PostData): string => `${postShortcode(post)} of :feed`;
+    return yield* countDownloadsEffect(
+      context,
+      filterItemsStream(context, posts, postFilter, postTemplateFields, describePost),
+      describePost,
+      (post) => downloadPostEffect(context, config, post, ":feed"),
+      { fastUpdate: options.fastUpdate, ignoreExisting: postIsPinned, concurrency: config.downloadConcurrency }
+    );
+  }).pipe(withDownloadStores);
+
+/** Download the posts of a location into the target `%{location id}`. */
+export const downloadLocationEffect = (
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  location: LocationData,
+  options: DownloadPostsOptions = {}
+): Effect.Effect<DownloadCount, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const target = `%${locationId(location)}`;
+    const postFilter = yield* compileFilterOption(options.postFilter, "Post");
+    yield* cleanTargetDirectoryEffect(context, formatDirname(config, target));
+    yield* context.log(`Retrieving pictures from location ${target}...`);
+    const posts = locationGetPostsStream(context, location);
+    const describePost = (post: PostData): string => `${postShortcode(post)} of ${target}`;
+    return yield* countDownloadsEffect(
+      context,
+      filterItemsStream(context, posts, postFilter, postTemplateFields, describePost),
+      describePost,
+      (post) => downloadPostEffect(context, config, post, target),
+      { fastUpdate: options.fastUpdate, concurrency: config.downloadConcurrency }
+    );
+  }).pipe(withDownloadStores);
+
+/** Download the posts saved by the logged-in user into the target `:saved`. */
+export const downloadSavedPostsEffect = (
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  options: DownloadPostsOptions = {}
+): Effect.Effect<DownloadCount, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const username = yield* context.getUsername;
+    if (username === null) {
+      return yield* Effect.fail(new LoginRequiredError({ message: "Login required." }));
+    }
+    const postFilter = yield* compileFilterOption(options.postFilter, "Post");
+    yield* cleanTargetDirectoryEffect(context, formatDirname(config, ":saved"));
+    yield* context.log("Retrieving saved posts...");
+    const profile = yield* profileFromUsername(context, username);
+    const posts = yield* resumableNodeStream(context, config, formatDirname(config, ":saved"), (frozen) =>
+      profileGetSavedPostsNodeStream(context, profile, (node) => postFromNodeSync(node), frozen)
+    );
+    const describePost = ({ item }: ResumableIterationResult<PostData>): string => `${postShortcode(item)} of :saved`;
+    return yield* countDownloadsEffect(
+      context,
+      filterItemsStream(context, posts, postFilter, ({ item }) => postTemplateFields(item), describePost),
+      describePost,
+      ({ item }) => downloadPostEffect(context, config, item, ":saved"),
+      { fastUpdate: options.fastUpdate, concurrency: config.downloadConcurrency, counted: ({ done }) => done }
+    );
+  }).pipe(Effect.scoped, withDownloadStores);
+
+export interface DownloadStoriesOptions {
+  /** Stop each user's stories at the first item that was already downloaded */
+  readonly fastUpdate?: boolean;
+  /** Only download story items for which this expression is true */
+  readonly storyitemFilter?: string;
+}
+
+/**
+ * Download the current stories of the users the logged-in user follows, or of the
+ * given users, into the target `:stories`.
+ */
+export const downloadStoriesEffect = (
+  context: InstaloaderContextShape,
+  config: InstaloaderConfig,
+  userids?: number[],
+  options: DownloadStoriesOptions = {}
+): Effect.Effect<DownloadCount, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const storyitemFilter = yield* compileFilterOption(options.storyitemFilter, "StoryItem");
+    yield* cleanTargetDirectoryEffect(context, formatDirname(config, ":stories"));
+    const stories = yield* getStoriesEffect(context, userids);
+    let total = emptyCount;
+    for (const story of stories) {
+      const name = storyOwnerUsername(story);
+      yield* context.log(`Retrieving stories from profile ${name}.`);
+      const describeStoryItem = (item: StoryItemData): string => `${storyItemShortcode(item)} of ${name}`;
+      const items = yield* storyGetItems(context, story);
+      const count = yield* countDownloadsEffect(
+        context,
+        filterItemsStream(
+          context,
+          Stream.fromIterable(items),
+          storyitemFilter,
+          storyItemTemplateFields,
+          describeStoryItem
+        ),
+        describeStoryItem,
+        (item) => downloadStoryItemEffect(context, config, item, ":stories"),
+        { fastUpdate: options.fastUpdate, concurrency: config.downloadConcurrency }
+      );
+      total = {
+        fetched: total.fetched + count.fetched,
+        downloaded: total.downloaded + count.downloaded,
+        failed: total.failed + count.failed,
+      };
+    }
+    return total;
+  }).pipe(withDownloadStores);
+
 // ============================================================================
 // Instaloader Options
 // ============================================================================
@@ -691,7 +2153,92 @@ export interface InstaloaderOptions extends InstaloaderContextOptions {
   storyitemMetadataTxtPattern?: string;
   resumePrefix?: string | null;
   checkResumeBbd?: boolean;
+  latestStamps?: string | null;
   slide?: string;
   sanitizePaths?: boolean;
+  downloadConcurrency?: number;
+  dedupIndex?: string | null;
+  dedupLinks?: DedupLinkMode;
+  manifestFilename?: string | null;
 }
 
+const parseSlide = (
+  slide: string
+): Effect.Effect<{ slideStart: number; slideEnd: number }, InvalidArgumentError> => {
+  const invalid = (message: string) => Effect.fail(new InvalidArgumentError({ message, argument: "slide" }));
+  if (slide === "") {
+    return Effect.succeed({ slideStart: 0, slideEnd: -1 });
+  }
+  const parts = slide.split("-");
+  if (parts.length === 1) {
+    if (parts[0] === "last") {
+      return Effect.succeed({ slideStart: -1, slideEnd: -1 });
+    }
+    const index = Number(parts[0]);
+    if (Number.isInteger(index) && index > 0) {
+      return Effect.succeed({ slideStart: index - 1, slideEnd: index - 1 });
+    }
+    return invalid("--slide parameter must be greater than 0.");
+  }
+  if (parts.length === 2) {
+    const start = Number(parts[0]);
+    if (Number.isInteger(start) && start > 0 && parts[1] === "last") {
+      return Effect.succeed({ slideStart: start - 1, slideEnd: -1 });
+    }
+    const end = Number(parts[1]);
+    if (Number.isInteger(start) && Number.isInteger(end) && 0 < start && start < end) {
+      return Effect.succeed({ slideStart: start - 1, slideEnd: end - 1 });
+    }
+  }
+  return invalid("Invalid data for --slide parameter.");
+};
+
+/**
+ * Build the download configuration from user options, falling back to
+ * `defaultConfig` for anything not given.
+ */
+export const makeInstaloaderConfig = (
+  options: InstaloaderOptions = {}
+): Effect.Effect<InstaloaderConfig, InvalidArgumentError> =>
+  Effect.gen(function* () {
+    const { slideStart, slideEnd } = yield* parseSlide(options.slide ?? "");
+    const downloadConcurrency = options.downloadConcurrency ?? defaultConfig.downloadConcurrency;
+    if (!Number.isInteger(downloadConcurrency) || downloadConcurrency < 1) {
+      return yield* Effect.fail(
+        new InvalidArgumentError({
+          message: "downloadConcurrency must be a positive integer.",
+          argument: "downloadConcurrency",
+        })
+      );
+    }
+    const dedupLinks = options.dedupLinks ?? defaultConfig.dedupLinks;
+    if (dedupLinks !== "hardlink" && dedupLinks !== "symlink") {
+      return yield* Effect.fail(
+        new InvalidArgumentError({ message: 'dedupLinks must be "hardlink" or "symlink".', argument: "dedupLinks" })
+      );
+    }
+    return {
+      dirnamePattern: options.dirnamePattern ?? defaultConfig.dirnamePattern,
+      filenamePattern: options.filenamePattern ?? defaultConfig.filenamePattern,
+      titlePattern: options.titlePattern ?? defaultConfig.titlePattern,
+      sanitizePaths: options.sanitizePaths ?? defaultConfig.sanitizePaths,
+      downloadPictures: options.downloadPictures ?? defaultConfig.downloadPictures,
+      downloadVideos: options.downloadVideos ?? defaultConfig.downloadVideos,
+      downloadVideoThumbnails: options.downloadVideoThumbnails ?? defaultConfig.downloadVideoThumbnails,
+      downloadGeotags: options.downloadGeotags ?? defaultConfig.downloadGeotags,
+      downloadComments: options.downloadComments ?? defaultConfig.downloadComments,
+      saveMetadata: options.saveMetadata ?? defaultConfig.saveMetadata,
+      compressJson: options.compressJson ?? defaultConfig.compressJson,
+      postMetadataTxtPattern: options.postMetadataTxtPattern ?? defaultConfig.postMetadataTxtPattern,
+      storyitemMetadataTxtPattern: options.storyitemMetadataTxtPattern ?? defaultConfig.storyitemMetadataTxtPattern,
+      resumePrefix: options.resumePrefix === undefined ? defaultConfig.resumePrefix : options.resumePrefix,
+      checkResumeBbd: options.checkResumeBbd ?? defaultConfig.checkResumeBbd,
+      latestStamps: options.latestStamps ?? defaultConfig.latestStamps,
+      slideStart,
+      slideEnd,
+      downloadConcurrency,
+      dedupIndex: options.dedupIndex ?? defaultConfig.dedupIndex,
+      dedupLinks,
+      manifestFilename: options.manifestFilename ?? defaultConfig.manifestFilename,
+    };
+  });
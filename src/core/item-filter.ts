@@ -0,0 +1,523 @@
+import { Effect } from "effect";
+import { InvalidArgumentError } from "../exceptions/index.ts";
+import {
+  isTemplateDate,
+  POST_TEMPLATE_FIELD_NAMES,
+  resolveAttribute,
+  STORY_ITEM_TEMPLATE_FIELD_NAMES,
+  utcDate,
+  type TemplateFields,
+  type TemplateValue,
+} from "./path-formatter.ts";
+
+/** Kind of item a filter is evaluated against. */
+export type ItemFilterType = "Post" | "StoryItem";
+
+type FilterValue = TemplateValue | readonly FilterValue[];
+
+type CompareOp = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "not in" | "is" | "is not";
+type ArithmeticOp = "+" | "-" | "*" | "/" | "//" | "%";
+
+type Expr =
+  | { readonly kind: "literal"; readonly value: FilterValue }
+  | { readonly kind: "list"; readonly items: readonly Expr[] }
+  | { readonly kind: "name"; readonly name: string }
+  | { readonly kind: "attribute"; readonly object: Expr; readonly name: string }
+  | { readonly kind: "subscript"; readonly object: Expr; readonly index: Expr }
+  | { readonly kind: "datetime"; readonly args: readonly Expr[] }
+  | { readonly kind: "not"; readonly operand: Expr }
+  | { readonly kind: "negate"; readonly sign: "-" | "+"; readonly operand: Expr }
+  | { readonly kind: "bool"; readonly op: "and" | "or"; readonly left: Expr; readonly right: Expr }
+  | { readonly kind: "compare"; readonly first: Expr; readonly rest: ReadonlyArray<readonly [CompareOp, Expr]> }
+  | { readonly kind: "arithmetic"; readonly op: ArithmeticOp; readonly left: Expr; readonly right: Expr };
+
+/**
+ * A compiled `--post-filter`/`--storyitem-filter` expression: a Python expression
+ * over the properties of a post or story item, as in Python instaloader, e.g.
+ * `likes > 500 and not is_video and date_utc > "2024-01-01"`.
+ *
+ * Supported are literals (numbers, strings, `True`, `False`, `None`, lists), the
+ * item's properties with attribute and index access (`date_utc.year`,
+ * `owner_profile.followers`), `datetime(year, month, day, ...)` in UTC, `and`,
+ * `or`, `not`, comparisons including `in` and `is`, and arithmetic. Dates compare
+ * with dates and with date strings.
+ */
+export interface ItemFilter {
+  readonly source: string;
+  readonly itemType: ItemFilterType;
+  readonly expression: Expr;
+}
+
+class FilterError extends Error {}
+
+const FIELD_NAMES: Record<ItemFilterType, ReadonlySet<string>> = {
+  Post: new Set(POST_TEMPLATE_FIELD_NAMES),
+  StoryItem: new Set(STORY_ITEM_TEMPLATE_FIELD_NAMES),
+};
+
+const KEYWORDS = new Set(["and", "or", "not", "in", "is", "True", "False", "None"]);
+
+type Token =
+  | { readonly type: "number"; readonly value: number; readonly pos: number }
+  | { readonly type: "string"; readonly value: string; readonly pos: number }
+  | { readonly type: "name"; readonly value: string; readonly pos: number }
+  | { readonly type: "op"; readonly value: string; readonly pos: number }
+  | { readonly type: "end"; readonly value: ""; readonly pos: number };
+
+const OPERATORS = ["==", "!=", "<=", ">=", "//", "<", ">", "+", "-", "*", "/", "%", "(", ")", "[", "]", ",", "."];
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", "'": "'", '"': '"' };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < source.length) {
+    const ch = source[pos]!;
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+    const number = /^(\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(pos));
+    if (number) {
+      tokens.push({ type: "number", value: Number(number[0]), pos });
+      pos += number[0].length;
+      continue;
+    }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos));
+    if (name) {
+      tokens.push({ type: "name", value: name[0], pos });
+      pos += name[0].length;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      let value = "";
+      let end = pos + 1;
+      while (end < source.length && source[end] !== ch) {
+        if (source[end] === "\\" && end + 1 < source.length) {
+          const escaped = source[end + 1]!;
+          value += ESCAPES[escaped] ?? `\\${escaped}`;
+          end += 2;
+        } else {
+          value += source[end];
+          end++;
+        }
+      }
+      if (end >= source.length) {
+        throw new FilterError(`unterminated string at position ${pos}`);
+      }
+      tokens.push({ type: "string", value, pos });
+      pos = end + 1;
+      continue;
+    }
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, pos));
+    if (op === undefined) {
+      throw new FilterError(`unexpected character ${JSON.stringify(ch)} at position ${pos}`);
+    }
+    tokens.push({ type: "op", value: op, pos });
+    pos += op.length;
+  }
+  tokens.push({ type: "end", value: "", pos });
+  return tokens;
+};
+
+const parse = (source: string, fieldNames: ReadonlySet<string>, itemType: ItemFilterType): Expr => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = (): Token => tokens[index]!;
+  const isOp = (value: string): boolean => peek().type === "op" && peek().value === value;
+  const isKeyword = (value: string): boolean => peek().type === "name" && peek().value === value;
+  const describe = (token: Token): string => (token.type === "end" ? "end of filter" : JSON.stringify(String(token.value)));
+  const fail = (token: Token): never => {
+    throw new FilterError(`unexpected ${describe(token)} at position ${token.pos}`);
+  };
+  const expectOp = (value: string): void => {
+    if (!isOp(value)) {
+      fail(peek());
+    }
+    index++;
+  };
+
+  const parseOr = (): Expr => {
+    let left = parseAnd();
+    while (isKeyword("or")) {
+      index++;
+      left = { kind: "bool", op: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Expr => {
+    let left = parseNot();
+    while (isKeyword("and")) {
+      index++;
+      left = { kind: "bool", op: "and", left, right: parseNot() };
+    }
+    return left;
+  };
+
+  const parseNot = (): Expr => {
+    if (isKeyword("not")) {
+      index++;
+      return { kind: "not", operand: parseNot() };
+    }
+    return parseComparison();
+  };
+
+  const compareOp = (): CompareOp | null => {
+    const token = peek();
+    if (token.type === "op" && ["==", "!=", "<", "<=", ">", ">="].includes(token.value)) {
+      index++;
+      return token.value as CompareOp;
+    }
+    if (isKeyword("in")) {
+      index++;
+      return "in";
+    }
+    if (isKeyword("not") && tokens[index + 1]?.type === "name" && tokens[index + 1]?.value === "in") {
+      index += 2;
+      return "not in";
+    }
+    if (isKeyword("is")) {
+      index++;
+      if (isKeyword("not")) {
+        index++;
+        return "is not";
+      }
+      return "is";
+    }
+    return null;
+  };
+
+  const parseComparison = (): Expr => {
+    const first = parseSum();
+    const rest: Array<readonly [CompareOp, Expr]> = [];
+    for (let op = compareOp(); op !== null; op = compareOp()) {
+      rest.push([op, parseSum()]);
+    }
+    return rest.length === 0 ? first : { kind: "compare", first, rest };
+  };
+
+  const parseSum = (): Expr => {
+    let left = parseTerm();
+    while (isOp("+") || isOp("-")) {
+      const op = peek().value as ArithmeticOp;
+      index++;
+      left = { kind: "arithmetic", op, left, right: parseTerm() };
+    }
+    return left;
+  };
+
+  const parseTerm = (): Expr => {
+    let left = parseUnary();
+    while (isOp("*") || isOp("/") || isOp("//") || isOp("%")) {
+      const op = peek().value as ArithmeticOp;
+      index++;
+      left = { kind: "arithmetic", op, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expr => {
+    if (isOp("-") || isOp("+")) {
+      const sign = peek().value as "-" | "+";
+      index++;
+      return { kind: "negate", sign, operand: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  const parseList = (close: string): Expr[] => {
+    const items: Expr[] = [];
+    while (!isOp(close)) {
+      items.push(parseOr());
+      if (!isOp(close)) {
+        expectOp(",");
+      }
+    }
+    index++;
+    return items;
+  };
+
+  const parsePostfix = (): Expr => {
+    let expr = parseAtom();
+    for (;;) {
+      if (isOp(".")) {
+        index++;
+        const token = peek();
+        if (token.type !== "name") {
+          return fail(token);
+        }
+        index++;
+        expr = { kind: "attribute", object: expr, name: token.value };
+      } else if (isOp("[")) {
+        index++;
+        const subscript = parseOr();
+        expectOp("]");
+        expr = { kind: "subscript", object: expr, index: subscript };
+      } else {
+        return expr;
+      }
+    }
+  };
+
+  const parseAtom = (): Expr => {
+    const token = peek();
+    index++;
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "name":
+        if (token.value === "True" || token.value === "False") {
+          return { kind: "literal", value: token.value === "True" };
+        }
+        if (token.value === "None") {
+          return { kind: "literal", value: null };
+        }
+        if (token.value === "datetime" && isOp("(")) {
+          index++;
+          const args = parseList(")");
+          if (args.length < 3 || args.length > 6) {
+            throw new FilterError("datetime() takes year, month and day, and optionally hour, minute and second");
+          }
+          return { kind: "datetime", args };
+        }
+        if (KEYWORDS.has(token.value)) {
+          return fail(token);
+        }
+        if (!fieldNames.has(token.value)) {
+          throw new FilterError(`${token.value} not a ${itemType} attribute.`);
+        }
+        return { kind: "name", name: token.value };
+      case "op":
+        if (token.value === "(") {
+          const items = parseList(")");
+          if (items.length === 1) {
+            return items[0]!;
+          }
+          return { kind: "list", items };
+        }
+        if (token.value === "[") {
+          return { kind: "list", items: parseList("]") };
+        }
+        return fail(token);
+      case "end":
+        return fail(token);
+    }
+  };
+
+  const expression = parseOr();
+  if (peek().type !== "end") {
+    fail(peek());
+  }
+  return expression;
+};
+
+const typeName = (value: FilterValue): string => {
+  if (value === null || value === undefined) return "None";
+  if (isTemplateDate(value)) return "datetime";
+  if (Array.isArray(value)) return "list";
+  if (typeof value === "object") return "object";
+  return typeof value;
+};
+
+const truthy = (value: FilterValue): boolean => {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && value !== undefined && value !== false && value !== 0 && value !== "";
+};
+
+const dateTime = (value: FilterValue, other: FilterValue): number | null => {
+  if (isTemplateDate(value)) {
+    return value.date.getTime();
+  }
+  if (typeof value === "string" && isTemplateDate(other)) {
+    const parsed = Date.parse(value);
+    if (Number.isNaN(parsed)) {
+      throw new FilterError(`cannot compare datetime with ${JSON.stringify(value)}`);
+    }
+    return parsed;
+  }
+  return null;
+};
+
+const equals = (a: FilterValue, b: FilterValue): boolean => {
+  const dateA = dateTime(a, b);
+  const dateB = dateTime(b, a);
+  if (dateA !== null && dateB !== null) {
+    return dateA === dateB;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equals(item, b[i]!));
+  }
+  return (a ?? null) === (b ?? null);
+};
+
+const order = (a: FilterValue, b: FilterValue, op: string): number => {
+  const dateA = dateTime(a, b);
+  const dateB = dateTime(b, a);
+  if (dateA !== null && dateB !== null) {
+    return dateA - dateB;
+  }
+  if ((typeof a === "number" || typeof a === "boolean") && (typeof b === "number" || typeof b === "boolean")) {
+    return Number(a) - Number(b);
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  throw new FilterError(`'${op}' not supported between ${typeName(a)} and ${typeName(b)}`);
+};
+
+const contains = (container: FilterValue, item: FilterValue): boolean => {
+  if (typeof container === "string" && typeof item === "string") {
+    return container.includes(item);
+  }
+  if (Array.isArray(container)) {
+    return container.some((element) => equals(element, item));
+  }
+  throw new FilterError(`'in' not supported for ${typeName(item)} in ${typeName(container)}`);
+};
+
+const compare = (op: CompareOp, a: FilterValue, b: FilterValue): boolean => {
+  switch (op) {
+    case "==": return equals(a, b);
+    case "!=": return !equals(a, b);
+    case "<": return order(a, b, op) < 0;
+    case "<=": return order(a, b, op) <= 0;
+    case ">": return order(a, b, op) > 0;
+    case ">=": return order(a, b, op) >= 0;
+    case "in": return contains(b, a);
+    case "not in": return !contains(b, a);
+    case "is": return (a ?? null) === (b ?? null);
+    case "is not": return (a ?? null) !== (b ?? null);
+  }
+};
+
+const arithmetic = (op: ArithmeticOp, a: FilterValue, b: FilterValue): FilterValue => {
+  if (op === "+" && typeof a === "string" && typeof b === "string") {
+    return a + b;
+  }
+  if (op === "+" && Array.isArray(a) && Array.isArray(b)) {
+    return [...a, ...b];
+  }
+  if ((typeof a !== "number" && typeof a !== "boolean") || (typeof b !== "number" && typeof b !== "boolean")) {
+    throw new FilterError(`unsupported operand types for ${op}: ${typeName(a)} and ${typeName(b)}`);
+  }
+  const x = Number(a);
+  const y = Number(b);
+  if ((op === "/" || op === "//" || op === "%") && y === 0) {
+    throw new FilterError("division by zero");
+  }
+  switch (op) {
+    case "+": return x + y;
+    case "-": return x - y;
+    case "*": return x * y;
+    case "/": return x / y;
+    case "//": return Math.floor(x / y);
+    case "%": return x - y * Math.floor(x / y);
+  }
+};
+
+const evaluate = (expr: Expr, fields: TemplateFields): FilterValue => {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "list":
+      return expr.items.map((item) => evaluate(item, fields));
+    case "name": {
+      const field = fields[expr.name];
+      return typeof field === "function" ? field() : field;
+    }
+    case "attribute": {
+      const object = evaluate(expr.object, fields);
+      const value = resolveAttribute(object as TemplateValue, expr.name);
+      if (value === undefined) {
+        throw new FilterError(`${typeName(object)} has no attribute ${expr.name}`);
+      }
+      return value;
+    }
+    case "subscript": {
+      const object = evaluate(expr.object, fields);
+      const key = evaluate(expr.index, fields);
+      if ((typeof object === "string" || Array.isArray(object)) && typeof key === "number" && Number.isInteger(key)) {
+        const value = object.at(key);
+        if (value === undefined) {
+          throw new FilterError("index out of range");
+        }
+        return value;
+      }
+      throw new FilterError(`${typeName(object)} cannot be indexed with ${typeName(key)}`);
+    }
+    case "datetime": {
+      const [year, month, day, hour = 0, minute = 0, second = 0] = expr.args.map((arg) => {
+        const value = evaluate(arg, fields);
+        if (typeof value !== "number" || !Number.isInteger(value)) {
+          throw new FilterError(`datetime() arguments must be integers, not ${typeName(value)}`);
+        }
+        return value;
+      });
+      return utcDate(new Date(Date.UTC(year!, month! - 1, day!, hour, minute, second)));
+    }
+    case "not":
+      return !truthy(evaluate(expr.operand, fields));
+    case "negate": {
+      const value = evaluate(expr.operand, fields);
+      if (typeof value !== "number" && typeof value !== "boolean") {
+        throw new FilterError(`bad operand type for unary ${expr.sign}: ${typeName(value)}`);
+      }
+      return expr.sign === "-" ? -Number(value) : Number(value);
+    }
+    case "bool": {
+      const left = evaluate(expr.left, fields);
+      if (expr.op === "and" ? !truthy(left) : truthy(left)) {
+        return left;
+      }
+      return evaluate(expr.right, fields);
+    }
+    case "compare": {
+      let left = evaluate(expr.first, fields);
+      for (const [op, rightExpr] of expr.rest) {
+        const right = evaluate(rightExpr, fields);
+        if (!compare(op, left, right)) {
+          return false;
+        }
+        left = right;
+      }
+      return true;
+    }
+    case "arithmetic":
+      return arithmetic(expr.op, evaluate(expr.left, fields), evaluate(expr.right, fields));
+  }
+};
+
+/**
+ * Parses a filter expression. Fails with {@link InvalidArgumentError} on syntax
+ * errors and on names that are not properties of the item type.
+ */
+export const compileItemFilter = (
+  source: string,
+  itemType: ItemFilterType
+): Effect.Effect<ItemFilter, InvalidArgumentError> =>
+  Effect.try({
+    try: () => ({ source, itemType, expression: parse(source, FIELD_NAMES[itemType], itemType) }),
+    catch: (e) =>
+      new InvalidArgumentError({
+        argument: itemType === "Post" ? "postFilter" : "storyitemFilter",
+        message: `Invalid filter: ${e instanceof Error ? e.message : String(e)}`,
+        cause: e,
+      }),
+  });
+
+/** Evaluates a filter against an item's properties, failing on type errors. */
+export const evaluateItemFilter = (
+  filter: ItemFilter,
+  fields: TemplateFields
+): Effect.Effect<boolean, InvalidArgumentError> =>
+  Effect.try({
+    try: () => truthy(evaluate(filter.expression, fields)),
+    catch: (e) =>
+      new InvalidArgumentError({
+        argument: filter.source,
+        message: e instanceof FilterError ? e.message : `Filter evaluation failed: ${String(e)}`,
+        cause: e,
+      }),
+  });
@@ -0,0 +1,179 @@
+import { Effect, Ref } from "effect";
+import { FileSystem, Path, type Error as PlatformError } from "@effect/platform";
+import { writeFileAtomic } from "./atomic-file.ts";
+
+type FileError = PlatformError.PlatformError;
+
+/** Items whose newest timestamp is recorded per profile. */
+export type LatestStampKind = "post" | "tagged" | "igtv" | "story";
+
+const PROFILE_ID = "profile-id";
+const PROFILE_PIC = "profile-pic";
+const TIMESTAMP_KEYS: Record<LatestStampKind, string> = {
+  post: "post-timestamp",
+  tagged: "tagged-timestamp",
+  igtv: "igtv-timestamp",
+  story: "story-timestamp",
+};
+const PROFILE_KEYS = [PROFILE_ID, PROFILE_PIC, ...Object.values(TIMESTAMP_KEYS)];
+
+const EPOCH_DATE = new Date(0);
+
+type Sections = Map<string, Map<string, string>>;
+
+/**
+ * Database of the newest items downloaded per profile, so that only newer items
+ * are fetched even if the downloaded files were moved away.
+ *
+ * The file is an INI file in the layout of Python instaloader's `--latest-stamps`:
+ * one section per profile name, holding its `profile-id`, the basename of its last
+ * `profile-pic` and the `*-timestamp` of its newest post, tagged post, IGTV video
+ * and story. Every update rewrites the file atomically.
+ */
+export interface LatestStamps {
+  readonly file: string;
+  readonly getProfileId: (profileName: string) => Effect.Effect<number | null>;
+  /** Name of the profile last recorded with the given ID */
+  readonly getProfileName: (profileId: number) => Effect.Effect<string | null>;
+  readonly saveProfileId: (profileName: string, profileId: number) => Effect.Effect<void, FileError>;
+  /** Moves the stamps of a profile that changed its name */
+  readonly renameProfile: (oldProfileName: string, newProfileName: string) => Effect.Effect<void, FileError>;
+  /** Timestamp of the newest item of the given kind, or the epoch if there is none */
+  readonly getLastTimestamp: (profileName: string, kind: LatestStampKind) => Effect.Effect<Date>;
+  readonly setLastTimestamp: (
+    profileName: string,
+    kind: LatestStampKind,
+    timestamp: Date
+  ) => Effect.Effect<void, FileError>;
+  readonly getProfilePic: (profileName: string) => Effect.Effect<string>;
+  readonly setProfilePic: (profileName: string, profilePic: string) => Effect.Effect<void, FileError>;
+}
+
+/** Parses the subset of INI that Python's configparser writes. */
+const parseIni = (content: string): Sections => {
+  const sections: Sections = new Map();
+  let current: Map<string, string> | null = null;
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+    const header = /^\[(.*)\]$/.exec(line);
+    if (header) {
+      current = sections.get(header[1]!) ?? new Map();
+      sections.set(header[1]!, current);
+      continue;
+    }
+    const separator = line.search(/[=:]/);
+    if (current !== null && separator > 0) {
+      current.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+    }
+  }
+  return sections;
+};
+
+const formatIni = (sections: Sections): string =>
+  Array.from(sections, ([name, options]) =>
+    [`[${name}]`, ...Array.from(options, ([key, value]) => `${key} = ${value}`), "", ""].join("\n")
+  ).join("");
+
+/** Formats like Python's `%Y-%m-%dT%H:%M:%S.%f%z`, in UTC. */
+const formatTimestamp = (date: Date): string =>
+  `${date.toISOString().slice(0, 19)}.${String(date.getUTCMilliseconds() * 1000).padStart(6, "0")}+0000`;
+
+const parseTimestamp = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,6}))?(?:([+-])(\d{2}):?(\d{2})|Z)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second, fraction, sign, offsetHours, offsetMinutes] = match;
+  const millis = Math.floor(Number((fraction ?? "0").padEnd(6, "0")) / 1000);
+  const offset = sign ? (sign === "-" ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes)) : 0;
+  return new Date(
+    Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second), millis) -
+      offset * 60_000
+  );
+};
+
+/** Opens the latest-stamps database in `file`, which need not exist yet. */
+export const makeLatestStamps = (
+  file: string
+): Effect.Effect<LatestStamps, FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+
+    const exists = yield* fsService.exists(file);
+    const sectionsRef = yield* Ref.make<Sections>(exists ? parseIni(yield* fsService.readFileString(file)) : new Map());
+    const lock = yield* Effect.makeSemaphore(1);
+
+    const getOption = (section: string, key: string): Effect.Effect<string | null> =>
+      Effect.map(Ref.get(sectionsRef), (sections) => sections.get(section)?.get(key) ?? null);
+
+    const save = (sections: Sections): Effect.Effect<void, FileError> =>
+      Effect.gen(function* () {
+        const dir = pathService.dirname(file);
+        if (dir) {
+          yield* fsService.makeDirectory(dir, { recursive: true });
+        }
+        yield* Effect.provideService(writeFileAtomic(file, formatIni(sections)), FileSystem.FileSystem, fsService);
+      });
+
+    const update = (f: (sections: Sections) => void): Effect.Effect<void, FileError> =>
+      lock.withPermits(1)(
+        Effect.gen(function* () {
+          const sections: Sections = new Map(
+            Array.from(yield* Ref.get(sectionsRef), ([name, options]) => [name, new Map(options)])
+          );
+          f(sections);
+          yield* save(sections);
+          yield* Ref.set(sectionsRef, sections);
+        })
+      );
+
+    const setOption = (section: string, key: string, value: string) =>
+      update((sections) => {
+        const options = sections.get(section) ?? new Map<string, string>();
+        options.set(key, value);
+        sections.set(section, options);
+      });
+
+    return {
+      file,
+      getProfileId: (profileName) =>
+        Effect.map(getOption(profileName, PROFILE_ID), (value) =>
+          value !== null && /^-?\d+$/.test(value) ? Number(value) : null
+        ),
+      getProfileName: (profileId) =>
+        Effect.map(Ref.get(sectionsRef), (sections) => {
+          for (const [name, options] of sections) {
+            if (options.get(PROFILE_ID) === String(profileId)) {
+              return name;
+            }
+          }
+          return null;
+        }),
+      saveProfileId: (profileName, profileId) => setOption(profileName, PROFILE_ID, String(profileId)),
+      renameProfile: (oldProfileName, newProfileName) =>
+        update((sections) => {
+          const options = sections.get(newProfileName) ?? new Map<string, string>();
+          const old = sections.get(oldProfileName);
+          for (const key of PROFILE_KEYS) {
+            const value = old?.get(key);
+            if (value !== undefined) {
+              options.set(key, value);
+            }
+          }
+          sections.delete(oldProfileName);
+          sections.set(newProfileName, options);
+        }),
+      getLastTimestamp: (profileName, kind) =>
+        Effect.map(getOption(profileName, TIMESTAMP_KEYS[kind]), (value) =>
+          (value !== null ? parseTimestamp(value) : null) ?? EPOCH_DATE
+        ),
+      setLastTimestamp: (profileName, kind, timestamp) =>
+        setOption(profileName, TIMESTAMP_KEYS[kind], formatTimestamp(timestamp)),
+      getProfilePic: (profileName) => Effect.map(getOption(profileName, PROFILE_PIC), (value) => value ?? ""),
+      setProfilePic: (profileName, profilePic) => setOption(profileName, PROFILE_PIC, profilePic),
+    };
+  });
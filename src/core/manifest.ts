@@ -0,0 +1,194 @@
+import { Effect } from "effect";
+import type { InstaloaderError } from "../exceptions/index.ts";
+import { openSqliteDatabase, sqliteTry } from "../utils/sqlite.ts";
+
+export type ManifestItemKind = "post" | "storyitem";
+
+/** A post or story item as recorded in the manifest. */
+export interface ManifestItem {
+  readonly kind: ManifestItemKind;
+  readonly shortcode: string;
+  readonly mediaid: number;
+  readonly ownerUsername: string | null;
+  readonly ownerId: number | null;
+  readonly typename: string;
+  readonly dateUtc: Date;
+  readonly target: string;
+}
+
+export interface ManifestFile {
+  readonly path: string;
+  readonly size: number;
+  readonly sha256: string;
+}
+
+export interface ManifestEntry extends ManifestItem {
+  /** Time of the last download that saved the item */
+  readonly downloadedAt: Date;
+  readonly files: ManifestFile[];
+}
+
+export interface ManifestQuery {
+  readonly kind?: ManifestItemKind;
+  readonly shortcode?: string;
+  readonly ownerUsername?: string;
+  readonly target?: string;
+  /** Items posted at or after this date */
+  readonly since?: Date;
+  /** Items posted before this date */
+  readonly until?: Date;
+  /** Items with a file of this SHA-256 */
+  readonly sha256?: string;
+  readonly limit?: number;
+}
+
+/**
+ * SQLite database of the posts and story items saved into a target directory,
+ * with the path, size and SHA-256 of each file written for them, so that tools
+ * can find downloaded items without crawling the filesystem.
+ */
+export interface Manifest {
+  readonly file: string;
+  /** Records an item and the files just written for it, if any; earlier files of the item are kept. */
+  readonly record: (
+    item: ManifestItem,
+    files: readonly ManifestFile[],
+    downloadedAt?: Date
+  ) => Effect.Effect<void, InstaloaderError>;
+  /** Recorded items matching all given criteria, newest first */
+  readonly query: (query?: ManifestQuery) => Effect.Effect<ManifestEntry[], InstaloaderError>;
+  readonly close: Effect.Effect<void>;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS items (
+  id INTEGER PRIMARY KEY,
+  kind TEXT NOT NULL,
+  shortcode TEXT NOT NULL,
+  mediaid INTEGER NOT NULL,
+  owner_username TEXT,
+  owner_id INTEGER,
+  typename TEXT NOT NULL,
+  date_utc TEXT NOT NULL,
+  target TEXT NOT NULL,
+  downloaded_at TEXT NOT NULL,
+  UNIQUE (kind, shortcode)
+);
+CREATE TABLE IF NOT EXISTS files (
+  item_id INTEGER NOT NULL REFERENCES items (id) ON DELETE CASCADE,
+  path TEXT NOT NULL UNIQUE,
+  size INTEGER NOT NULL,
+  sha256 TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS items_owner ON items (owner_username);
+CREATE INDEX IF NOT EXISTS items_date ON items (date_utc);
+CREATE INDEX IF NOT EXISTS files_item ON files (item_id);
+CREATE INDEX IF NOT EXISTS files_sha256 ON files (sha256);
+`;
+
+interface ItemRow {
+  readonly id: number;
+  readonly kind: ManifestItemKind;
+  readonly shortcode: string;
+  readonly mediaid: number;
+  readonly owner_username: string | null;
+  readonly owner_id: number | null;
+  readonly typename: string;
+  readonly date_utc: string;
+  readonly target: string;
+  readonly downloaded_at: string;
+}
+
+interface FileRow {
+  readonly item_id: number;
+  readonly path: string;
+  readonly size: number;
+  readonly sha256: string;
+}
+
+/** Opens or creates the manifest database in `file`. */
+export const openManifest = (file: string): Effect.Effect<Manifest, InstaloaderError> =>
+  Effect.flatMap(openSqliteDatabase(file, `Cannot open manifest ${file}`), (db) =>
+    sqliteTry(`Cannot open manifest ${file}`, () => {
+      db.exec("PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;");
+      db.exec(SCHEMA);
+
+      const upsertItem = db.query<{ id: number }, Record<string, string | number | null>>(
+        `INSERT INTO items (kind, shortcode, mediaid, owner_username, owner_id, typename, date_utc, target, downloaded_at)
+         VALUES ($kind, $shortcode, $mediaid, $owner_username, $owner_id, $typename, $date_utc, $target, $downloaded_at)
+         ON CONFLICT (kind, shortcode) DO UPDATE SET
+           mediaid = excluded.mediaid, owner_username = excluded.owner_username, owner_id = excluded.owner_id,
+           typename = excluded.typename, date_utc = excluded.date_utc, target = excluded.target,
+           downloaded_at = excluded.downloaded_at
+         RETURNING id`
+      );
+      const upsertFile = db.query<never, Record<string, string | number>>(
+        `INSERT INTO files (item_id, path, size, sha256) VALUES ($item_id, $path, $size, $sha256)
+         ON CONFLICT (path) DO UPDATE SET item_id = excluded.item_id, size = excluded.size, sha256 = excluded.sha256`
+      );
+      const record = db.transaction((item: ManifestItem, files: readonly ManifestFile[], downloadedAt: Date) => {
+        const row = upsertItem.get({
+          $kind: item.kind,
+          $shortcode: item.shortcode,
+          $mediaid: item.mediaid,
+          $owner_username: item.ownerUsername,
+          $owner_id: item.ownerId,
+          $typename: item.typename,
+          $date_utc: item.dateUtc.toISOString(),
+          $target: item.target,
+          $downloaded_at: downloadedAt.toISOString(),
+        });
+        for (const file of files) {
+          upsertFile.run({ $item_id: row!.id, $path: file.path, $size: file.size, $sha256: file.sha256 });
+        }
+      });
+
+      const query = (q: ManifestQuery = {}): ManifestEntry[] => {
+        const conditions: string[] = [];
+        const params: Record<string, string | number> = {};
+        const where = (condition: string, name: string, value: string | number | undefined) => {
+          if (value !== undefined) {
+            conditions.push(condition);
+            params[`$${name}`] = value;
+          }
+        };
+        where("kind = $kind", "kind", q.kind);
+        where("shortcode = $shortcode", "shortcode", q.shortcode);
+        where("owner_username = $owner_username", "owner_username", q.ownerUsername);
+        where("target = $target", "target", q.target);
+        where("date_utc >= $since", "since", q.since?.toISOString());
+        where("date_utc < $until", "until", q.until?.toISOString());
+        where("id IN (SELECT item_id FROM files WHERE sha256 = $sha256)", "sha256", q.sha256);
+        if (q.limit !== undefined) {
+          params["$limit"] = q.limit;
+        }
+        const items = db
+          .query<ItemRow, Record<string, string | number>>(
+            `SELECT * FROM items${conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : ""}` +
+              ` ORDER BY date_utc DESC, id DESC${q.limit !== undefined ? " LIMIT $limit" : ""}`
+          )
+          .all(params);
+        const files = db.query<FileRow, [number]>("SELECT * FROM files WHERE item_id = ? ORDER BY path");
+        return items.map((row) => ({
+          kind: row.kind,
+          shortcode: row.shortcode,
+          mediaid: row.mediaid,
+          ownerUsername: row.owner_username,
+          ownerId: row.owner_id,
+          typename: row.typename,
+          dateUtc: new Date(row.date_utc),
+          target: row.target,
+          downloadedAt: new Date(row.downloaded_at),
+          files: files.all(row.id).map(({ path, size, sha256 }) => ({ path, size, sha256 })),
+        }));
+      };
+
+      return {
+        file,
+        record: (item, files, downloadedAt = new Date()) =>
+          sqliteTry(`Cannot record ${item.shortcode} in manifest ${file}`, () => record(item, files, downloadedAt)),
+        query: (q) => sqliteTry(`Cannot query manifest ${file}`, () => query(q)),
+        close: Effect.sync(() => db.close()),
+      };
+    })
+  );
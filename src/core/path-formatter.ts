@@ -0,0 +1,414 @@
+import { Option } from "effect";
+import {
+  type PostData,
+  type ProfileData,
+  type StoryItemData,
+  postAccessibilityCaption,
+  postCaption,
+  postCaptionHashtags,
+  postCaptionMentions,
+  postComments,
+  postDateUtc,
+  postIsPinned,
+  postIsSponsored,
+  postIsVideo,
+  postLikes,
+  postMediacount,
+  postMediaid,
+  postOwnerId,
+  postOwnerProfile,
+  postOwnerUsername,
+  postPcaption,
+  postShortcode,
+  postTaggedUsers,
+  postTitle,
+  postTypename,
+  postUrl,
+  postVideoDuration,
+  postVideoPlayCount,
+  postVideoUrl,
+  postVideoViewCount,
+  profileBiography,
+  profileExternalUrl,
+  profileFollowees,
+  profileFollowers,
+  profileFullName,
+  profileIsPrivate,
+  profileIsVerified,
+  profileMediacount,
+  profileUserid,
+  profileUsername,
+  storyItemCaption,
+  storyItemCaptionHashtags,
+  storyItemCaptionMentions,
+  storyItemDateUtc,
+  storyItemExpiringUtc,
+  storyItemIsVideo,
+  storyItemMediaid,
+  storyItemOwnerId,
+  storyItemOwnerProfile,
+  storyItemOwnerUsername,
+  storyItemPcaption,
+  storyItemShortcode,
+  storyItemTypename,
+  storyItemUrl,
+  storyItemVideoUrl,
+} from "../structures/index.ts";
+
+/** A point in time, formatted in UTC or in the local timezone. */
+export interface TemplateDate {
+  readonly _tag: "TemplateDate";
+  readonly date: Date;
+  readonly utc: boolean;
+}
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateDate
+  | readonly string[]
+  | TemplateFields;
+
+/** Values available to a pattern, computed on first use. */
+export interface TemplateFields {
+  readonly [key: string]: TemplateValue | (() => TemplateValue);
+}
+
+type TemplatePart =
+  | { readonly kind: "literal"; readonly text: string }
+  | { readonly kind: "field"; readonly raw: string; readonly name: string; readonly spec: string };
+
+const EPOCH_DATE = new Date(0);
+
+export const utcDate = (date: Date): TemplateDate => ({ _tag: "TemplateDate", date, utc: true });
+
+export const localDate = (date: Date): TemplateDate => ({ _tag: "TemplateDate", date, utc: false });
+
+export const isTemplateDate = (value: unknown): value is TemplateDate =>
+  typeof value === "object" && value !== null && (value as { _tag?: unknown })._tag === "TemplateDate";
+
+/**
+ * Split a pattern into literal text and `{name:spec}` replacement fields,
+ * following the syntax of Python's `str.format`, including `{{` and `}}` escapes.
+ */
+export const parseTemplate = (pattern: string): TemplatePart[] => {
+  const parts: TemplatePart[] = [];
+  let literal = "";
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i]!;
+    if ((char === "{" || char === "}") && pattern[i + 1] === char) {
+      literal += char;
+      i += 2;
+      continue;
+    }
+    if (char === "{") {
+      let depth = 1;
+      let j = i + 1;
+      while (j < pattern.length && depth > 0) {
+        if (pattern[j] === "{") depth++;
+        if (pattern[j] === "}") depth--;
+        j++;
+      }
+      if (depth > 0) {
+        literal += pattern.slice(i);
+        break;
+      }
+      if (literal) {
+        parts.push({ kind: "literal", text: literal });
+        literal = "";
+      }
+      const raw = pattern.slice(i, j);
+      const inner = raw.slice(1, -1);
+      const colon = inner.indexOf(":");
+      const field = colon === -1 ? inner : inner.slice(0, colon);
+      const name = field.replace(/![rsa]$/, "");
+      parts.push({ kind: "field", raw, name, spec: colon === -1 ? "" : inner.slice(colon + 1) });
+      i = j;
+      continue;
+    }
+    literal += char;
+    i++;
+  }
+  if (literal) {
+    parts.push({ kind: "literal", text: literal });
+  }
+  return parts;
+};
+
+export const templateContainsKey = (pattern: string, key: string): boolean =>
+  parseTemplate(pattern).some(
+    (part) => part.kind === "field" && (part.name === key || part.name.startsWith(`${key}.`))
+  );
+
+const pad = (n: number, width = 2): string => String(n).padStart(width, "0");
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+const dateParts = ({ date, utc }: TemplateDate) => ({
+  year: utc ? date.getUTCFullYear() : date.getFullYear(),
+  month: (utc ? date.getUTCMonth() : date.getMonth()) + 1,
+  day: utc ? date.getUTCDate() : date.getDate(),
+  hour: utc ? date.getUTCHours() : date.getHours(),
+  minute: utc ? date.getUTCMinutes() : date.getMinutes(),
+  second: utc ? date.getUTCSeconds() : date.getSeconds(),
+  millisecond: utc ? date.getUTCMilliseconds() : date.getMilliseconds(),
+  weekday: utc ? date.getUTCDay() : date.getDay(),
+  offset: utc ? 0 : -date.getTimezoneOffset(),
+});
+
+/** Format a date like Python's `datetime.strftime`. */
+export const strftime = (value: TemplateDate, format: string): string => {
+  const p = dateParts(value);
+  const dayOfYear = Math.round((Date.UTC(p.year, p.month - 1, p.day) - Date.UTC(p.year, 0, 1)) / 86_400_000) + 1;
+  const offsetSign = p.offset < 0 ? "-" : "+";
+  const offset = Math.abs(p.offset);
+  return format.replace(/%([a-zA-Z%])/g, (match, directive: string) => {
+    switch (directive) {
+      case "Y": return String(p.year);
+      case "y": return pad(p.year % 100);
+      case "m": return pad(p.month);
+      case "d": return pad(p.day);
+      case "H": return pad(p.hour);
+      case "I": return pad(p.hour % 12 === 0 ? 12 : p.hour % 12);
+      case "p": return p.hour < 12 ? "AM" : "PM";
+      case "M": return pad(p.minute);
+      case "S": return pad(p.second);
+      case "f": return pad(p.millisecond * 1000, 6);
+      case "j": return pad(dayOfYear, 3);
+      case "a": return WEEKDAYS[p.weekday]!.slice(0, 3);
+      case "A": return WEEKDAYS[p.weekday]!;
+      case "w": return String(p.weekday);
+      case "b": return MONTHS[p.month - 1]!.slice(0, 3);
+      case "B": return MONTHS[p.month - 1]!;
+      case "z": return `${offsetSign}${pad(Math.floor(offset / 60))}${pad(offset % 60)}`;
+      case "Z": return value.utc ? "UTC" : "";
+      case "%": return "%";
+      default: return match;
+    }
+  });
+};
+
+const pythonStr = (value: TemplateValue): string => {
+  if (typeof value === "boolean") return value ? "True" : "False";
+  if (Array.isArray(value)) return `[${value.map((v) => `'${String(v).replace(/'/g, "\\'")}'`).join(", ")}]`;
+  return String(value);
+};
+
+const SPEC_REGEX = /^(?:(.)?([<>=^]))?([+\- ])?(#)?(0)?(\d+)?([,_])?(?:\.(\d+))?([bcdeEfFgGnosxX%])?$/s;
+
+/** Apply a format spec of Python's format mini-language to a string or number. */
+const applySpec = (value: TemplateValue, spec: string): string => {
+  const match = SPEC_REGEX.exec(spec);
+  if (!match) {
+    return pythonStr(value);
+  }
+  const [, fillChar, alignChar, sign, , zero, widthStr, grouping, precisionStr, type] = match;
+  const precision = precisionStr === undefined ? undefined : Number(precisionStr);
+  const isNumber = typeof value === "number";
+  let body: string;
+  if (isNumber) {
+    const n = value;
+    switch (type) {
+      case "d": case "n": body = Math.trunc(Math.abs(n)).toString(); break;
+      case "x": body = Math.trunc(Math.abs(n)).toString(16); break;
+      case "X": body = Math.trunc(Math.abs(n)).toString(16).toUpperCase(); break;
+      case "o": body = Math.trunc(Math.abs(n)).toString(8); break;
+      case "b": body = Math.trunc(Math.abs(n)).toString(2); break;
+      case "e": case "E": body = Math.abs(n).toExponential(precision ?? 6); break;
+      case "f": case "F": body = Math.abs(n).toFixed(precision ?? 6); break;
+      case "%": body = `${(Math.abs(n) * 100).toFixed(precision ?? 6)}%`; break;
+      default: body = precision === undefined ? String(Math.abs(n)) : Math.abs(n).toPrecision(precision);
+    }
+    if (type === "E") body = body.toUpperCase();
+    if (grouping) {
+      const [intPart, fracPart] = body.split(".");
+      body = intPart!.replace(/\B(?=(\d{3})+(?!\d))/g, grouping) + (fracPart === undefined ? "" : `.${fracPart}`);
+    }
+    const signText = n < 0 ? "-" : sign === "+" ? "+" : sign === " " ? " " : "";
+    body = signText + body;
+  } else {
+    body = pythonStr(value);
+    if (precision !== undefined) {
+      body = Array.from(body).slice(0, precision).join("");
+    }
+  }
+  const width = widthStr === undefined ? 0 : Number(widthStr);
+  const length = Array.from(body).length;
+  if (length >= width) {
+    return body;
+  }
+  const fill = fillChar ?? (zero && !alignChar ? "0" : " ");
+  const align = alignChar ?? (zero ? "=" : isNumber ? ">" : "<");
+  const padding = width - length;
+  switch (align) {
+    case "<":
+      return body + fill.repeat(padding);
+    case "^":
+      return fill.repeat(Math.floor(padding / 2)) + body + fill.repeat(Math.ceil(padding / 2));
+    case "=": {
+      const signLength = /^[+\- ]/.test(body) ? 1 : 0;
+      return body.slice(0, signLength) + fill.repeat(padding) + body.slice(signLength);
+    }
+    default:
+      return fill.repeat(padding) + body;
+  }
+};
+
+const DATE_ATTRIBUTES = new Set(["year", "month", "day", "hour", "minute", "second"]);
+
+export const resolveAttribute = (value: TemplateValue, attribute: string): TemplateValue | undefined => {
+  if (isTemplateDate(value)) {
+    return DATE_ATTRIBUTES.has(attribute) ? dateParts(value)[attribute as keyof ReturnType<typeof dateParts>] : undefined;
+  }
+  if (Array.isArray(value)) {
+    return /^\d+$/.test(attribute) ? value[Number(attribute)] : undefined;
+  }
+  if (typeof value === "object" && value !== null) {
+    return resolveField(value as TemplateFields, attribute);
+  }
+  return undefined;
+};
+
+const resolveField = (fields: TemplateFields, key: string): TemplateValue | undefined => {
+  if (!Object.hasOwn(fields, key)) {
+    return undefined;
+  }
+  const field = fields[key];
+  return typeof field === "function" ? field() : field;
+};
+
+/**
+ * Fill the replacement fields of a pattern from `fields`, like Python instaloader's
+ * path formatter: `{key}`, `{key.attribute}` and `{key[index]}` lookups, strftime
+ * specs for dates (`{date_utc:%Y-%m-%d}`, default `%Y-%m-%d_%H-%M-%S`) and the format
+ * mini-language for other values. The text of each field, after lookups and specs,
+ * is passed through `sanitize`, `None`-like values become empty and unknown keys are
+ * kept verbatim.
+ * `{filename}` is always kept, as it is only known once the media URL is.
+ */
+export const formatTemplate = (
+  pattern: string,
+  fields: TemplateFields,
+  sanitize: (value: string) => string = (value) => value
+): string =>
+  parseTemplate(pattern)
+    .map((part) => {
+      if (part.kind === "literal") {
+        return part.text;
+      }
+      const [key, ...attributes] = part.name.replace(/\[([^\]]*)\]/g, ".$1").split(".");
+      if (key === undefined || key === "filename") {
+        return part.raw;
+      }
+      let value = resolveField(fields, key);
+      if (value === undefined && !Object.hasOwn(fields, key)) {
+        return part.raw;
+      }
+      for (const attribute of attributes) {
+        value = resolveAttribute(value, attribute);
+        if (value === undefined) {
+          return part.raw;
+        }
+      }
+      if (value === null || value === undefined) {
+        return "";
+      }
+      return sanitize(
+        isTemplateDate(value) ? strftime(value, part.spec || "%Y-%m-%d_%H-%M-%S") : applySpec(value, part.spec)
+      );
+    })
+    .join("");
+
+export const profileTemplateFields = (profile: ProfileData): TemplateFields => ({
+  username: () => profileUsername(profile),
+  userid: () => profileUserid(profile),
+  full_name: () => Option.getOrNull(profileFullName(profile)),
+  biography: () => Option.getOrNull(profileBiography(profile)),
+  external_url: () => Option.getOrNull(profileExternalUrl(profile)),
+  followers: () => Option.getOrNull(profileFollowers(profile)),
+  followees: () => Option.getOrNull(profileFollowees(profile)),
+  mediacount: () => Option.getOrNull(profileMediacount(profile)),
+  is_private: () => Option.getOrNull(profileIsPrivate(profile)),
+  is_verified: () => Option.getOrNull(profileIsVerified(profile)),
+});
+
+/** Names of the properties of a post in patterns and filters. */
+export const POST_TEMPLATE_FIELD_NAMES = [
+  "shortcode", "mediaid", "title", "owner_profile", "owner_username", "owner_id", "profile", "date_utc",
+  "date_local", "date", "url", "typename", "mediacount", "caption", "caption_hashtags", "caption_mentions",
+  "pcaption", "accessibility_caption", "tagged_users", "is_video", "video_url", "video_view_count",
+  "video_play_count", "video_duration", "likes", "comments", "is_sponsored", "is_pinned",
+] as const;
+
+/** The properties of a post, named as in Python instaloader. */
+export const postTemplateFields = (post: PostData): TemplateFields => {
+  const date = () => Option.getOrElse(postDateUtc(post), () => EPOCH_DATE);
+  return {
+    shortcode: () => postShortcode(post),
+    mediaid: () => postMediaid(post),
+    title: () => postTitle(post),
+    owner_profile: () => Option.getOrNull(Option.map(postOwnerProfile(post), profileTemplateFields)),
+    owner_username: () => Option.getOrNull(postOwnerUsername(post)),
+    owner_id: () => Option.getOrNull(postOwnerId(post)),
+    profile: () => Option.getOrNull(postOwnerUsername(post)),
+    date_utc: () => utcDate(date()),
+    date_local: () => localDate(date()),
+    date: () => utcDate(date()),
+    url: () => postUrl(post),
+    typename: () => postTypename(post),
+    mediacount: () => postMediacount(post),
+    caption: () => postCaption(post),
+    caption_hashtags: () => postCaptionHashtags(post),
+    caption_mentions: () => postCaptionMentions(post),
+    pcaption: () => postPcaption(post),
+    accessibility_caption: () => postAccessibilityCaption(post),
+    tagged_users: () => postTaggedUsers(post),
+    is_video: () => postIsVideo(post),
+    video_url: () => Option.getOrNull(postVideoUrl(post)),
+    video_view_count: () => Option.getOrNull(postVideoViewCount(post)),
+    video_play_count: () => Option.getOrNull(postVideoPlayCount(post)),
+    video_duration: () => Option.getOrNull(postVideoDuration(post)),
+    likes: () => Option.getOrNull(postLikes(post)),
+    comments: () => Option.getOrNull(postComments(post)),
+    is_sponsored: () => postIsSponsored(post),
+    is_pinned: () => postIsPinned(post),
+  } satisfies Record<(typeof POST_TEMPLATE_FIELD_NAMES)[number], () => TemplateValue>;
+};
+
+/** Names of the properties of a story item in patterns and filters. */
+export const STORY_ITEM_TEMPLATE_FIELD_NAMES = [
+  "shortcode", "mediaid", "owner_profile", "owner_username", "owner_id", "profile", "date_utc", "date_local",
+  "date", "expiring_utc", "expiring_local", "url", "typename", "caption", "caption_hashtags",
+  "caption_mentions", "pcaption", "is_video", "video_url",
+] as const;
+
+/** The properties of a story item, named as in Python instaloader. */
+export const storyItemTemplateFields = (item: StoryItemData): TemplateFields => ({
+  shortcode: () => storyItemShortcode(item),
+  mediaid: () => storyItemMediaid(item),
+  owner_profile: () => Option.getOrNull(Option.map(storyItemOwnerProfile(item), profileTemplateFields)),
+  owner_username: () => Option.getOrNull(storyItemOwnerUsername(item)),
+  owner_id: () => Option.getOrNull(storyItemOwnerId(item)),
+  profile: () => Option.getOrNull(storyItemOwnerUsername(item)),
+  date_utc: () => utcDate(storyItemDateUtc(item)),
+  date_local: () => localDate(storyItemDateUtc(item)),
+  date: () => utcDate(storyItemDateUtc(item)),
+  expiring_utc: () => utcDate(storyItemExpiringUtc(item)),
+  expiring_local: () => localDate(storyItemExpiringUtc(item)),
+  url: () => storyItemUrl(item),
+  typename: () => storyItemTypename(item),
+  caption: () => storyItemCaption(item),
+  caption_hashtags: () => storyItemCaptionHashtags(item),
+  caption_mentions: () => storyItemCaptionMentions(item),
+  pcaption: () => storyItemPcaption(item),
+  is_video: () => storyItemIsVideo(item),
+  video_url: () => storyItemVideoUrl(item),
+}) satisfies Record<(typeof STORY_ITEM_TEMPLATE_FIELD_NAMES)[number], () => TemplateValue>;
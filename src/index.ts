@@ -22,18 +22,26 @@ export {
   isSome,
   isNone,
   type TypedAsyncIterable,
+  type FreezableAsyncIterable,
   type InstaloaderOptions,
   type Profile,
   type Post,
   type PostError,
   type ProfileFetchError,
   type PostLocation as ClientPostLocation,
+  type PostComment,
+  type PostCommentAnswer,
   type SidecarNode,
   type StoryItem,
   type Story,
   type Highlight,
   type Hashtag,
+  type Location,
+  type TopSearchResults,
   type SessionData,
+  type LoadedStructure,
+  type LoadStructureError,
+  type DownloadError,
 } from "./client/index.ts";
 
 // -----------------------------------------------------------------------------
@@ -102,9 +110,84 @@ export {
 // Core utilities that don't conflict
 export {
   formatStringContainsKey,
+  formatPostFilename,
+  formatStoryItemFilename,
+  formatDirname,
   PlatformLayer,
   downloadFileEffect,
+  loadMetadataJsonEffect,
+  loadStructureFromFileEffect,
+  makeInstaloaderConfig,
+  downloadProfileEffect,
+  downloadProfilePicEffect,
+  checkProfileIdEffect,
+  downloadPostEffect,
+  downloadStoryItemEffect,
+  resumableNodeStream,
+  downloadHashtagEffect,
+  downloadFeedPostsEffect,
+  downloadLocationEffect,
+  downloadSavedPostsEffect,
+  downloadStoriesEffect,
+  rebuildDedupIndexEffect,
+  type InstaloaderConfig,
+  type DownloadProfileOptions,
+  type DownloadPostsOptions,
+  type DownloadStoriesOptions,
+  type DownloadProfileSummary,
+  type DownloadCount,
+  type ProfileDownloadSection,
+  type ProfileDownloadSkip,
 } from "./core/instaloader.ts";
+export {
+  makeLatestStamps,
+  type LatestStamps,
+  type LatestStampKind,
+} from "./core/latest-stamps.ts";
+export {
+  compileItemFilter,
+  evaluateItemFilter,
+  type ItemFilter,
+  type ItemFilterType,
+} from "./core/item-filter.ts";
+export { writeFileAtomic, removeStaleTempFiles } from "./core/atomic-file.ts";
+export {
+  saveSessionToFileEffect,
+  loadSessionFromFileEffect,
+  defaultSessionFilename,
+  defaultConfigDir,
+} from "./session/session-file.ts";
+export {
+  importBrowserCookiesEffect,
+  importBrowserSessionEffect,
+  findBrowserCookiesFileEffect,
+  COOKIE_BROWSERS,
+  type CookieBrowser,
+  type BrowserCookiesOptions,
+} from "./session/browser-cookies.ts";
+export {
+  makeDedupStore,
+  hashFile,
+  type DedupStore,
+  type DedupLinkMode,
+} from "./core/dedup-store.ts";
+// openManifest is exported as "instaloader-ts/manifest", as it needs bun:sqlite
+export type {
+  Manifest,
+  ManifestItem,
+  ManifestItemKind,
+  ManifestFile,
+  ManifestEntry,
+  ManifestQuery,
+} from "./core/manifest.ts";
+export {
+  formatTemplate,
+  postTemplateFields,
+  storyItemTemplateFields,
+  profileTemplateFields,
+  type TemplateFields,
+  type TemplateValue,
+} from "./core/path-formatter.ts";
 
 export {
   InstaloaderContextLive,
@@ -112,6 +195,7 @@ export {
   type CookieJar,
   type InstaloaderContextOptions,
   type InstaloaderContextShape,
+  type DownloadProgress,
   defaultUserAgent,
   defaultIphoneHeaders,
 } from "./core/context.ts";
@@ -178,18 +262,46 @@ export {
   profileGetTaggedPostsStream,
   profileGetReelsStream,
   profileGetIgtvPostsStream,
+  profileGetPostsNodeStream,
+  profileGetSavedPostsNodeStream,
+  profileGetTaggedPostsNodeStream,
+  profileGetReelsNodeStream,
+  profileGetIgtvPostsNodeStream,
+  profileGetFollowersStream,
+  profileGetFolloweesStream,
+  profileGetSimilarAccountsStream,
   storyItemFromMediaidEffect,
   hashtagFromNameEffect,
   hashtagGetPostsStream,
   hashtagGetTopPostsStream,
+  locationFromIdEffect,
+  locationGetPostsStream,
+  locationGetTopPostsStream,
+  locationGetRecentPostsStream,
+  type LocationData,
+  topSearchFromQuery,
+  topSearchGetProfiles,
+  topSearchGetPrefixedUsernames,
+  topSearchGetLocations,
+  topSearchGetHashtagStrings,
+  topSearchGetHashtags,
+  type TopSearchResultsData,
+  structureToJson,
+  loadStructure,
+  frozenNodeIteratorToJson,
+  loadFrozenNodeIterator,
+  type JsonStructure,
+  type JsonStructureNodeType,
   type PostData,
 } from "./structures/index.ts";
 
 export {
   createNodeStream,
+  makeNodeStream,
   resumableIterationStream,
   createSectionStream,
   type FrozenNodeIterator,
+  type NodeStream,
   type ResumableIterationResult,
   type NodeIteratorError,
   type SectionIteratorConfig,
@@ -1,9 +1,11 @@
 export {
   createNodeStream,
+  makeNodeStream,
   computeMagic,
   pageLength,
   resumableIterationStream,
   type FrozenNodeIterator,
+  type NodeStream,
   type ResumableIterationResult,
   type NodeIteratorConfig,
   type NodeIteratorError,
@@ -1,10 +1,14 @@
-import { Effect, Stream, Ref, Option, pipe } from "effect";
+import { Effect, Exit, Stream, Ref, Option, Scope, pipe } from "effect";
 import { AbortDownloadError, InvalidArgumentError, type InstaloaderErrors } from "../exceptions/index.ts";
 import type { JsonNode } from "../structures/common.ts";
 import type { InstaloaderContextShape } from "../core/context.ts";
 
 export type NodeIteratorError = InstaloaderErrors | AbortDownloadError;
 
+/**
+ * Serializable state of a node stream, used to resume an interrupted
+ * iteration. `bestBefore` is a Unix timestamp in seconds.
+ */
 export interface FrozenNodeIterator {
   queryHash: string | null;
   queryVariables: Record<string, unknown>;
@@ -119,159 +123,240 @@ const executeQuery = (
     return edgeExtractor(result);
   });
 
-export const createNodeStream = <T>(
-  config: NodeIteratorConfig<T>
-): Stream.Stream<T, NodeIteratorError | InvalidArgumentError> => {
-  const {
-    context,
-    queryHash,
-    docId,
-    edgeExtractor,
-    nodeWrapper,
-    queryVariables,
-    queryReferer,
-    firstData,
-    isFirst,
-  } = config;
-
-  return Stream.unwrap(
-    Effect.gen(function* () {
-      const stateRef = yield* Ref.make<NodeIteratorState>({
-        pageIndex: 0,
-        totalIndex: 0,
-        data: firstData,
-        bestBefore: firstData ? new Date(Date.now() + SHELF_LIFE_MS) : null,
-        firstNode: null,
-        initialized: firstData !== null,
-      });
-
-      const ensureInitialized = Effect.gen(function* () {
-        const state = yield* Ref.get(stateRef);
-        if (!state.initialized) {
-          const data = yield* executeQuery(
-            context,
-            queryHash,
-            docId,
-            queryVariables,
-            queryReferer,
-            edgeExtractor
-          );
-          yield* Ref.update(stateRef, (s) => ({
-            ...s,
-            data,
-            bestBefore: new Date(Date.now() + SHELF_LIFE_MS),
-            initialized: true,
-          }));
-        }
-      });
-
-      const getNextItem = Effect.gen(function* () {
-        yield* ensureInitialized;
-        const state = yield* Ref.get(stateRef);
-        
-        if (state.data === null) {
-          return Option.none<T>();
-        }
-
-        const edges = state.data["edges"] as JsonNode[];
-        
-        // Check if we have items in current page
-        if (state.pageIndex < edges.length) {
-          const edge = edges[state.pageIndex]!;
-          const node = edge["node"] as JsonNode;
-          const item = nodeWrapper(node);
-
-          // Track first node
-          let newFirstNode = state.firstNode;
-          if (isFirst !== null) {
-            const currentFirst = state.firstNode ? nodeWrapper(state.firstNode) : null;
-            if (isFirst(item, currentFirst)) {
-              newFirstNode = node;
-            }
-          } else if (state.firstNode === null) {
-            newFirstNode = node;
-          }
-
-          yield* Ref.update(stateRef, (s) => ({
-            ...s,
-            pageIndex: s.pageIndex + 1,
-            totalIndex: s.totalIndex + 1,
-            firstNode: newFirstNode,
-          }));
-
-          return Option.some(item);
-        }
-
-        // Check for next page
-        const pageInfo = state.data["page_info"] as JsonNode | undefined;
-        const hasNextPage = pageInfo?.["has_next_page"] as boolean | undefined;
+/**
+ * A node stream together with an effect that captures its current position.
+ */
+export interface NodeStream<T> {
+  readonly stream: Stream.Stream<T, NodeIteratorError | InvalidArgumentError>;
+  readonly freeze: Effect.Effect<FrozenNodeIterator>;
+  /** Identifies the query, used to name the file the frozen state is saved to. */
+  readonly magic: string;
+}
 
-        if (!hasNextPage) {
-          return Option.none<T>();
-        }
+const thawState = (
+  config: NodeIteratorConfig<unknown>,
+  contextUsername: string | null,
+  frozen: FrozenNodeIterator
+): Effect.Effect<NodeIteratorState, InvalidArgumentError> =>
+  Effect.gen(function* () {
+    if (
+      config.queryHash !== frozen.queryHash ||
+      config.docId !== frozen.docId ||
+      config.queryReferer !== frozen.queryReferer ||
+      contextUsername !== frozen.contextUsername ||
+      JSON.stringify(config.queryVariables) !== JSON.stringify(frozen.queryVariables)
+    ) {
+      return yield* Effect.fail(
+        new InvalidArgumentError({ message: "Mismatching resume information." })
+      );
+    }
+    if (!frozen.bestBefore) {
+      return yield* Effect.fail(
+        new InvalidArgumentError({ message: '"best before" date missing.' })
+      );
+    }
+    if (frozen.remainingData === null) {
+      return yield* Effect.fail(
+        new InvalidArgumentError({ message: '"remaining_data" missing.' })
+      );
+    }
+    return {
+      pageIndex: 0,
+      totalIndex: frozen.totalIndex,
+      data: frozen.remainingData,
+      bestBefore: new Date(frozen.bestBefore * 1000),
+      firstNode: frozen.firstNode,
+      initialized: true,
+    };
+  });
 
-        // Fetch next page
-        const endCursor = pageInfo!["end_cursor"] as string;
-        const newData = yield* executeQuery(
+/**
+ * Creates a node stream that can be frozen, optionally resuming from a
+ * previously frozen state.
+ */
+export const makeNodeStream = <T>(
+  config: NodeIteratorConfig<T>,
+  frozen?: FrozenNodeIterator | null
+): Effect.Effect<NodeStream<T>, InvalidArgumentError> =>
+  Effect.gen(function* () {
+    const {
+      context,
+      queryHash,
+      docId,
+      edgeExtractor,
+      nodeWrapper,
+      queryVariables,
+      queryReferer,
+      firstData,
+      isFirst,
+    } = config;
+
+    const contextUsername = yield* context.getUsername;
+    const initialState: NodeIteratorState = frozen
+      ? yield* thawState(config as NodeIteratorConfig<unknown>, contextUsername, frozen)
+      : {
+          pageIndex: 0,
+          totalIndex: 0,
+          data: firstData,
+          bestBefore: firstData ? new Date(Date.now() + SHELF_LIFE_MS) : null,
+          firstNode: null,
+          initialized: firstData !== null,
+        };
+    const stateRef = yield* Ref.make<NodeIteratorState>(initialState);
+
+    const ensureInitialized = Effect.gen(function* () {
+      const state = yield* Ref.get(stateRef);
+      if (!state.initialized) {
+        const data = yield* executeQuery(
           context,
           queryHash,
           docId,
           queryVariables,
           queryReferer,
-          edgeExtractor,
-          endCursor
+          edgeExtractor
         );
+        yield* Ref.update(stateRef, (s) => ({
+          ...s,
+          data,
+          bestBefore: new Date(Date.now() + SHELF_LIFE_MS),
+          initialized: true,
+        }));
+      }
+    });
+
+    const getNextItem = Effect.gen(function* () {
+      yield* ensureInitialized;
+      const state = yield* Ref.get(stateRef);
+      
+      if (state.data === null) {
+        return Option.none<T>();
+      }
 
-        const newEdges = newData["edges"] as JsonNode[];
-        
-        // Check if we got new data
-        if (
-          JSON.stringify(edges) === JSON.stringify(newEdges) ||
-          newEdges.length === 0
-        ) {
-          return Option.none<T>();
-        }
-
-        // Reset page index and get first item from new page
-        const firstEdge = newEdges[0]!;
-        const firstNode = firstEdge["node"] as JsonNode;
-        const item = nodeWrapper(firstNode);
+      const edges = state.data["edges"] as JsonNode[];
+      
+      // Check if we have items in current page
+      if (state.pageIndex < edges.length) {
+        const edge = edges[state.pageIndex]!;
+        const node = edge["node"] as JsonNode;
+        const item = nodeWrapper(node);
 
+        // Track first node
         let newFirstNode = state.firstNode;
         if (isFirst !== null) {
           const currentFirst = state.firstNode ? nodeWrapper(state.firstNode) : null;
           if (isFirst(item, currentFirst)) {
-            newFirstNode = firstNode;
+            newFirstNode = node;
           }
         } else if (state.firstNode === null) {
-          newFirstNode = firstNode;
+          newFirstNode = node;
         }
 
         yield* Ref.update(stateRef, (s) => ({
           ...s,
-          pageIndex: 1,
+          pageIndex: s.pageIndex + 1,
           totalIndex: s.totalIndex + 1,
-          data: newData,
           firstNode: newFirstNode,
         }));
 
         return Option.some(item);
-      });
-
-      return Stream.repeatEffectOption(
-        pipe(
-          getNextItem,
-          Effect.map(Option.match({
-            onNone: () => Effect.fail(Option.none<never>()),
-            onSome: (item) => Effect.succeed(item),
-          })),
-          Effect.flatten,
-          Effect.mapError(() => Option.none<never>())
-        )
+      }
+
+      // Check for next page
+      const pageInfo = state.data["page_info"] as JsonNode | undefined;
+      const hasNextPage = pageInfo?.["has_next_page"] as boolean | undefined;
+
+      if (!hasNextPage) {
+        return Option.none<T>();
+      }
+
+      // Fetch next page
+      const endCursor = pageInfo!["end_cursor"] as string;
+      const newData = yield* executeQuery(
+        context,
+        queryHash,
+        docId,
+        queryVariables,
+        queryReferer,
+        edgeExtractor,
+        endCursor
       );
-    })
-  );
-};
+
+      const newEdges = newData["edges"] as JsonNode[];
+      
+      // Check if we got new data
+      if (
+        JSON.stringify(edges) === JSON.stringify(newEdges) ||
+        newEdges.length === 0
+      ) {
+        return Option.none<T>();
+      }
+
+      // Reset page index and get first item from new page
+      const firstEdge = newEdges[0]!;
+      const firstNode = firstEdge["node"] as JsonNode;
+      const item = nodeWrapper(firstNode);
+
+      let newFirstNode = state.firstNode;
+      if (isFirst !== null) {
+        const currentFirst = state.firstNode ? nodeWrapper(state.firstNode) : null;
+        if (isFirst(item, currentFirst)) {
+          newFirstNode = firstNode;
+        }
+      } else if (state.firstNode === null) {
+        newFirstNode = firstNode;
+      }
+
+      yield* Ref.update(stateRef, (s) => ({
+        ...s,
+        pageIndex: 1,
+        totalIndex: s.totalIndex + 1,
+        data: newData,
+        firstNode: newFirstNode,
+      }));
+
+      return Option.some(item);
+    });
+
+    const stream = Stream.repeatEffectOption(
+      pipe(
+        getNextItem,
+        Effect.mapError(Option.some),
+        Effect.flatMap(Option.match({
+          onNone: () => Effect.fail(Option.none()),
+          onSome: (item) => Effect.succeed(item),
+        }))
+      )
+    );
+
+    const freeze = Effect.gen(function* () {
+      const state = yield* Ref.get(stateRef);
+      let remainingData: JsonNode | null = null;
+      if (state.data !== null) {
+        const edges = (state.data["edges"] as JsonNode[] | undefined) ?? [];
+        remainingData = { ...state.data, edges: edges.slice(Math.max(state.pageIndex - 1, 0)) };
+      }
+      return {
+        queryHash,
+        queryVariables,
+        queryReferer,
+        contextUsername,
+        totalIndex: Math.max(state.totalIndex - 1, 0),
+        bestBefore: state.bestBefore ? state.bestBefore.getTime() / 1000 : null,
+        remainingData,
+        firstNode: state.firstNode,
+        docId,
+      };
+    });
+
+    const magic = computeMagic(queryHash ?? docId, queryVariables, queryReferer, contextUsername);
+
+    return { stream, freeze, magic };
+  });
+
+export const createNodeStream = <T>(
+  config: NodeIteratorConfig<T>
+): Stream.Stream<T, NodeIteratorError | InvalidArgumentError> =>
+  Stream.unwrap(Effect.map(makeNodeStream(config), (nodeStream) => nodeStream.stream));
 
 export const computeMagic = (
   queryHash: string | null,
@@ -297,53 +382,108 @@ export interface ResumableIterationResult<T> {
   item: T;
   isResuming: boolean;
   startIndex: number;
+  /** Marks this item and all items before it as processed */
+  done: Effect.Effect<void>;
 }
 
-export const resumableIterationStream = <T>(
+/**
+ * Iterates a node stream, resuming from the state saved at `formatPath(magic)` if
+ * there is one. If the enclosing scope closes with a failure or interruption, e.g.
+ * of the downstream processing, the state at the oldest item not yet `done` is saved
+ * there, so that items processed concurrently are not skipped on resume; if it
+ * closes successfully, the file is removed.
+ *
+ * `load` succeeds with `null` if there is no saved state.
+ */
+export const resumableIterationStream = <T, R, E extends { readonly message: string } = InvalidArgumentError>(
   context: InstaloaderContextShape,
-  stream: Stream.Stream<T, NodeIteratorError | InvalidArgumentError>,
-  load: (path: string) => Effect.Effect<FrozenNodeIterator | null, never>,
-  _save: (fni: FrozenNodeIterator, path: string) => Effect.Effect<void, never>,
+  makeStream: (frozen: FrozenNodeIterator | null) => Effect.Effect<NodeStream<T>, E>,
+  load: (path: string) => Effect.Effect<FrozenNodeIterator | null, InvalidArgumentError, R>,
+  save: (fni: FrozenNodeIterator, path: string) => Effect.Effect<void, never, R>,
+  remove: (path: string) => Effect.Effect<void, never, R>,
   formatPath: (magic: string) => string,
-  magic: string,
   options?: {
     checkBbd?: boolean;
     enabled?: boolean;
   }
-): Stream.Stream<ResumableIterationResult<T>, NodeIteratorError | InvalidArgumentError> => {
+): Effect.Effect<
+  Stream.Stream<ResumableIterationResult<T>, NodeIteratorError | InvalidArgumentError>,
+  E,
+  R | Scope.Scope
+> => {
   const { checkBbd = true, enabled = true } = options ?? {};
 
   if (!enabled) {
-    return pipe(
-      stream,
-      Stream.map((item) => ({ item, isResuming: false, startIndex: 0 }))
+    return Effect.map(makeStream(null), ({ stream }) =>
+      Stream.map(stream, (item) => ({ item, isResuming: false, startIndex: 0, done: Effect.void }))
     );
   }
 
-  return Stream.unwrap(
-    Effect.gen(function* () {
-      const resumeFilePath = formatPath(magic);
-      const fni = yield* load(resumeFilePath);
+  return Effect.gen(function* () {
+    let nodeStream = yield* makeStream(null);
+    const resumeFilePath = formatPath(nodeStream.magic);
+    const loaded = yield* Effect.either(load(resumeFilePath));
+    const resumeFileExists = loaded._tag === "Left" || loaded.right !== null;
+    const fni = loaded._tag === "Right" ? loaded.right : null;
+    if (loaded._tag === "Left") {
+      yield* context.error(`Warning: Not resuming from ${resumeFilePath}: ${loaded.left.message}`);
+    }
 
-      let isResuming = false;
-      let startIndex = 0;
+    let isResuming = false;
+    let startIndex = 0;
 
-      if (fni !== null) {
-        if (checkBbd && fni.bestBefore && new Date(fni.bestBefore) < new Date()) {
-          yield* context.error(
-            `Warning: Not resuming from ${resumeFilePath}: "Best before" date exceeded.`
-          );
+    if (fni !== null) {
+      if (checkBbd && fni.bestBefore && new Date(fni.bestBefore * 1000) < new Date()) {
+        yield* context.error(
+          `Warning: Not resuming from ${resumeFilePath}: "Best before" date exceeded.`
+        );
+      } else {
+        const thawed = yield* Effect.either(makeStream(fni));
+        if (thawed._tag === "Left") {
+          yield* context.error(`Warning: Not resuming from ${resumeFilePath}: ${thawed.left.message}`);
         } else {
+          nodeStream = thawed.right;
           isResuming = true;
           startIndex = fni.totalIndex;
           yield* context.log(`Resuming from ${resumeFilePath}.`);
         }
       }
+    }
 
-      return pipe(
-        stream,
-        Stream.map((item) => ({ item, isResuming, startIndex }))
-      );
-    })
-  );
+    const { stream, freeze } = nodeStream;
+    // Position at each item that is not done yet, oldest first
+    const pendingRef = yield* Ref.make<ReadonlyArray<{ readonly index: number; readonly frozen: FrozenNodeIterator }>>([]);
+    yield* Effect.addFinalizer((exit) =>
+      Effect.gen(function* () {
+        if (Exit.isSuccess(exit)) {
+          if (resumeFileExists) {
+            yield* remove(resumeFilePath);
+            yield* context.log(
+              `Iteration complete, deleted resume information file ${resumeFilePath}.`
+            );
+          }
+          return;
+        }
+        const pending = yield* Ref.get(pendingRef);
+        const frozen = pending[0]?.frozen ?? (yield* freeze);
+        // Nothing to resume from if the first page was not fetched
+        if (frozen.remainingData !== null) {
+          yield* save(frozen, resumeFilePath);
+          yield* context.log(`Saved resume information to ${resumeFilePath}.`);
+        }
+      })
+    );
+
+    let index = 0;
+    return Stream.mapEffect(stream, (item) =>
+      Effect.gen(function* () {
+        // Right after the item was taken, the frozen state points at it
+        const frozen = yield* freeze;
+        const itemIndex = index++;
+        yield* Ref.update(pendingRef, (pending) => [...pending, { index: itemIndex, frozen }]);
+        const done = Ref.update(pendingRef, (pending) => pending.filter((entry) => entry.index > itemIndex));
+        return { item, isResuming, startIndex, done };
+      })
+    );
+  });
 };
@@ -0,0 +1,317 @@
+import type { Database } from "bun:sqlite";
+import { Effect, Option } from "effect";
+import { FileSystem, Path, type Error as PlatformError } from "@effect/platform";
+import { createDecipheriv, createHash, pbkdf2Sync } from "node:crypto";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { InstaloaderError, LoginError } from "../exceptions/index.ts";
+import type { ContextError, CookieJar, InstaloaderContextShape } from "../core/context.ts";
+import { openSqliteDatabase, sqliteTry } from "../utils/sqlite.ts";
+
+type FileError = PlatformError.PlatformError;
+
+export type CookieBrowser = "firefox" | "chrome" | "chromium" | "brave" | "edge" | "vivaldi";
+
+export const COOKIE_BROWSERS: readonly CookieBrowser[] = ["firefox", "chrome", "chromium", "brave", "edge", "vivaldi"];
+
+export interface BrowserCookiesOptions {
+  /**
+   * Profile directory or cookie database (`cookies.sqlite` of Firefox, `Cookies` of
+   * Chromium) to read; by default the most recently used profile of the browser
+   */
+  readonly profile?: string;
+}
+
+const BROWSER_NAMES: Record<CookieBrowser, string> = {
+  firefox: "Firefox",
+  chrome: "Chrome",
+  chromium: "Chromium",
+  brave: "Brave",
+  edge: "Edge",
+  vivaldi: "Vivaldi",
+};
+
+// Where each Chromium-family browser keeps its profiles, on Linux, macOS and Windows
+const CHROMIUM_DIRS: Record<Exclude<CookieBrowser, "firefox">, readonly [string, string, string]> = {
+  chrome: ["google-chrome", "Google/Chrome", "Google/Chrome/User Data"],
+  chromium: ["chromium", "Chromium", "Chromium/User Data"],
+  brave: ["BraveSoftware/Brave-Browser", "BraveSoftware/Brave-Browser", "BraveSoftware/Brave-Browser/User Data"],
+  edge: ["microsoft-edge", "Microsoft Edge", "Microsoft/Edge/User Data"],
+  vivaldi: ["vivaldi", "Vivaldi", "Vivaldi/User Data"],
+};
+
+/** Directories holding the profile directories of `browser` on this platform. */
+const profileRoots = (browser: CookieBrowser): string[] => {
+  const home = homedir();
+  const appData = (name: string) => process.env[name] ?? join(home, "AppData", name === "APPDATA" ? "Roaming" : "Local");
+  if (browser === "firefox") {
+    switch (process.platform) {
+      case "win32":
+        return [join(appData("APPDATA"), "Mozilla", "Firefox", "Profiles")];
+      case "darwin":
+        return [join(home, "Library", "Application Support", "Firefox", "Profiles")];
+      default:
+        return [
+          join(home, ".mozilla", "firefox"),
+          join(home, "snap", "firefox", "common", ".mozilla", "firefox"),
+          join(home, ".var", "app", "org.mozilla.firefox", ".mozilla", "firefox"),
+        ];
+    }
+  }
+  const [linux, darwin, win32] = CHROMIUM_DIRS[browser];
+  switch (process.platform) {
+    case "win32":
+      return [join(appData("LOCALAPPDATA"), win32)];
+    case "darwin":
+      return [join(home, "Library", "Application Support", darwin)];
+    default:
+      return [join(process.env["XDG_CONFIG_HOME"] ?? join(home, ".config"), linux)];
+  }
+};
+
+/** Cookie databases a profile directory of `browser` may have, preferred first. */
+const cookieFilesOfProfile = (browser: CookieBrowser, profileDir: string): string[] =>
+  browser === "firefox"
+    ? [join(profileDir, "cookies.sqlite")]
+    : [join(profileDir, "Network", "Cookies"), join(profileDir, "Cookies")];
+
+/**
+ * Finds the cookie database of `browser`: the given profile directory's, the given
+ * file, or the most recently modified one of all profiles of the browser.
+ */
+export const findBrowserCookiesFileEffect = (
+  browser: CookieBrowser,
+  options: BrowserCookiesOptions = {}
+): Effect.Effect<string, InstaloaderError | FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    let candidates: string[];
+    if (options.profile !== undefined) {
+      const info = yield* fsService.stat(options.profile);
+      candidates = info.type === "Directory" ? cookieFilesOfProfile(browser, options.profile) : [options.profile];
+    } else {
+      candidates = [];
+      for (const root of profileRoots(browser)) {
+        if (yield* fsService.exists(root)) {
+          for (const profile of yield* fsService.readDirectory(root)) {
+            candidates.push(...cookieFilesOfProfile(browser, join(root, profile)));
+          }
+        }
+      }
+    }
+    let newest: { file: string; mtime: number } | null = null;
+    for (const file of candidates) {
+      const info = yield* Effect.option(fsService.stat(file));
+      if (Option.isSome(info) && info.value.type === "File") {
+        const mtime = Option.match(info.value.mtime, { onNone: () => 0, onSome: (date) => date.getTime() });
+        if (newest === null || mtime > newest.mtime) {
+          newest = { file, mtime };
+        }
+      }
+    }
+    if (newest === null) {
+      return yield* Effect.fail(
+        new InstaloaderError({
+          message: `No ${BROWSER_NAMES[browser]} cookie database found in ${options.profile ?? profileRoots(browser).join(", ")}.`,
+        })
+      );
+    }
+    return newest.file;
+  });
+
+/**
+ * Queries a copy of the database in `file`, since the running browser locks it. The
+ * write-ahead log is copied along, as it holds the cookies the browser changed lately.
+ */
+const queryCopyOf = <A>(
+  file: string,
+  query: (db: Database) => A
+): Effect.Effect<A, InstaloaderError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.scoped(
+    Effect.gen(function* () {
+      const fsService = yield* FileSystem.FileSystem;
+      const pathService = yield* Path.Path;
+      const dir = yield* fsService.makeTempDirectoryScoped({ prefix: "instaloader-cookies-" });
+      const copy = pathService.join(dir, pathService.basename(file));
+      yield* fsService.copyFile(file, copy);
+      if (yield* fsService.exists(`${file}-wal`)) {
+        yield* fsService.copyFile(`${file}-wal`, `${copy}-wal`);
+      }
+      const message = `Cannot read cookie database ${file}`;
+      const db = yield* openSqliteDatabase(copy, message);
+      return yield* Effect.ensuring(
+        sqliteTry(message, () => query(db)),
+        Effect.sync(() => db.close())
+      );
+    })
+  );
+
+// Cookies of instagram.com and its subdomains; queries order them by last access so the latest wins
+const isInstagramHost = (column: string): string =>
+  `(${column} = 'instagram.com' OR ${column} LIKE '%.instagram.com')`;
+
+const readFirefoxCookies = (
+  file: string
+): Effect.Effect<CookieJar, InstaloaderError | FileError, FileSystem.FileSystem | Path.Path> =>
+  queryCopyOf(file, (db) => {
+    const rows = db
+      .query(`SELECT name, value FROM moz_cookies WHERE ${isInstagramHost("host")} ORDER BY lastAccessed`)
+      .all() as { name: string; value: string }[];
+    return Object.fromEntries(rows.map((row) => [row.name, row.value]));
+  });
+
+interface ChromiumCookieRow {
+  readonly host_key: string;
+  readonly name: string;
+  readonly value: string;
+  readonly encrypted_value: Uint8Array | null;
+}
+
+// Chromium on Linux encrypts "v10" cookies with this key if no keyring is available
+let peanutsKey: Buffer | null = null;
+
+/**
+ * Decrypts a cookie value Chromium encrypted with the "peanuts" key. Since version 24
+ * of the database, the value is prefixed with the SHA-256 of the cookie's host.
+ * Returns `null` for values encrypted otherwise, e.g. with a key from the keyring.
+ */
+const decryptChromiumValue = (encrypted: Uint8Array, hostKey: string, dbVersion: number): string | null => {
+  if (new TextDecoder().decode(encrypted.subarray(0, 3)) !== "v10") {
+    return null;
+  }
+  peanutsKey ??= pbkdf2Sync("peanuts", "saltysalt", 1, 16, "sha1");
+  let plain: Buffer;
+  try {
+    const decipher = createDecipheriv("aes-128-cbc", peanutsKey, Buffer.alloc(16, " "));
+    plain = Buffer.concat([decipher.update(encrypted.subarray(3)), decipher.final()]);
+  } catch {
+    return null;
+  }
+  if (dbVersion >= 24) {
+    if (!plain.subarray(0, 32).equals(createHash("sha256").update(hostKey).digest())) {
+      return null;
+    }
+    plain = plain.subarray(32);
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(plain);
+  } catch {
+    return null;
+  }
+};
+
+interface ReadCookies {
+  readonly cookies: CookieJar;
+  /** Names of the cookies that could not be decrypted and were skipped */
+  readonly undecryptable: readonly string[];
+}
+
+const readChromiumCookies = (
+  file: string
+): Effect.Effect<ReadCookies, InstaloaderError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.map(
+    queryCopyOf(file, (db) => {
+      const hasMeta = db.query("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'meta'").get() !== null;
+      const version = hasMeta
+        ? (db.query("SELECT value FROM meta WHERE key = 'version'").get() as { value: string | number } | null)
+        : null;
+      return {
+        dbVersion: version === null ? 0 : Number(version.value),
+        rows: db
+          .query(
+            `SELECT host_key, name, value, encrypted_value FROM cookies
+             WHERE ${isInstagramHost("host_key")} ORDER BY last_access_utc`
+          )
+          .all() as ChromiumCookieRow[],
+      };
+    }),
+    ({ rows, dbVersion }) => {
+      const cookies: CookieJar = {};
+      const undecryptable: string[] = [];
+      for (const row of rows) {
+        if (row.encrypted_value === null || row.encrypted_value.length === 0) {
+          cookies[row.name] = row.value;
+          continue;
+        }
+        const value = decryptChromiumValue(row.encrypted_value, row.host_key, dbVersion);
+        if (value === null) {
+          undecryptable.push(row.name);
+        } else {
+          cookies[row.name] = value;
+        }
+      }
+      return { cookies, undecryptable: [...new Set(undecryptable)].filter((name) => !(name in cookies)) };
+    }
+  );
+
+const UNSUPPORTED_ENCRYPTION = "only cookies of Chromium-based browsers on Linux without a keyring can be decrypted";
+
+/**
+ * Reads the cookies of `browser`, skipping those that cannot be decrypted. Fails
+ * unless there is a `sessionid` cookie.
+ */
+const readBrowserCookies = (
+  browser: CookieBrowser,
+  options: BrowserCookiesOptions
+): Effect.Effect<ReadCookies, InstaloaderError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const file = yield* findBrowserCookiesFileEffect(browser, options);
+    const read =
+      browser === "firefox"
+        ? { cookies: yield* readFirefoxCookies(file), undecryptable: [] }
+        : yield* readChromiumCookies(file);
+    if (read.cookies["sessionid"] === undefined) {
+      return yield* Effect.fail(
+        new InstaloaderError({
+          message: read.undecryptable.includes("sessionid")
+            ? `Cannot decrypt the Instagram session cookie of ${file}: ${UNSUPPORTED_ENCRYPTION}.`
+            : `No Instagram session in ${file}. Are you logged in to Instagram in ${BROWSER_NAMES[browser]}?`,
+        })
+      );
+    }
+    return read;
+  });
+
+const skippedCookiesMessage = (undecryptable: readonly string[]): string =>
+  `Skipped Instagram cookies that cannot be decrypted (${UNSUPPORTED_ENCRYPTION}): ${undecryptable.join(", ")}`;
+
+/**
+ * Reads the Instagram cookies of `browser` from its cookie database, for
+ * `context.updateCookies`. The browser may keep running meanwhile. Cookies that
+ * cannot be decrypted are skipped with a warning to `context`; fails if the session
+ * cookie is missing.
+ */
+export const importBrowserCookiesEffect = (
+  context: InstaloaderContextShape,
+  browser: CookieBrowser,
+  options: BrowserCookiesOptions = {}
+): Effect.Effect<CookieJar, InstaloaderError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const { cookies, undecryptable } = yield* readBrowserCookies(browser, options);
+    if (undecryptable.length > 0) {
+      yield* context.error(skippedCookiesMessage(undecryptable), false);
+    }
+    return cookies;
+  });
+
+/**
+ * Uses the Instagram session of `browser`, like Python instaloader's `--load-cookies`:
+ * imports its cookies and fails with `LoginError` unless they are of a logged-in user.
+ * Returns the username.
+ */
+export const importBrowserSessionEffect = (
+  context: InstaloaderContextShape,
+  browser: CookieBrowser,
+  options: BrowserCookiesOptions = {}
+): Effect.Effect<string, ContextError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    yield* context.updateCookies(yield* importBrowserCookiesEffect(context, browser, options));
+    const username = yield* context.testLogin;
+    if (username === null) {
+      return yield* Effect.fail(
+        new LoginError({ message: `Not logged in. Are you logged in successfully in ${BROWSER_NAMES[browser]}?` })
+      );
+    }
+    yield* context.loadSession(username, yield* context.saveSession);
+    return username;
+  });
@@ -0,0 +1,106 @@
+import { Effect } from "effect";
+import { FileSystem, Path, type Error as PlatformError } from "@effect/platform";
+import { homedir, tmpdir, userInfo } from "node:os";
+import { join } from "node:path";
+import { InvalidArgumentError, LoginRequiredError } from "../exceptions/index.ts";
+import type { CookieJar, InstaloaderContextShape } from "../core/context.ts";
+import { writeFileAtomic } from "../core/atomic-file.ts";
+import { pickleStringDict, unpickleStringDict } from "../utils/pickle.ts";
+
+type FileError = PlatformError.PlatformError;
+
+/** Configuration directory of Python instaloader, holding session files and latest stamps. */
+export const defaultConfigDir = (): string =>
+  process.platform === "win32" && process.env["LOCALAPPDATA"] !== undefined
+    ? join(process.env["LOCALAPPDATA"], "Instaloader")
+    : join(process.env["XDG_CONFIG_HOME"] ?? join(homedir(), ".config"), "instaloader");
+
+/** Session file of `username` as Python instaloader names it. */
+export const defaultSessionFilename = (username: string): string =>
+  join(defaultConfigDir(), `session-${username}`);
+
+// Like Python's getpass.getuser()
+const loginName = (): string | null => {
+  const fromEnv = ["LOGNAME", "USER", "LNAME", "USERNAME"].map((name) => process.env[name]).find(Boolean);
+  if (fromEnv !== undefined) {
+    return fromEnv;
+  }
+  try {
+    return userInfo().username;
+  } catch {
+    return null;
+  }
+};
+
+// Where instaloader before 4.4 kept session files
+const legacySessionFilename = (username: string): string | null => {
+  const user = loginName();
+  return user === null ? null : join(tmpdir(), `.instaloader-${user}`, `session-${username}`);
+};
+
+/**
+ * Parses a session file: a pickled dict of cookies as written by Python instaloader,
+ * or the JSON object earlier versions of the scripts in this repository wrote.
+ */
+const parseSessionFile = (filename: string, data: Uint8Array): Effect.Effect<CookieJar, InvalidArgumentError> =>
+  Effect.try({
+    try: () =>
+      data[0] === 0x7b // {
+        ? (JSON.parse(new TextDecoder().decode(data)) as CookieJar)
+        : unpickleStringDict(data),
+    catch: (e) =>
+      new InvalidArgumentError({
+        argument: filename,
+        message: `${filename} is not a valid session file: ${e instanceof Error ? e.message : String(e)}`,
+        cause: e,
+      }),
+  });
+
+/**
+ * Saves the cookies of the session to `filename`, by default the session file of the
+ * logged-in user, in the format of Python instaloader. The file is only readable by
+ * its owner. Returns the filename.
+ */
+export const saveSessionToFileEffect = (
+  context: InstaloaderContextShape,
+  filename?: string
+): Effect.Effect<string, LoginRequiredError | FileError, FileSystem.FileSystem | Path.Path> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    const pathService = yield* Path.Path;
+    const username = yield* context.getUsername;
+    if (filename === undefined && username === null) {
+      return yield* Effect.fail(new LoginRequiredError({ message: "Login required to save the session." }));
+    }
+    const file = filename ?? defaultSessionFilename(username!);
+    const dir = pathService.dirname(file);
+    if (!(yield* fsService.exists(dir))) {
+      yield* fsService.makeDirectory(dir, { recursive: true, mode: 0o700 });
+    }
+    yield* writeFileAtomic(file, pickleStringDict(yield* context.saveSession), { mode: 0o600 });
+    return file;
+  });
+
+/**
+ * Loads the session of `username` from `filename`, by default its session file of
+ * Python instaloader, falling back to the location used before instaloader 4.4.
+ * Fails with a `NotFound` `SystemError` if there is no such file. Returns the filename.
+ */
+export const loadSessionFromFileEffect = (
+  context: InstaloaderContextShape,
+  username: string,
+  filename?: string
+): Effect.Effect<string, InvalidArgumentError | FileError, FileSystem.FileSystem> =>
+  Effect.gen(function* () {
+    const fsService = yield* FileSystem.FileSystem;
+    let file = filename ?? defaultSessionFilename(username);
+    if (filename === undefined && !(yield* fsService.exists(file))) {
+      const legacy = legacySessionFilename(username);
+      if (legacy !== null && (yield* fsService.exists(legacy))) {
+        file = legacy;
+      }
+    }
+    const cookies = yield* parseSessionFile(file, yield* fsService.readFile(file));
+    yield* context.loadSession(username, cookies);
+    return file;
+  });
@@ -1,3 +1,5 @@
+import type { ProfileData } from "./profile.ts";
+
 export interface PostSidecarNode {
   isVideo: boolean;
   displayUrl: string;
@@ -17,10 +19,14 @@ export interface PostCommentAnswer {
   id: number;
   createdAtUtc: Date;
   text: string;
-  owner: Profile;
+  owner: ProfileData;
   likesCount: number;
 }
 
+export interface PostComment extends PostCommentAnswer {
+  answers: PostCommentAnswer[];
+}
+
 export function optionalNormalize(str: string | null | undefined): string | null {
   if (str != null && typeof str === "string") {
     return str.normalize("NFC");
@@ -1,6 +1,7 @@
 export type {
   PostLocation,
   PostCommentAnswer,
+  PostComment,
   PostSidecarNode,
   JsonNode,
 } from "./common.ts";
@@ -47,6 +48,14 @@ export {
   getTaggedPostsStream as profileGetTaggedPostsStream,
   getReelsStream as profileGetReelsStream,
   getIgtvPostsStream as profileGetIgtvPostsStream,
+  getPostsNodeStream as profileGetPostsNodeStream,
+  getSavedPostsNodeStream as profileGetSavedPostsNodeStream,
+  getTaggedPostsNodeStream as profileGetTaggedPostsNodeStream,
+  getReelsNodeStream as profileGetReelsNodeStream,
+  getIgtvPostsNodeStream as profileGetIgtvPostsNodeStream,
+  getFollowersStream as profileGetFollowersStream,
+  getFolloweesStream as profileGetFolloweesStream,
+  getSimilarAccountsStream as profileGetSimilarAccountsStream,
 } from "./profile.ts";
 export {
   shortcodeToMediaid,
@@ -105,6 +114,9 @@ export {
   getSponsorUsers as postGetSponsorUsers,
   getCoauthorProducers as postGetCoauthorProducers,
   getLocation as postGetLocation,
+  getCommentsStream as postGetCommentsStream,
+  getLikesStream as postGetLikesStream,
+  commentToDict as postCommentToDict,
   type PostData,
   type PostError,
 } from "./post.ts";
@@ -196,3 +208,42 @@ export {
   type HashtagData,
   type HashtagError,
 } from "./hashtag.ts";
+export {
+  fromIdEffect as locationFromIdEffect,
+  locationFromNode,
+  locationId,
+  locationName,
+  locationSlug,
+  locationLat,
+  locationLng,
+  locationHasPublicPage,
+  locationMediacount,
+  locationAddressJson,
+  locationToPostLocation,
+  locationToString,
+  locationToDict,
+  locationGetTopPostsStream,
+  locationGetRecentPostsStream,
+  locationGetPostsStream,
+  type LocationData,
+  type LocationError,
+} from "./location.ts";
+export {
+  topSearchFromQuery,
+  topSearchSearchstring,
+  topSearchGetProfiles,
+  topSearchGetPrefixedUsernames,
+  topSearchGetLocations,
+  topSearchGetHashtagStrings,
+  topSearchGetHashtags,
+  type TopSearchResultsData,
+  type TopSearchError,
+} from "./top-search.ts";
+export {
+  structureToJson,
+  loadStructure,
+  frozenNodeIteratorToJson,
+  loadFrozenNodeIterator,
+  type JsonStructure,
+  type JsonStructureNodeType,
+} from "./json-structure.ts";
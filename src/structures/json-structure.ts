@@ -0,0 +1,185 @@
+import { Effect } from "effect";
+import { InvalidArgumentError } from "../exceptions/index.ts";
+import type { JsonNode, PostLocation } from "./common.ts";
+import { type PostData, fromNode as postFromNode, toDict as postToDict } from "./post.ts";
+import { type ProfileData, toDict as profileToDict } from "./profile.ts";
+import { type StoryItemData, storyItemFromNode, storyItemToDict } from "./story.ts";
+import { type HashtagData, hashtagFromNode, hashtagToDict } from "./hashtag.ts";
+import type { FrozenNodeIterator } from "../iterators/node-iterator.ts";
+
+const INSTALOADER_VERSION = "0.1.0";
+
+/**
+ * A structure that can be saved to and loaded from a JSON metadata file,
+ * tagged with the `node_type` used by Python instaloader.
+ */
+export type JsonStructure =
+  | { readonly nodeType: "Post"; readonly structure: PostData }
+  | { readonly nodeType: "Profile"; readonly structure: ProfileData }
+  | { readonly nodeType: "StoryItem"; readonly structure: StoryItemData }
+  | { readonly nodeType: "Hashtag"; readonly structure: HashtagData };
+
+export type JsonStructureNodeType = JsonStructure["nodeType"];
+
+const isJsonNode = (value: unknown): value is JsonNode =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+const structureToDict = (structure: JsonStructure): JsonNode => {
+  switch (structure.nodeType) {
+    case "Post":
+      return postToDict(structure.structure);
+    case "Profile":
+      return profileToDict(structure.structure);
+    case "StoryItem":
+      return storyItemToDict(structure.structure);
+    case "Hashtag":
+      return hashtagToDict(structure.structure);
+  }
+};
+
+/**
+ * Wraps a structure in the `{node, instaloader: {version, node_type}}`
+ * envelope that Python instaloader writes and reads.
+ */
+export const structureToJson = (structure: JsonStructure): JsonNode => ({
+  node: structureToDict(structure),
+  instaloader: { version: INSTALOADER_VERSION, node_type: structure.nodeType },
+});
+
+const ownerFromNode = (node: JsonNode): ProfileData | undefined => {
+  const owner = node["owner"];
+  if (isJsonNode(owner) && "id" in owner && "username" in owner) {
+    const iphoneStruct = isJsonNode(owner["iphone_struct"]) ? owner["iphone_struct"] : null;
+    return { node: owner, iphoneStruct };
+  }
+  return undefined;
+};
+
+const locationFromNode = (node: JsonNode): PostLocation | null => {
+  const loc = node["location"];
+  if (!isJsonNode(loc) || !("id" in loc) || !("name" in loc)) {
+    return null;
+  }
+  return {
+    id: Number(loc["id"]),
+    name: loc["name"] as string,
+    slug: (loc["slug"] as string | undefined) ?? "",
+    hasPublicPage: (loc["hasPublicPage"] ?? loc["has_public_page"] ?? null) as boolean | null,
+    lat: (loc["lat"] as number | null | undefined) ?? null,
+    lng: (loc["lng"] as number | null | undefined) ?? null,
+  };
+};
+
+const loadPost = (node: JsonNode): Effect.Effect<PostData, InvalidArgumentError> =>
+  Effect.map(postFromNode(node, ownerFromNode(node)), (post) => ({
+    ...post,
+    location: locationFromNode(node),
+  }));
+
+const loadProfile = (node: JsonNode): Effect.Effect<ProfileData, InvalidArgumentError> =>
+  Effect.gen(function* () {
+    if (!("id" in node) || !("username" in node)) {
+      return yield* Effect.fail(
+        new InvalidArgumentError({ message: "Profile node must contain 'id' and 'username'" })
+      );
+    }
+    const iphoneStruct = isJsonNode(node["iphone_struct"]) ? node["iphone_struct"] : null;
+    return { node, iphoneStruct };
+  });
+
+const loadStoryItem = (node: JsonNode): Effect.Effect<StoryItemData, InvalidArgumentError> =>
+  Effect.gen(function* () {
+    if (!("id" in node)) {
+      return yield* Effect.fail(
+        new InvalidArgumentError({ message: "StoryItem node must contain 'id'" })
+      );
+    }
+    return storyItemFromNode(node, ownerFromNode(node));
+  });
+
+/**
+ * Rebuilds a structure from parsed JSON metadata. Accepts the envelope written
+ * by {@link structureToJson} and Python instaloader, as well as bare post
+ * nodes written by older versions.
+ */
+export const loadStructure = (json: unknown): Effect.Effect<JsonStructure, InvalidArgumentError> =>
+  Effect.gen(function* () {
+    if (!isJsonNode(json)) {
+      return yield* Effect.fail(
+        new InvalidArgumentError({ message: "Passed JSON structure is not an object" })
+      );
+    }
+
+    const node = json["node"];
+    const meta = json["instaloader"];
+    if (isJsonNode(node) && isJsonNode(meta) && "node_type" in meta) {
+      const nodeType = meta["node_type"];
+      switch (nodeType) {
+        case "Post":
+          return { nodeType, structure: yield* loadPost(node) } as const;
+        case "Profile":
+          return { nodeType, structure: yield* loadProfile(node) } as const;
+        case "StoryItem":
+          return { nodeType, structure: yield* loadStoryItem(node) } as const;
+        case "Hashtag":
+          return { nodeType, structure: yield* hashtagFromNode(node) } as const;
+        default:
+          return yield* Effect.fail(
+            new InvalidArgumentError({
+              message: `Unsupported node type in JSON structure: ${String(nodeType)}`,
+              argument: "node_type",
+            })
+          );
+      }
+    }
+
+    if ("shortcode" in json) {
+      return { nodeType: "Post", structure: yield* loadPost(json) } as const;
+    }
+
+    return yield* Effect.fail(
+      new InvalidArgumentError({ message: "Passed JSON structure is not an Instaloader JSON" })
+    );
+  });
+
+/**
+ * Wraps a frozen node iterator in the same envelope, with the snake_case
+ * fields of Python's `FrozenNodeIterator`.
+ */
+export const frozenNodeIteratorToJson = (fni: FrozenNodeIterator): JsonNode => ({
+  node: {
+    query_hash: fni.queryHash,
+    query_variables: fni.queryVariables,
+    query_referer: fni.queryReferer,
+    context_username: fni.contextUsername,
+    total_index: fni.totalIndex,
+    best_before: fni.bestBefore,
+    remaining_data: fni.remainingData,
+    first_node: fni.firstNode,
+    doc_id: fni.docId,
+  },
+  instaloader: { version: INSTALOADER_VERSION, node_type: "FrozenNodeIterator" },
+});
+
+export const loadFrozenNodeIterator = (json: unknown): Effect.Effect<FrozenNodeIterator, InvalidArgumentError> =>
+  Effect.gen(function* () {
+    const node = isJsonNode(json) ? json["node"] : undefined;
+    const meta = isJsonNode(json) ? json["instaloader"] : undefined;
+    if (!isJsonNode(node) || !isJsonNode(meta) || meta["node_type"] !== "FrozenNodeIterator") {
+      return yield* Effect.fail(
+        new InvalidArgumentError({ message: "Passed JSON structure is not a FrozenNodeIterator" })
+      );
+    }
+    const orNull = <T>(value: unknown): T | null => (value === undefined ? null : (value as T));
+    return {
+      queryHash: orNull<string>(node["query_hash"]),
+      queryVariables: (node["query_variables"] as Record<string, unknown> | undefined) ?? {},
+      queryReferer: orNull<string>(node["query_referer"]),
+      contextUsername: orNull<string>(node["context_username"]),
+      totalIndex: Number(node["total_index"] ?? 0),
+      bestBefore: orNull<number>(node["best_before"]),
+      remainingData: orNull<JsonNode>(node["remaining_data"]),
+      firstNode: orNull<JsonNode>(node["first_node"]),
+      docId: orNull<string>(node["doc_id"]),
+    };
+  });
@@ -0,0 +1,166 @@
+import { Effect, Option, Stream } from "effect";
+import type { InstaloaderContextShape } from "../core/context.ts";
+import {
+  type AbortDownloadError,
+  BadResponseError,
+  LoginRequiredError,
+  type InstaloaderErrors,
+} from "../exceptions/index.ts";
+import { createSectionStream } from "../iterators/section-iterator.ts";
+import type { JsonNode, PostLocation } from "./common.ts";
+import { fromIphoneStruct as postFromIphoneStruct, shortcode as postShortcode, type PostData } from "./post.ts";
+
+export type LocationError = InstaloaderErrors | AbortDownloadError;
+
+/** A location page, i.e. the `native_location_data` of `explore/locations/{id}/`. */
+export interface LocationData {
+  readonly node: JsonNode;
+}
+
+const getMetadata = <T>(node: JsonNode, ...keys: string[]): Option.Option<T> => {
+  let d: unknown = node;
+  for (const key of keys) {
+    if (d === null || d === undefined || typeof d !== "object") {
+      return Option.none();
+    }
+    d = (d as JsonNode)[key];
+  }
+  if (d === undefined) return Option.none();
+  return Option.some(d as T);
+};
+
+const locationQueryPath = (locationId: number | string): string => `explore/locations/${locationId}/`;
+
+export const fromIdEffect = (
+  context: InstaloaderContextShape,
+  locationId: number | string
+): Effect.Effect<LocationData, LocationError | LoginRequiredError> =>
+  Effect.gen(function* () {
+    const loggedIn = yield* context.isLoggedIn;
+    if (!loggedIn) {
+      return yield* Effect.fail(
+        new LoginRequiredError({ message: "Login required to access locations." })
+      );
+    }
+    const jsonResponse = yield* context.getJson(locationQueryPath(locationId), { __a: "1", __d: "dis" });
+    const node = jsonResponse["native_location_data"];
+    if (node === null || typeof node !== "object" || !("location_info" in node)) {
+      return yield* Effect.fail(
+        new BadResponseError({ message: `Location ${locationId} does not exist.`, response: jsonResponse })
+      );
+    }
+    return { node: node as JsonNode };
+  });
+
+export const locationFromNode = (node: JsonNode): LocationData => ({ node });
+
+const locationInfo = (location: LocationData): JsonNode =>
+  (location.node["location_info"] as JsonNode | undefined) ?? {};
+
+export const locationId = (location: LocationData): number => {
+  const info = locationInfo(location);
+  return Number(info["location_id"] ?? info["id"]);
+};
+
+export const locationName = (location: LocationData): string =>
+  locationInfo(location)["name"] as string;
+
+export const locationSlug = (location: LocationData): string | null =>
+  getMetadata<string | null>(locationInfo(location), "slug").pipe(Option.getOrNull);
+
+export const locationLat = (location: LocationData): number | null =>
+  getMetadata<number | null>(locationInfo(location), "lat").pipe(Option.getOrNull);
+
+export const locationLng = (location: LocationData): number | null =>
+  getMetadata<number | null>(locationInfo(location), "lng").pipe(Option.getOrNull);
+
+export const locationHasPublicPage = (location: LocationData): boolean | null =>
+  getMetadata<boolean | null>(locationInfo(location), "has_public_page").pipe(Option.getOrNull);
+
+export const locationMediacount = (location: LocationData): number | null =>
+  getMetadata<number | null>(locationInfo(location), "media_count").pipe(Option.getOrNull);
+
+/**
+ * Address of the location in the layout of the former `address_json` field, parsed
+ * from it if present and assembled from the flat address fields otherwise.
+ */
+export const locationAddressJson = (location: LocationData): JsonNode | null => {
+  const info = locationInfo(location);
+  const addressJson = info["address_json"];
+  if (typeof addressJson === "string" && addressJson !== "") {
+    try {
+      return JSON.parse(addressJson) as JsonNode;
+    } catch {
+      return null;
+    }
+  }
+  if (!("location_address" in info || "location_city" in info)) {
+    return null;
+  }
+  return {
+    street_address: info["location_address"] ?? "",
+    zip_code: info["location_zip"] ?? "",
+    city_name: info["location_city"] ?? "",
+    region_name: info["location_region"] ?? "",
+    country_code: info["country_code"] ?? "",
+  };
+};
+
+export const locationToPostLocation = (location: LocationData): PostLocation => ({
+  id: locationId(location),
+  name: locationName(location),
+  slug: locationSlug(location) ?? "",
+  hasPublicPage: locationHasPublicPage(location),
+  lat: locationLat(location),
+  lng: locationLng(location),
+});
+
+export const locationToString = (location: LocationData): string =>
+  `<Location ${locationId(location)}: ${locationName(location)}>`;
+
+export const locationToDict = (location: LocationData): JsonNode => ({ ...locationInfo(location) });
+
+/** Top posts of the location, as shown on the first page of the location. */
+export const locationGetTopPostsStream = (
+  context: InstaloaderContextShape,
+  location: LocationData
+): Stream.Stream<PostData, LocationError> =>
+  createSectionStream({
+    context,
+    sectionsExtractor: (d) => ({ ...((d["native_location_data"] as JsonNode)["ranked"] as JsonNode), more_available: false }),
+    mediaWrapper: postFromIphoneStruct,
+    queryPath: locationQueryPath(locationId(location)),
+    firstData: "ranked" in location.node ? { native_location_data: location.node } : null,
+  });
+
+/** Most recent posts of the location. */
+export const locationGetRecentPostsStream = (
+  context: InstaloaderContextShape,
+  location: LocationData
+): Stream.Stream<PostData, LocationError> =>
+  createSectionStream({
+    context,
+    sectionsExtractor: (d) => (d["native_location_data"] as JsonNode)["recent"] as JsonNode,
+    mediaWrapper: postFromIphoneStruct,
+    queryPath: locationQueryPath(locationId(location)),
+    firstData: "recent" in location.node ? { native_location_data: location.node } : null,
+  });
+
+/** All posts of the location: the top posts, then the recent posts that were not among them. */
+export const locationGetPostsStream = (
+  context: InstaloaderContextShape,
+  location: LocationData
+): Stream.Stream<PostData, LocationError> =>
+  Stream.suspend(() => {
+    const seen = new Set<string>();
+    const remember = (post: PostData): boolean => {
+      const code = postShortcode(post);
+      if (seen.has(code)) return false;
+      seen.add(code);
+      return true;
+    };
+    return Stream.concat(
+      Stream.filter(locationGetTopPostsStream(context, location), remember),
+      Stream.filter(locationGetRecentPostsStream(context, location), remember)
+    );
+  });
@@ -1,4 +1,4 @@
-import { Effect, Option } from "effect";
+import { Effect, Option, Stream } from "effect";
 import { type InstaloaderContextShape } from "../core/context.ts";
 import {
   AbortDownloadError,
@@ -14,6 +14,8 @@ import {
   MENTION_REGEX,
   optionalNormalize,
   type JsonNode,
+  type PostComment,
+  type PostCommentAnswer,
   type PostLocation,
   type PostSidecarNode,
 } from "./common.ts";
@@ -24,6 +26,7 @@ import {
   username as profileUsername,
   toDict as profileToDict,
 } from "./profile.ts";
+import { createNodeStream, type NodeIteratorError } from "../iterators/node-iterator.ts";
 
 export type PostError = InstaloaderErrors | AbortDownloadError;
 
@@ -914,3 +917,148 @@ export const getLocation = (
       lng: (loc["lng"] as number | null) ?? null,
     };
   });
+
+const commentAnswerFromNode = (node: JsonNode): PostCommentAnswer => ({
+  id: Number(node["id"]),
+  createdAtUtc: new Date((node["created_at"] as number) * 1000),
+  text: node["text"] as string,
+  owner: { node: node["owner"] as JsonNode, iphoneStruct: null },
+  likesCount: Option.getOrElse(getMetadata<number>(node, "edge_liked_by", "count"), () => 0),
+});
+
+const getCommentAnswers = (
+  context: InstaloaderContextShape,
+  post: PostData,
+  node: JsonNode
+): Effect.Effect<PostCommentAnswer[], NodeIteratorError> =>
+  Effect.gen(function* () {
+    const answerCount = Option.getOrElse(getMetadata<number>(node, "edge_threaded_comments", "count"), () => 0);
+    if (answerCount === 0) {
+      return [];
+    }
+
+    const answerEdges = Option.getOrElse(
+      getMetadata<JsonNode[]>(node, "edge_threaded_comments", "edges"),
+      () => [] as JsonNode[]
+    );
+    if (answerCount === answerEdges.length) {
+      return answerEdges.map((edge) => commentAnswerFromNode(edge["node"] as JsonNode));
+    }
+
+    const answers = yield* Stream.runCollect(
+      createNodeStream({
+        context,
+        queryHash: "51fdd02b67508306ad4484ff574a0b62",
+        docId: null,
+        edgeExtractor: (d: JsonNode) =>
+          ((d["data"] as JsonNode)["comment"] as JsonNode)["edge_threaded_comments"] as JsonNode,
+        nodeWrapper: commentAnswerFromNode,
+        queryVariables: { comment_id: node["id"] },
+        queryReferer: `https://www.instagram.com/p/${shortcode(post)}/`,
+        firstData: null,
+        isFirst: null,
+      })
+    );
+    return Array.from(answers);
+  });
+
+const commentFromNode = (
+  context: InstaloaderContextShape,
+  post: PostData,
+  node: JsonNode
+): Effect.Effect<PostComment, NodeIteratorError> =>
+  Effect.map(getCommentAnswers(context, post, node), (answers) => ({
+    ...commentAnswerFromNode(node),
+    answers,
+  }));
+
+export const getCommentsStream = (
+  context: InstaloaderContextShape,
+  post: PostData
+): Stream.Stream<PostComment, NodeIteratorError> => {
+  const commentCount = comments(post);
+  if (Option.isSome(commentCount) && commentCount.value === 0) {
+    return Stream.empty;
+  }
+
+  const commentEdges = fieldOption<JsonNode[]>(post, "edge_media_to_comment", "edges");
+  if (Option.isSome(commentEdges) && Option.isSome(commentCount)) {
+    const answersCount = commentEdges.value.reduce(
+      (sum, edge) =>
+        sum + Option.getOrElse(getMetadata<number>(edge, "node", "edge_threaded_comments", "count"), () => 0),
+      0
+    );
+    if (commentCount.value === commentEdges.value.length + answersCount) {
+      return Stream.mapEffect(Stream.fromIterable(commentEdges.value), (edge) =>
+        commentFromNode(context, post, edge["node"] as JsonNode)
+      );
+    }
+  }
+
+  const parentComments = createNodeStream({
+    context,
+    queryHash: "97b41c52301f77ce508f55e66d17620e",
+    docId: null,
+    edgeExtractor: (d: JsonNode) =>
+      ((d["data"] as JsonNode)["shortcode_media"] as JsonNode)["edge_media_to_parent_comment"] as JsonNode,
+    nodeWrapper: (node: JsonNode) => node,
+    queryVariables: { shortcode: shortcode(post) },
+    queryReferer: `https://www.instagram.com/p/${shortcode(post)}/`,
+    firstData: null,
+    isFirst: null,
+  });
+  return Stream.mapEffect(parentComments, (node) => commentFromNode(context, post, node));
+};
+
+export const getLikesStream = (
+  context: InstaloaderContextShape,
+  post: PostData
+): Effect.Effect<Stream.Stream<ProfileData, NodeIteratorError>, LoginRequiredError> =>
+  Effect.gen(function* () {
+    const loggedIn = yield* context.isLoggedIn;
+    if (!loggedIn) {
+      return yield* Effect.fail(
+        new LoginRequiredError({ message: "Login required to access likes of a post." })
+      );
+    }
+
+    const likeCount = likes(post);
+    if (Option.isSome(likeCount) && likeCount.value === 0) {
+      return Stream.empty;
+    }
+
+    const likeEdges = fieldOption<JsonNode[]>(post, "edge_media_preview_like", "edges");
+    if (Option.isSome(likeEdges) && Option.isSome(likeCount) && likeCount.value === likeEdges.value.length) {
+      return Stream.fromIterable(
+        likeEdges.value.map((edge): ProfileData => ({ node: edge["node"] as JsonNode, iphoneStruct: null }))
+      );
+    }
+
+    return createNodeStream({
+      context,
+      queryHash: "1cb6ec562846122743b61e492c85999f",
+      docId: null,
+      edgeExtractor: (d: JsonNode) =>
+        ((d["data"] as JsonNode)["shortcode_media"] as JsonNode)["edge_liked_by"] as JsonNode,
+      nodeWrapper: (node: JsonNode): ProfileData => ({ node, iphoneStruct: null }),
+      queryVariables: { shortcode: shortcode(post) },
+      queryReferer: `https://www.instagram.com/p/${shortcode(post)}/`,
+      firstData: null,
+      isFirst: null,
+    });
+  });
+
+const commentAnswerToDict = (answer: PostCommentAnswer): JsonNode => ({
+  id: answer.id,
+  created_at: Math.floor(answer.createdAtUtc.getTime() / 1000),
+  text: answer.text,
+  owner: profileToDict(answer.owner),
+  likes_count: answer.likesCount,
+});
+
+export const commentToDict = (comment: PostComment): JsonNode => ({
+  ...commentAnswerToDict(comment),
+  answers: comment.answers
+    .map(commentAnswerToDict)
+    .sort((a, b) => (b["id"] as number) - (a["id"] as number)),
+});
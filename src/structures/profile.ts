@@ -3,6 +3,7 @@ import type { InstaloaderContextShape } from "../core/context.ts";
 import {
   AbortDownloadError,
   IPhoneSupportDisabledError,
+  InvalidArgumentError,
   LoginRequiredError,
   ProfileNotExistsError,
   QueryReturnedNotFoundError,
@@ -13,7 +14,14 @@ import {
   MENTION_REGEX,
   type JsonNode,
 } from "./common.ts";
-import { createNodeStream, type NodeIteratorConfig, type NodeIteratorError } from "../iterators/node-iterator.ts";
+import {
+  createNodeStream,
+  makeNodeStream,
+  type FrozenNodeIterator,
+  type NodeIteratorConfig,
+  type NodeIteratorError,
+  type NodeStream,
+} from "../iterators/node-iterator.ts";
 
 export type ProfileError = InstaloaderErrors | AbortDownloadError;
 
@@ -293,6 +301,33 @@ type HasDateLocal = { dateLocal: Date };
 const isNewestChecker = (item: HasDateLocal, first: HasDateLocal | null): boolean =>
   first === null || item.dateLocal > first.dateLocal;
 
+const postsConfig = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode, profile: ProfileData) => T,
+  loggedIn: boolean
+): NodeIteratorConfig<T> => ({
+  context,
+  queryHash: loggedIn ? null : "7950326061742207",
+  docId: loggedIn ? "7898261790222653" : null,
+  edgeExtractor: loggedIn
+    ? (d: JsonNode) => (d["data"] as JsonNode)["xdt_api__v1__feed__user_timeline_graphql_connection"] as JsonNode
+    : (d: JsonNode) => ((d["data"] as JsonNode)["user"] as JsonNode)["edge_owner_to_timeline_media"] as JsonNode,
+  nodeWrapper: (n: JsonNode) => nodeWrapper(n, profile),
+  queryVariables: {
+    data: {
+      count: 12,
+      include_relationship_info: true,
+      latest_besties_reel_media: true,
+      latest_reel_media: true,
+    },
+    ...(loggedIn ? { username: username(profile) } : { id: userid(profile) }),
+  },
+  queryReferer: `https://www.instagram.com/${username(profile)}/`,
+  firstData: loggedIn ? null : (profile.node["edge_owner_to_timeline_media"] as JsonNode | null) ?? null,
+  isFirst: isNewestChecker as (item: T, first: T | null) => boolean,
+});
+
 export const getPostsStream = <T>(
   context: InstaloaderContextShape,
   profile: ProfileData,
@@ -308,42 +343,26 @@ export const getPostsStream = <T>(
           loggedIn = yield* context.isLoggedIn;
           yield* Ref.set(loggedInRef, loggedIn);
         }
-
-        const queryHash = loggedIn ? null : "7950326061742207";
-        const docId = loggedIn ? "7898261790222653" : null;
-
-        const config: NodeIteratorConfig<T> = {
-          context,
-          queryHash,
-          docId,
-          edgeExtractor: loggedIn
-            ? (d: JsonNode) => (d["data"] as JsonNode)["xdt_api__v1__feed__user_timeline_graphql_connection"] as JsonNode
-            : (d: JsonNode) => ((d["data"] as JsonNode)["user"] as JsonNode)["edge_owner_to_timeline_media"] as JsonNode,
-          nodeWrapper: (n: JsonNode) => nodeWrapper(n, profile),
-          queryVariables: {
-            data: {
-              count: 12,
-              include_relationship_info: true,
-              latest_besties_reel_media: true,
-              latest_reel_media: true,
-            },
-            ...(loggedIn ? { username: username(profile) } : { id: userid(profile) }),
-          },
-          queryReferer: `https://www.instagram.com/${username(profile)}/`,
-          firstData: loggedIn ? null : (profile.node["edge_owner_to_timeline_media"] as JsonNode | null) ?? null,
-          isFirst: isNewestChecker as (item: T, first: T | null) => boolean,
-        };
-
-        return createNodeStream(config);
+        return createNodeStream(postsConfig(context, profile, nodeWrapper, loggedIn));
       })
     );
   });
 
-export const getSavedPostsStream = <T>(
+/** Like {@link getPostsStream}, but freezable and optionally resuming from `frozen`. */
+export const getPostsNodeStream = <T>(
   context: InstaloaderContextShape,
   profile: ProfileData,
-  nodeWrapper: (node: JsonNode) => T
-): Effect.Effect<Stream.Stream<T, NodeIteratorError>, LoginRequiredError> =>
+  nodeWrapper: (node: JsonNode, profile: ProfileData) => T,
+  frozen?: FrozenNodeIterator | null
+): Effect.Effect<NodeStream<T>, InvalidArgumentError> =>
+  Effect.flatMap(context.isLoggedIn, (loggedIn) =>
+    makeNodeStream(postsConfig(context, profile, nodeWrapper, loggedIn), frozen)
+  );
+
+const checkOwnProfile = (
+  context: InstaloaderContextShape,
+  profile: ProfileData
+): Effect.Effect<void, LoginRequiredError> =>
   Effect.gen(function* () {
     const contextUsername = yield* context.getUsername;
     if (username(profile) !== contextUsername) {
@@ -353,30 +372,47 @@ export const getSavedPostsStream = <T>(
         })
       );
     }
-
-    const config: NodeIteratorConfig<T> = {
-      context,
-      queryHash: "f883d95537fbcd400f466f63d42bd8a1",
-      docId: null,
-      edgeExtractor: (d: JsonNode) => ((d["data"] as JsonNode)["user"] as JsonNode)["edge_saved_media"] as JsonNode,
-      nodeWrapper,
-      queryVariables: { id: userid(profile) },
-      queryReferer: `https://www.instagram.com/${username(profile)}/`,
-      firstData: null,
-      isFirst: null,
-    };
-
-    return createNodeStream(config);
   });
 
-export const getTaggedPostsStream = <T>(
+const savedPostsConfig = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode) => T
+): NodeIteratorConfig<T> => ({
+  context,
+  queryHash: "f883d95537fbcd400f466f63d42bd8a1",
+  docId: null,
+  edgeExtractor: (d: JsonNode) => ((d["data"] as JsonNode)["user"] as JsonNode)["edge_saved_media"] as JsonNode,
+  nodeWrapper,
+  queryVariables: { id: userid(profile) },
+  queryReferer: `https://www.instagram.com/${username(profile)}/`,
+  firstData: null,
+  isFirst: null,
+});
+
+export const getSavedPostsStream = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode) => T
+): Effect.Effect<Stream.Stream<T, NodeIteratorError>, LoginRequiredError> =>
+  Effect.as(checkOwnProfile(context, profile), createNodeStream(savedPostsConfig(context, profile, nodeWrapper)));
+
+/** Like {@link getSavedPostsStream}, but freezable and optionally resuming from `frozen`. */
+export const getSavedPostsNodeStream = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode) => T,
+  frozen?: FrozenNodeIterator | null
+): Effect.Effect<NodeStream<T>, LoginRequiredError | InvalidArgumentError> =>
+  Effect.zipRight(checkOwnProfile(context, profile), makeNodeStream(savedPostsConfig(context, profile, nodeWrapper), frozen));
+
+const taggedPostsConfig = <T>(
   context: InstaloaderContextShape,
   profile: ProfileData,
   nodeWrapper: (node: JsonNode, ownerProfile: ProfileData | null) => T
-): Stream.Stream<T, NodeIteratorError> => {
+): NodeIteratorConfig<T> => {
   const profileId = userid(profile);
-
-  const config: NodeIteratorConfig<T> = {
+  return {
     context,
     queryHash: "e31a871f7301132ceaab56507a66bbb7",
     docId: null,
@@ -390,52 +426,169 @@ export const getTaggedPostsStream = <T>(
     firstData: null,
     isFirst: isNewestChecker as (item: T, first: T | null) => boolean,
   };
-
-  return createNodeStream(config);
 };
 
-export const getReelsStream = <T>(
+export const getTaggedPostsStream = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode, ownerProfile: ProfileData | null) => T
+): Stream.Stream<T, NodeIteratorError> => createNodeStream(taggedPostsConfig(context, profile, nodeWrapper));
+
+export const getTaggedPostsNodeStream = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode, ownerProfile: ProfileData | null) => T,
+  frozen?: FrozenNodeIterator | null
+): Effect.Effect<NodeStream<T>, InvalidArgumentError> =>
+  makeNodeStream(taggedPostsConfig(context, profile, nodeWrapper), frozen);
+
+const reelsConfig = <T>(
   context: InstaloaderContextShape,
   profile: ProfileData,
   nodeWrapper: (node: JsonNode) => T
-): Stream.Stream<T, NodeIteratorError> => {
-  const config: NodeIteratorConfig<T> = {
-    context,
-    queryHash: null,
-    docId: "7845543455542541",
-    edgeExtractor: (d: JsonNode) => (d["data"] as JsonNode)["xdt_api__v1__clips__user__connection_v2"] as JsonNode,
-    nodeWrapper: (n: JsonNode) => nodeWrapper((n["media"] as JsonNode)),
-    queryVariables: {
-      data: {
-        page_size: 12,
-        include_feed_video: true,
-        target_user_id: String(userid(profile)),
-      },
+): NodeIteratorConfig<T> => ({
+  context,
+  queryHash: null,
+  docId: "7845543455542541",
+  edgeExtractor: (d: JsonNode) => (d["data"] as JsonNode)["xdt_api__v1__clips__user__connection_v2"] as JsonNode,
+  nodeWrapper: (n: JsonNode) => nodeWrapper((n["media"] as JsonNode)),
+  queryVariables: {
+    data: {
+      page_size: 12,
+      include_feed_video: true,
+      target_user_id: String(userid(profile)),
     },
-    queryReferer: `https://www.instagram.com/${username(profile)}/`,
-    firstData: null,
-    isFirst: isNewestChecker as (item: T, first: T | null) => boolean,
-  };
+  },
+  queryReferer: `https://www.instagram.com/${username(profile)}/`,
+  firstData: null,
+  isFirst: isNewestChecker as (item: T, first: T | null) => boolean,
+});
 
-  return createNodeStream(config);
-};
+export const getReelsStream = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode) => T
+): Stream.Stream<T, NodeIteratorError> => createNodeStream(reelsConfig(context, profile, nodeWrapper));
+
+export const getReelsNodeStream = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode) => T,
+  frozen?: FrozenNodeIterator | null
+): Effect.Effect<NodeStream<T>, InvalidArgumentError> =>
+  makeNodeStream(reelsConfig(context, profile, nodeWrapper), frozen);
+
+const igtvPostsConfig = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode, profile: ProfileData) => T
+): NodeIteratorConfig<T> => ({
+  context,
+  queryHash: "bc78b344a68ed16dd5d7f264681c4c76",
+  docId: null,
+  edgeExtractor: (d: JsonNode) => ((d["data"] as JsonNode)["user"] as JsonNode)["edge_felix_video_timeline"] as JsonNode,
+  nodeWrapper: (n: JsonNode) => nodeWrapper(n, profile),
+  queryVariables: { id: userid(profile) },
+  queryReferer: `https://www.instagram.com/${username(profile)}/channel/`,
+  firstData: (profile.node["edge_felix_video_timeline"] as JsonNode | null) ?? null,
+  isFirst: isNewestChecker as (item: T, first: T | null) => boolean,
+});
 
 export const getIgtvPostsStream = <T>(
   context: InstaloaderContextShape,
   profile: ProfileData,
   nodeWrapper: (node: JsonNode, profile: ProfileData) => T
-): Stream.Stream<T, NodeIteratorError> => {
-  const config: NodeIteratorConfig<T> = {
-    context,
-    queryHash: "bc78b344a68ed16dd5d7f264681c4c76",
-    docId: null,
-    edgeExtractor: (d: JsonNode) => ((d["data"] as JsonNode)["user"] as JsonNode)["edge_felix_video_timeline"] as JsonNode,
-    nodeWrapper: (n: JsonNode) => nodeWrapper(n, profile),
-    queryVariables: { id: userid(profile) },
-    queryReferer: `https://www.instagram.com/${username(profile)}/channel/`,
-    firstData: (profile.node["edge_felix_video_timeline"] as JsonNode | null) ?? null,
-    isFirst: isNewestChecker as (item: T, first: T | null) => boolean,
-  };
+): Stream.Stream<T, NodeIteratorError> => createNodeStream(igtvPostsConfig(context, profile, nodeWrapper));
 
-  return createNodeStream(config);
-};
+export const getIgtvPostsNodeStream = <T>(
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  nodeWrapper: (node: JsonNode, profile: ProfileData) => T,
+  frozen?: FrozenNodeIterator | null
+): Effect.Effect<NodeStream<T>, InvalidArgumentError> =>
+  makeNodeStream(igtvPostsConfig(context, profile, nodeWrapper), frozen);
+
+const getConnectionsStream = (
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  queryHash: string,
+  edgeName: string,
+  what: string,
+  frozen?: FrozenNodeIterator | null
+): Effect.Effect<NodeStream<ProfileData>, LoginRequiredError | InvalidArgumentError> =>
+  Effect.gen(function* () {
+    const loggedIn = yield* context.isLoggedIn;
+    if (!loggedIn) {
+      return yield* Effect.fail(
+        new LoginRequiredError({ message: `Login required to get a profile's ${what}.` })
+      );
+    }
+
+    return yield* makeNodeStream<ProfileData>(
+      {
+        context,
+        queryHash,
+        docId: null,
+        edgeExtractor: (d: JsonNode) => ((d["data"] as JsonNode)["user"] as JsonNode)[edgeName] as JsonNode,
+        nodeWrapper: (node: JsonNode) => ({ node, iphoneStruct: null }),
+        queryVariables: { id: String(userid(profile)) },
+        queryReferer: `https://www.instagram.com/${username(profile)}/`,
+        firstData: null,
+        isFirst: null,
+      },
+      frozen
+    );
+  });
+
+export const getFollowersStream = (
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  frozen?: FrozenNodeIterator | null
+): Effect.Effect<NodeStream<ProfileData>, LoginRequiredError | InvalidArgumentError> =>
+  getConnectionsStream(context, profile, "37479f2b8209594dde7facb0d904896a", "edge_followed_by", "followers", frozen);
+
+export const getFolloweesStream = (
+  context: InstaloaderContextShape,
+  profile: ProfileData,
+  frozen?: FrozenNodeIterator | null
+): Effect.Effect<NodeStream<ProfileData>, LoginRequiredError | InvalidArgumentError> =>
+  getConnectionsStream(context, profile, "58712303d941c6855d4e888c5f0cd22f", "edge_follow", "followees", frozen);
+
+export const getSimilarAccountsStream = (
+  context: InstaloaderContextShape,
+  profile: ProfileData
+): Effect.Effect<Stream.Stream<ProfileData, ProfileError>, LoginRequiredError> =>
+  Effect.gen(function* () {
+    const loggedIn = yield* context.isLoggedIn;
+    if (!loggedIn) {
+      return yield* Effect.fail(
+        new LoginRequiredError({ message: "Login required to get a profile's similar accounts." })
+      );
+    }
+
+    return Stream.flatMap(
+      Stream.fromEffect(
+        context.graphqlQuery(
+          "7c16654f22c819fb63d1183034a5162f",
+          {
+            user_id: String(userid(profile)),
+            include_chaining: true,
+            include_reel: false,
+            include_suggested_users: false,
+            include_logged_out_extras: false,
+            include_highlight_reels: false,
+          },
+          `https://www.instagram.com/${username(profile)}/`
+        )
+      ),
+      (data) => {
+        const edges = Option.getOrElse(
+          getMetadata<JsonNode[]>(data, "data", "user", "edge_chaining", "edges"),
+          () => [] as JsonNode[]
+        );
+        return Stream.fromIterable(
+          edges.map((edge): ProfileData => ({ node: edge["node"] as JsonNode, iphoneStruct: null }))
+        );
+      }
+    );
+  });
@@ -0,0 +1,89 @@
+import { Effect, Stream } from "effect";
+import type { InstaloaderContextShape, ContextError } from "../core/context.ts";
+import type { JsonNode, PostLocation } from "./common.ts";
+import type { HashtagData } from "./hashtag.ts";
+import type { ProfileData } from "./profile.ts";
+
+export type TopSearchError = ContextError;
+
+export interface TopSearchResultsData {
+  readonly searchstring: string;
+  readonly node: JsonNode;
+}
+
+const entries = (results: TopSearchResultsData, key: string): JsonNode[] => {
+  const value = results.node[key];
+  return Array.isArray(value) ? (value as JsonNode[]) : [];
+};
+
+const entryNode = (entry: JsonNode, key: string): JsonNode => {
+  const value = entry[key];
+  return value !== null && typeof value === "object" ? (value as JsonNode) : {};
+};
+
+export const topSearchFromQuery = (
+  context: InstaloaderContextShape,
+  searchstring: string
+): Effect.Effect<TopSearchResultsData, TopSearchError> =>
+  Effect.map(
+    context.getJson("web/search/topsearch/", {
+      context: "blended",
+      query: searchstring,
+      include_reel: "false",
+      __a: "1",
+    }),
+    (node) => ({ searchstring, node })
+  );
+
+export const topSearchSearchstring = (results: TopSearchResultsData): string =>
+  results.searchstring;
+
+export const topSearchGetProfiles = (results: TopSearchResultsData): Stream.Stream<ProfileData> =>
+  Stream.fromIterable(
+    entries(results, "users").map((entry) => {
+      const user = entryNode(entry, "user");
+      const node = "pk" in user && !("id" in user) ? { ...user, id: user["pk"] } : user;
+      return { node, iphoneStruct: null };
+    })
+  );
+
+/** Usernames of the found profiles which start with the search string. */
+export const topSearchGetPrefixedUsernames = (results: TopSearchResultsData): Stream.Stream<string> => {
+  const prefix = results.searchstring.replace(/^@+/, "").toLowerCase();
+  return Stream.fromIterable(
+    entries(results, "users")
+      .map((entry) => entryNode(entry, "user")["username"])
+      .filter((username): username is string => typeof username === "string" && username.startsWith(prefix))
+  );
+};
+
+export const topSearchGetLocations = (results: TopSearchResultsData): Stream.Stream<PostLocation> =>
+  Stream.fromIterable(
+    entries(results, "places").map((entry) => {
+      const place = entryNode(entry, "place");
+      const location = entryNode(place, "location");
+      return {
+        id: Number(location["pk"]),
+        name: location["name"] as string,
+        slug: place["slug"] as string,
+        hasPublicPage: null,
+        lat: (location["lat"] as number | undefined) ?? null,
+        lng: (location["lng"] as number | undefined) ?? null,
+      };
+    })
+  );
+
+export const topSearchGetHashtagStrings = (results: TopSearchResultsData): Stream.Stream<string> =>
+  Stream.fromIterable(
+    entries(results, "hashtags")
+      .map((entry) => entryNode(entry, "hashtag")["name"])
+      .filter((name): name is string => typeof name === "string" && name !== "")
+  );
+
+export const topSearchGetHashtags = (results: TopSearchResultsData): Stream.Stream<HashtagData> =>
+  Stream.fromIterable(
+    entries(results, "hashtags")
+      .map((entry) => entryNode(entry, "hashtag"))
+      .filter((node) => "name" in node)
+      .map((node) => ({ node, hasFullMetadata: false }))
+  );
@@ -0,0 +1,292 @@
+/**
+ * Reads and writes Python pickles of a `dict` mapping `str` to `str`, the format
+ * of Python instaloader's session files.
+ *
+ * Pickles are written with protocol 4, which Python 3.4 and later reads. Reading
+ * supports the opcodes protocols 0 to 5 use for such a dict; anything else is rejected.
+ */
+
+const PROTO = 0x80;
+const FRAME = 0x95;
+const STOP = 0x2e; // .
+const MARK = 0x28; // (
+const EMPTY_DICT = 0x7d; // }
+const DICT = 0x64; // d
+const SETITEM = 0x73; // s
+const SETITEMS = 0x75; // u
+const MEMOIZE = 0x94;
+const PUT = 0x70; // p
+const BINPUT = 0x71; // q
+const LONG_BINPUT = 0x72; // r
+const GET = 0x67; // g
+const BINGET = 0x68; // h
+const LONG_BINGET = 0x6a; // j
+const UNICODE = 0x56; // V
+const SHORT_BINUNICODE = 0x8c;
+const BINUNICODE = 0x58; // X
+const BINUNICODE8 = 0x8d;
+
+// As in CPython's pickle module
+const BATCH_SIZE = 1000;
+const FRAME_SIZE_MIN = 4;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder("utf-8", { fatal: true });
+
+class ByteWriter {
+  private chunks: number[] = [];
+
+  byte(value: number): void {
+    this.chunks.push(value);
+  }
+
+  uint(value: number, size: number): void {
+    for (let i = 0; i < size; i++) {
+      this.chunks.push(i < 6 ? Math.floor(value / 2 ** (8 * i)) & 0xff : 0);
+    }
+  }
+
+  bytes(data: Uint8Array): void {
+    for (const b of data) {
+      this.chunks.push(b);
+    }
+  }
+
+  get length(): number {
+    return this.chunks.length;
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+const writeString = (writer: ByteWriter, value: string): void => {
+  const data = encoder.encode(value);
+  if (data.length < 256) {
+    writer.byte(SHORT_BINUNICODE);
+    writer.uint(data.length, 1);
+  } else if (data.length < 2 ** 32) {
+    writer.byte(BINUNICODE);
+    writer.uint(data.length, 4);
+  } else {
+    writer.byte(BINUNICODE8);
+    writer.uint(data.length, 8);
+  }
+  writer.bytes(data);
+  writer.byte(MEMOIZE);
+};
+
+/**
+ * Pickles a dict of strings. Up to 64 KiB, the bytes are those of Python's
+ * `pickle.dumps(d, protocol=4)`; larger dicts are written as one frame where Python
+ * starts a new frame every 64 KiB.
+ */
+export const pickleStringDict = (dict: Readonly<Record<string, string>>): Uint8Array => {
+  const body = new ByteWriter();
+  body.byte(EMPTY_DICT);
+  body.byte(MEMOIZE);
+  const items = Object.entries(dict);
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    const batch = items.slice(i, i + BATCH_SIZE);
+    if (batch.length > 1) {
+      body.byte(MARK);
+    }
+    for (const [key, value] of batch) {
+      writeString(body, key);
+      writeString(body, value);
+    }
+    body.byte(batch.length > 1 ? SETITEMS : SETITEM);
+  }
+  body.byte(STOP);
+
+  const writer = new ByteWriter();
+  writer.byte(PROTO);
+  writer.byte(4);
+  if (body.length >= FRAME_SIZE_MIN) {
+    writer.byte(FRAME);
+    writer.uint(body.length, 8);
+  }
+  writer.bytes(body.toBytes());
+  return writer.toBytes();
+};
+
+type PickleValue = string | Map<string, string> | typeof MARK_OBJECT;
+
+const MARK_OBJECT = Symbol("mark");
+
+class ByteReader {
+  position = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  byte(): number {
+    if (this.position >= this.data.length) {
+      throw new Error("Corrupt pickle data: unexpected end of data");
+    }
+    return this.data[this.position++]!;
+  }
+
+  uint(size: number): number {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value += this.byte() * 2 ** (8 * i);
+    }
+    if (!Number.isSafeInteger(value)) {
+      throw new Error("Corrupt pickle data: length out of range");
+    }
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.position + length > this.data.length) {
+      throw new Error("Corrupt pickle data: unexpected end of data");
+    }
+    const result = this.data.subarray(this.position, this.position + length);
+    this.position += length;
+    return result;
+  }
+
+  // Protocol 0 lines are latin-1: raw-unicode-escape writes characters below U+0100 as single bytes
+  line(): string {
+    const end = this.data.indexOf(0x0a, this.position);
+    if (end < 0) {
+      throw new Error("Corrupt pickle data: unterminated line");
+    }
+    const result = Buffer.from(this.data.subarray(this.position, end)).toString("latin1");
+    this.position = end + 1;
+    return result;
+  }
+}
+
+// Protocol 0 writes strings with Python's raw-unicode-escape codec
+const decodeRawUnicodeEscape = (line: string): string =>
+  line.replace(/\\u([0-9a-fA-F]{4})|\\U([0-9a-fA-F]{8})/g, (_, short: string | undefined, long: string | undefined) =>
+    String.fromCodePoint(Number.parseInt(short ?? long!, 16))
+  );
+
+/** Reads a pickled dict of strings, e.g. a session file of Python instaloader. */
+export const unpickleStringDict = (data: Uint8Array): Record<string, string> => {
+  const reader = new ByteReader(data);
+  const stack: PickleValue[] = [];
+  const memo = new Map<number, PickleValue>();
+
+  const pop = (): PickleValue => {
+    if (stack.length === 0) {
+      throw new Error("Corrupt pickle data: stack underflow");
+    }
+    return stack.pop()!;
+  };
+  const popMark = (): PickleValue[] => {
+    const mark = stack.lastIndexOf(MARK_OBJECT);
+    if (mark < 0) {
+      throw new Error("Corrupt pickle data: missing mark");
+    }
+    return stack.splice(mark).slice(1);
+  };
+  const setItems = (dict: PickleValue | undefined, items: PickleValue[]): void => {
+    if (!(dict instanceof Map) || items.length % 2 !== 0) {
+      throw new Error("Corrupt pickle data: items without dict");
+    }
+    for (let i = 0; i < items.length; i += 2) {
+      const key = items[i];
+      const value = items[i + 1];
+      if (typeof key !== "string" || typeof value !== "string") {
+        throw new Error("Unsupported pickle data: dict values must be strings");
+      }
+      dict.set(key, value);
+    }
+  };
+  const get = (index: number): void => {
+    const value = memo.get(index);
+    if (value === undefined) {
+      throw new Error(`Corrupt pickle data: memo entry ${index} missing`);
+    }
+    stack.push(value);
+  };
+  const put = (index: number): void => {
+    if (stack.length === 0) {
+      throw new Error("Corrupt pickle data: stack underflow");
+    }
+    memo.set(index, stack[stack.length - 1]!);
+  };
+
+  for (;;) {
+    const opcode = reader.byte();
+    switch (opcode) {
+      case PROTO:
+        if (reader.byte() > 5) {
+          throw new Error("Unsupported pickle data: protocol newer than 5");
+        }
+        break;
+      case FRAME:
+        reader.uint(8);
+        break;
+      case MARK:
+        stack.push(MARK_OBJECT);
+        break;
+      case EMPTY_DICT:
+        stack.push(new Map());
+        break;
+      case DICT: {
+        const dict = new Map<string, string>();
+        setItems(dict, popMark());
+        stack.push(dict);
+        break;
+      }
+      case SETITEM: {
+        const value = pop();
+        const key = pop();
+        setItems(stack[stack.length - 1], [key, value]);
+        break;
+      }
+      case SETITEMS: {
+        const items = popMark();
+        setItems(stack[stack.length - 1], items);
+        break;
+      }
+      case MEMOIZE:
+        put(memo.size);
+        break;
+      case PUT:
+        put(Number(reader.line()));
+        break;
+      case BINPUT:
+        put(reader.uint(1));
+        break;
+      case LONG_BINPUT:
+        put(reader.uint(4));
+        break;
+      case GET:
+        get(Number(reader.line()));
+        break;
+      case BINGET:
+        get(reader.uint(1));
+        break;
+      case LONG_BINGET:
+        get(reader.uint(4));
+        break;
+      case UNICODE:
+        stack.push(decodeRawUnicodeEscape(reader.line()));
+        break;
+      case SHORT_BINUNICODE:
+        stack.push(decoder.decode(reader.bytes(reader.uint(1))));
+        break;
+      case BINUNICODE:
+        stack.push(decoder.decode(reader.bytes(reader.uint(4))));
+        break;
+      case BINUNICODE8:
+        stack.push(decoder.decode(reader.bytes(reader.uint(8))));
+        break;
+      case STOP: {
+        const result = pop();
+        if (!(result instanceof Map) || stack.length > 0) {
+          throw new Error("Unsupported pickle data: not a dict");
+        }
+        return Object.fromEntries(result);
+      }
+      default:
+        throw new Error(`Unsupported pickle data: opcode 0x${opcode.toString(16)}`);
+    }
+  }
+};
@@ -0,0 +1,26 @@
+import type { Database } from "bun:sqlite";
+import { Effect } from "effect";
+import { InstaloaderError } from "../exceptions/index.ts";
+
+const errorMessage = (e: unknown): string => (e instanceof Error ? e.message : String(e));
+
+/** Runs a synchronous SQLite operation, failing with `message` and the cause. */
+export const sqliteTry = <A>(message: string, f: () => A): Effect.Effect<A, InstaloaderError> =>
+  Effect.try({
+    try: f,
+    catch: (e) => new InstaloaderError({ message: `${message}: ${errorMessage(e)}`, cause: e }),
+  });
+
+/**
+ * Opens `file` with `bun:sqlite`, creating it if it does not exist. The module is
+ * only imported here so that the library loads in Node, where opening fails.
+ */
+export const openSqliteDatabase = (file: string, message: string): Effect.Effect<Database, InstaloaderError> =>
+  Effect.flatMap(
+    Effect.tryPromise({
+      try: () => import("bun:sqlite"),
+      catch: (e) =>
+        new InstaloaderError({ message: `${message}: SQLite databases require Bun (${errorMessage(e)})`, cause: e }),
+    }),
+    (sqlite) => sqliteTry(message, () => new sqlite.Database(file, { create: true }))
+  );
@@ -0,0 +1,1019 @@
+/**
+ * Pure TypeScript implementation of the .xz container format with an
+ * LZMA2 filter, compatible with `xz`, liblzma and Python's `lzma` module.
+ *
+ * Only what is needed for metadata sidecars is supported: a single LZMA2
+ * filter per block, and the None, CRC32, CRC64 and SHA-256 integrity checks
+ * (SHA-256 is accepted but not verified).
+ */
+
+// ============================================================================
+// Checksums
+// ============================================================================
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array, start = 0, end = data.length): number => {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// CRC64 (ECMA-182, reflected) split into two 32-bit halves.
+const CRC64_TABLE = (() => {
+  const lo = new Uint32Array(256);
+  const hi = new Uint32Array(256);
+  const polyLo = 0xd7870f42;
+  const polyHi = 0xc96c5795;
+  for (let i = 0; i < 256; i++) {
+    let l = i;
+    let h = 0;
+    for (let k = 0; k < 8; k++) {
+      const lsb = l & 1;
+      l = ((l >>> 1) | ((h & 1) << 31)) >>> 0;
+      h = h >>> 1;
+      if (lsb) {
+        l = (l ^ polyLo) >>> 0;
+        h = (h ^ polyHi) >>> 0;
+      }
+    }
+    lo[i] = l;
+    hi[i] = h;
+  }
+  return { lo, hi };
+})();
+
+const crc64 = (data: Uint8Array): [number, number] => {
+  let lo = 0xffffffff;
+  let hi = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    const idx = (lo ^ data[i]!) & 0xff;
+    lo = (((lo >>> 8) | ((hi & 0xff) << 24)) ^ CRC64_TABLE.lo[idx]!) >>> 0;
+    hi = ((hi >>> 8) ^ CRC64_TABLE.hi[idx]!) >>> 0;
+  }
+  return [(lo ^ 0xffffffff) >>> 0, (hi ^ 0xffffffff) >>> 0];
+};
+
+const readUint32LE = (buf: Uint8Array, pos: number): number =>
+  (buf[pos]! | (buf[pos + 1]! << 8) | (buf[pos + 2]! << 16) | (buf[pos + 3]! << 24)) >>> 0;
+
+// ============================================================================
+// LZMA Model
+// ============================================================================
+
+const NUM_STATES = 12;
+const POS_STATES_MAX = 1 << 4;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 1 << (END_POS_MODEL_INDEX >> 1);
+const NUM_ALIGN_BITS = 4;
+const MATCH_MIN_LEN = 2;
+const MATCH_MAX_LEN = 273;
+const PROB_INIT = 1024;
+const TOP_VALUE = 1 << 24;
+
+interface LenModel {
+  readonly choice: Uint16Array;
+  readonly low: Uint16Array;
+  readonly mid: Uint16Array;
+  readonly high: Uint16Array;
+}
+
+interface LzmaModel {
+  readonly literal: Uint16Array;
+  readonly isMatch: Uint16Array;
+  readonly isRep: Uint16Array;
+  readonly isRepG0: Uint16Array;
+  readonly isRepG1: Uint16Array;
+  readonly isRepG2: Uint16Array;
+  readonly isRep0Long: Uint16Array;
+  readonly posSlot: Uint16Array;
+  readonly posSpecial: Uint16Array;
+  readonly align: Uint16Array;
+  readonly len: LenModel;
+  readonly repLen: LenModel;
+}
+
+interface LzmaProps {
+  readonly lc: number;
+  readonly lp: number;
+  readonly pb: number;
+}
+
+const probs = (size: number): Uint16Array => new Uint16Array(size).fill(PROB_INIT);
+
+const createLenModel = (): LenModel => ({
+  choice: probs(2),
+  low: probs(POS_STATES_MAX << 3),
+  mid: probs(POS_STATES_MAX << 3),
+  high: probs(256),
+});
+
+const createModel = ({ lc, lp }: LzmaProps): LzmaModel => ({
+  literal: probs(0x300 << (lc + lp)),
+  isMatch: probs(NUM_STATES << 4),
+  isRep: probs(NUM_STATES),
+  isRepG0: probs(NUM_STATES),
+  isRepG1: probs(NUM_STATES),
+  isRepG2: probs(NUM_STATES),
+  isRep0Long: probs(NUM_STATES << 4),
+  posSlot: probs(4 << 6),
+  posSpecial: probs(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX),
+  align: probs(1 << NUM_ALIGN_BITS),
+  len: createLenModel(),
+  repLen: createLenModel(),
+});
+
+const stateAfterLiteral = (state: number): number =>
+  state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+const stateAfterMatch = (state: number): number => (state < 7 ? 7 : 10);
+const stateAfterRep = (state: number): number => (state < 7 ? 8 : 11);
+const stateAfterShortRep = (state: number): number => (state < 7 ? 9 : 11);
+
+const decodeProps = (byte: number): LzmaProps => {
+  if (byte > (4 * 5 + 4) * 9 + 8) {
+    throw new Error("Corrupt xz data: invalid LZMA properties");
+  }
+  const lc = byte % 9;
+  const rest = Math.floor(byte / 9);
+  const props = { lc, lp: rest % 5, pb: Math.floor(rest / 5) };
+  if (props.lc + props.lp > 4) {
+    throw new Error("Corrupt xz data: lc + lp exceeds 4 in LZMA2 properties");
+  }
+  return props;
+};
+
+// ============================================================================
+// Range Coder
+// ============================================================================
+
+class RangeEncoder {
+  private low = 0;
+  private range = 0xffffffff;
+  private cache = 0;
+  private cacheSize = 1;
+  private out: number[] = [];
+
+  encodeBit(probs: Uint16Array, index: number, bit: number): void {
+    const p = probs[index]!;
+    const bound = (this.range >>> 11) * p;
+    if (bit === 0) {
+      this.range = bound;
+      probs[index] = p + ((2048 - p) >>> 5);
+    } else {
+      this.low += bound;
+      this.range -= bound;
+      probs[index] = p - (p >>> 5);
+    }
+    while (this.range < TOP_VALUE) {
+      this.range = (this.range * 256) >>> 0;
+      this.shiftLow();
+    }
+  }
+
+  encodeDirectBits(value: number, numBits: number): void {
+    for (let i = numBits - 1; i >= 0; i--) {
+      this.range = this.range >>> 1;
+      if (Math.floor(value / 2 ** i) & 1) {
+        this.low += this.range;
+      }
+      while (this.range < TOP_VALUE) {
+        this.range = (this.range * 256) >>> 0;
+        this.shiftLow();
+      }
+    }
+  }
+
+  encodeTree(probs: Uint16Array, offset: number, numBits: number, symbol: number): void {
+    let m = 1;
+    for (let i = numBits - 1; i >= 0; i--) {
+      const bit = (symbol >>> i) & 1;
+      this.encodeBit(probs, offset + m, bit);
+      m = (m << 1) | bit;
+    }
+  }
+
+  encodeReverseTree(probs: Uint16Array, offset: number, numBits: number, symbol: number): void {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) {
+      const bit = symbol & 1;
+      symbol >>>= 1;
+      this.encodeBit(probs, offset + m, bit);
+      m = (m << 1) | bit;
+    }
+  }
+
+  finish(): number[] {
+    for (let i = 0; i < 5; i++) {
+      this.shiftLow();
+    }
+    return this.out;
+  }
+
+  private shiftLow(): void {
+    const low32 = this.low % 0x100000000;
+    if (low32 < 0xff000000 || this.low >= 0x100000000) {
+      const carry = this.low >= 0x100000000 ? 1 : 0;
+      let temp = this.cache;
+      do {
+        this.out.push((temp + carry) & 0xff);
+        temp = 0xff;
+      } while (--this.cacheSize !== 0);
+      this.cache = low32 >>> 24;
+    }
+    this.cacheSize++;
+    this.low = (low32 & 0x00ffffff) * 256;
+  }
+}
+
+class RangeDecoder {
+  private range = 0xffffffff;
+  private code = 0;
+  private pos: number;
+
+  constructor(
+    private readonly input: Uint8Array,
+    start: number,
+    private readonly end: number,
+  ) {
+    if (end - start < 5 || input[start] !== 0) {
+      throw new Error("Corrupt xz data: invalid range coder header");
+    }
+    this.pos = start + 1;
+    for (let i = 0; i < 4; i++) {
+      this.code = ((this.code << 8) | this.nextByte()) >>> 0;
+    }
+    if (this.code === this.range) {
+      throw new Error("Corrupt xz data: invalid range coder state");
+    }
+  }
+
+  decodeBit(probs: Uint16Array, index: number): number {
+    const p = probs[index]!;
+    const bound = (this.range >>> 11) * p;
+    let bit: number;
+    if (this.code < bound) {
+      this.range = bound;
+      probs[index] = p + ((2048 - p) >>> 5);
+      bit = 0;
+    } else {
+      this.code -= bound;
+      this.range -= bound;
+      probs[index] = p - (p >>> 5);
+      bit = 1;
+    }
+    this.normalize();
+    return bit;
+  }
+
+  decodeDirectBits(numBits: number): number {
+    let result = 0;
+    for (let i = 0; i < numBits; i++) {
+      this.range = this.range >>> 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = result * 2 + bit;
+      this.normalize();
+    }
+    return result;
+  }
+
+  decodeTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) {
+      m = (m << 1) | this.decodeBit(probs, offset + m);
+    }
+    return m - (1 << numBits);
+  }
+
+  decodeReverseTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    let symbol = 0;
+    for (let i = 0; i < numBits; i++) {
+      const bit = this.decodeBit(probs, offset + m);
+      m = (m << 1) | bit;
+      symbol |= bit << i;
+    }
+    return symbol;
+  }
+
+  private normalize(): void {
+    if (this.range < TOP_VALUE) {
+      this.range = (this.range * 256) >>> 0;
+      this.code = ((this.code * 256) % 0x100000000 + this.nextByte()) >>> 0;
+    }
+  }
+
+  private nextByte(): number {
+    if (this.pos >= this.end) {
+      throw new Error("Corrupt xz data: unexpected end of LZMA chunk");
+    }
+    return this.input[this.pos++]!;
+  }
+}
+
+// ============================================================================
+// LZMA2 Decoder
+// ============================================================================
+
+class OutputBuffer {
+  data = new Uint8Array(1 << 16);
+  length = 0;
+
+  push(byte: number): void {
+    if (this.length === this.data.length) {
+      const grown = new Uint8Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data[this.length++] = byte;
+  }
+
+  pushAll(bytes: Uint8Array): void {
+    for (let i = 0; i < bytes.length; i++) {
+      this.push(bytes[i]!);
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.data.slice(0, this.length);
+  }
+}
+
+interface DecoderState {
+  props: LzmaProps | null;
+  model: LzmaModel | null;
+  state: number;
+  reps: [number, number, number, number];
+  dictStart: number;
+}
+
+const decodeLength = (rc: RangeDecoder, len: LenModel, posState: number): number => {
+  if (rc.decodeBit(len.choice, 0) === 0) {
+    return rc.decodeTree(len.low, posState << 3, 3);
+  }
+  if (rc.decodeBit(len.choice, 1) === 0) {
+    return 8 + rc.decodeTree(len.mid, posState << 3, 3);
+  }
+  return 16 + rc.decodeTree(len.high, 0, 8);
+};
+
+const decodeDistance = (rc: RangeDecoder, model: LzmaModel, len: number): number => {
+  const lenState = Math.min(len, 3);
+  const posSlot = rc.decodeTree(model.posSlot, lenState << 6, 6);
+  if (posSlot < 4) {
+    return posSlot;
+  }
+  const numDirectBits = (posSlot >>> 1) - 1;
+  let dist = (2 | (posSlot & 1)) * 2 ** numDirectBits;
+  if (posSlot < END_POS_MODEL_INDEX) {
+    dist += rc.decodeReverseTree(model.posSpecial, dist - posSlot, numDirectBits);
+  } else {
+    dist += rc.decodeDirectBits(numDirectBits - NUM_ALIGN_BITS) * 2 ** NUM_ALIGN_BITS;
+    dist += rc.decodeReverseTree(model.align, 0, NUM_ALIGN_BITS);
+  }
+  return dist;
+};
+
+const decodeLzmaChunk = (
+  rc: RangeDecoder,
+  st: DecoderState,
+  out: OutputBuffer,
+  unpackedSize: number,
+): void => {
+  const { lc, lp, pb } = st.props!;
+  const model = st.model!;
+  const pbMask = (1 << pb) - 1;
+  const lpMask = (1 << lp) - 1;
+  const end = out.length + unpackedSize;
+  let { state } = st;
+  let [rep0, rep1, rep2, rep3] = st.reps;
+
+  while (out.length < end) {
+    const pos = out.length - st.dictStart;
+    const posState = pos & pbMask;
+
+    if (rc.decodeBit(model.isMatch, (state << 4) + posState) === 0) {
+      const prevByte = pos > 0 ? out.data[out.length - 1]! : 0;
+      const base = 0x300 * (((pos & lpMask) << lc) + (prevByte >>> (8 - lc)));
+      let symbol = 1;
+      if (state >= 7) {
+        let matchByte = out.data[out.length - rep0 - 1]!;
+        do {
+          const matchBit = (matchByte >>> 7) & 1;
+          matchByte <<= 1;
+          const bit = rc.decodeBit(model.literal, base + ((1 + matchBit) << 8) + symbol);
+          symbol = (symbol << 1) | bit;
+          if (matchBit !== bit) break;
+        } while (symbol < 0x100);
+      }
+      while (symbol < 0x100) {
+        symbol = (symbol << 1) | rc.decodeBit(model.literal, base + symbol);
+      }
+      out.push(symbol - 0x100);
+      state = stateAfterLiteral(state);
+      continue;
+    }
+
+    let len: number;
+    if (rc.decodeBit(model.isRep, state) !== 0) {
+      if (pos === 0) {
+        throw new Error("Corrupt xz data: repeated match before any data");
+      }
+      if (rc.decodeBit(model.isRepG0, state) === 0) {
+        if (rc.decodeBit(model.isRep0Long, (state << 4) + posState) === 0) {
+          state = stateAfterShortRep(state);
+          out.push(out.data[out.length - rep0 - 1]!);
+          continue;
+        }
+      } else {
+        let dist: number;
+        if (rc.decodeBit(model.isRepG1, state) === 0) {
+          dist = rep1;
+        } else {
+          if (rc.decodeBit(model.isRepG2, state) === 0) {
+            dist = rep2;
+          } else {
+            dist = rep3;
+            rep3 = rep2;
+          }
+          rep2 = rep1;
+        }
+        rep1 = rep0;
+        rep0 = dist;
+      }
+      len = decodeLength(rc, model.repLen, posState);
+      state = stateAfterRep(state);
+    } else {
+      rep3 = rep2;
+      rep2 = rep1;
+      rep1 = rep0;
+      len = decodeLength(rc, model.len, posState);
+      state = stateAfterMatch(state);
+      rep0 = decodeDistance(rc, model, len);
+      if (rep0 === 0xffffffff) {
+        throw new Error("Corrupt xz data: end marker inside LZMA2 chunk");
+      }
+      if (rep0 >= pos) {
+        throw new Error("Corrupt xz data: match distance exceeds dictionary");
+      }
+    }
+
+    len += MATCH_MIN_LEN;
+    if (out.length + len > end) {
+      throw new Error("Corrupt xz data: match exceeds chunk size");
+    }
+    for (let i = 0; i < len; i++) {
+      out.push(out.data[out.length - rep0 - 1]!);
+    }
+  }
+
+  st.state = state;
+  st.reps = [rep0, rep1, rep2, rep3];
+};
+
+const resetDecoderState = (st: DecoderState): void => {
+  st.model = createModel(st.props!);
+  st.state = 0;
+  st.reps = [0, 0, 0, 0];
+};
+
+/**
+ * Decodes a raw LZMA2 stream starting at `start`. Returns the position
+ * right after the end-of-stream control byte.
+ */
+const decodeLzma2 = (input: Uint8Array, start: number, out: OutputBuffer): number => {
+  const st: DecoderState = {
+    props: null,
+    model: null,
+    state: 0,
+    reps: [0, 0, 0, 0],
+    dictStart: out.length,
+  };
+  let pos = start;
+  let needDictReset = true;
+
+  while (true) {
+    if (pos >= input.length) {
+      throw new Error("Corrupt xz data: truncated LZMA2 stream");
+    }
+    const control = input[pos++]!;
+    if (control === 0x00) {
+      return pos;
+    }
+
+    if (control === 0x01 || control === 0x02) {
+      if (control === 0x01) {
+        st.dictStart = out.length;
+        needDictReset = false;
+      } else if (needDictReset) {
+        throw new Error("Corrupt xz data: missing dictionary reset");
+      }
+      const size = ((input[pos]! << 8) | input[pos + 1]!) + 1;
+      pos += 2;
+      if (pos + size > input.length) {
+        throw new Error("Corrupt xz data: truncated uncompressed chunk");
+      }
+      out.pushAll(input.subarray(pos, pos + size));
+      pos += size;
+      continue;
+    }
+
+    if (control < 0x80) {
+      throw new Error(`Corrupt xz data: invalid LZMA2 control byte 0x${control.toString(16)}`);
+    }
+
+    const unpackedSize = ((control & 0x1f) << 16) + (input[pos]! << 8) + input[pos + 1]! + 1;
+    const packedSize = ((input[pos + 2]! << 8) | input[pos + 3]!) + 1;
+    pos += 4;
+    const reset = (control >>> 5) & 3;
+
+    if (reset === 3) {
+      st.dictStart = out.length;
+      needDictReset = false;
+    } else if (needDictReset) {
+      throw new Error("Corrupt xz data: missing dictionary reset");
+    }
+    if (reset >= 2) {
+      st.props = decodeProps(input[pos++]!);
+    }
+    if (st.props === null) {
+      throw new Error("Corrupt xz data: missing LZMA properties");
+    }
+    if (reset >= 1) {
+      resetDecoderState(st);
+    } else if (st.model === null) {
+      throw new Error("Corrupt xz data: missing LZMA state reset");
+    }
+
+    if (pos + packedSize > input.length) {
+      throw new Error("Corrupt xz data: truncated LZMA chunk");
+    }
+    const rc = new RangeDecoder(input, pos, pos + packedSize);
+    decodeLzmaChunk(rc, st, out, unpackedSize);
+    pos += packedSize;
+  }
+};
+
+// ============================================================================
+// LZMA2 Encoder
+// ============================================================================
+
+const ENCODER_PROPS: LzmaProps = { lc: 3, lp: 0, pb: 2 };
+const ENCODER_PROPS_BYTE = (ENCODER_PROPS.pb * 5 + ENCODER_PROPS.lp) * 9 + ENCODER_PROPS.lc;
+const DICT_SIZE_LOG2 = 23;
+const DICT_SIZE = 1 << DICT_SIZE_LOG2;
+const CHUNK_UNPACKED_MAX = 1 << 16;
+const CHUNK_PACKED_MAX = 1 << 16;
+const HASH_BITS = 16;
+const MAX_CHAIN_DEPTH = 48;
+const NICE_LEN = 128;
+
+const getPosSlot = (dist: number): number => {
+  if (dist < 4) return dist;
+  const n = 31 - Math.clz32(dist);
+  return (n << 1) | ((dist >>> (n - 1)) & 1);
+};
+
+class MatchFinder {
+  private readonly head = new Int32Array(1 << HASH_BITS).fill(-1);
+  private readonly prev: Int32Array;
+  private inserted = 0;
+
+  constructor(private readonly data: Uint8Array) {
+    this.prev = new Int32Array(Math.max(data.length, 1));
+  }
+
+  private hash(pos: number): number {
+    const d = this.data;
+    const v = (d[pos]! << 16) | (d[pos + 1]! << 8) | d[pos + 2]!;
+    return Math.imul(v, 0x9e3779b1) >>> (32 - HASH_BITS);
+  }
+
+  /** Inserts every position before `pos` into the hash chains. */
+  advanceTo(pos: number): void {
+    const limit = Math.min(pos, this.data.length - 2);
+    for (; this.inserted < limit; this.inserted++) {
+      const h = this.hash(this.inserted);
+      this.prev[this.inserted] = this.head[h]!;
+      this.head[h] = this.inserted;
+    }
+    this.inserted = Math.max(this.inserted, pos);
+  }
+
+  /** Returns the longest match at `pos` as `[length, distance - 1]`. */
+  find(pos: number, maxLen: number): [number, number] {
+    this.advanceTo(pos);
+    if (maxLen < 3 || pos + 2 >= this.data.length) {
+      return [0, 0];
+    }
+    const d = this.data;
+    let bestLen = 0;
+    let bestDist = 0;
+    let candidate = this.head[this.hash(pos)]!;
+    for (let depth = 0; depth < MAX_CHAIN_DEPTH && candidate >= 0; depth++) {
+      const dist = pos - candidate - 1;
+      if (dist >= DICT_SIZE) break;
+      if (d[candidate + bestLen] === d[pos + bestLen]) {
+        let len = 0;
+        while (len < maxLen && d[candidate + len] === d[pos + len]) len++;
+        if (len > bestLen) {
+          bestLen = len;
+          bestDist = dist;
+          if (len >= NICE_LEN || len === maxLen) break;
+        }
+      }
+      candidate = this.prev[candidate]!;
+    }
+    return [bestLen, bestDist];
+  }
+}
+
+const matchLength = (data: Uint8Array, pos: number, dist: number, maxLen: number): number => {
+  const src = pos - dist - 1;
+  if (src < 0) return 0;
+  let len = 0;
+  while (len < maxLen && data[src + len] === data[pos + len]) len++;
+  return len;
+};
+
+const encodeLength = (rc: RangeEncoder, len: LenModel, value: number, posState: number): void => {
+  if (value < 8) {
+    rc.encodeBit(len.choice, 0, 0);
+    rc.encodeTree(len.low, posState << 3, 3, value);
+  } else if (value < 16) {
+    rc.encodeBit(len.choice, 0, 1);
+    rc.encodeBit(len.choice, 1, 0);
+    rc.encodeTree(len.mid, posState << 3, 3, value - 8);
+  } else {
+    rc.encodeBit(len.choice, 0, 1);
+    rc.encodeBit(len.choice, 1, 1);
+    rc.encodeTree(len.high, 0, 8, value - 16);
+  }
+};
+
+const encodeDistance = (rc: RangeEncoder, model: LzmaModel, dist: number, len: number): void => {
+  const lenState = Math.min(len, 3);
+  const posSlot = getPosSlot(dist);
+  rc.encodeTree(model.posSlot, lenState << 6, 6, posSlot);
+  if (posSlot < 4) return;
+  const numDirectBits = (posSlot >>> 1) - 1;
+  const base = (2 | (posSlot & 1)) << numDirectBits;
+  const reduced = dist - base;
+  if (posSlot < END_POS_MODEL_INDEX) {
+    rc.encodeReverseTree(model.posSpecial, base - posSlot, numDirectBits, reduced);
+  } else {
+    rc.encodeDirectBits(reduced >>> NUM_ALIGN_BITS, numDirectBits - NUM_ALIGN_BITS);
+    rc.encodeReverseTree(model.align, 0, NUM_ALIGN_BITS, reduced & 0xf);
+  }
+};
+
+/**
+ * Encodes `data[start, end)` as the payload of one LZMA chunk, starting from a
+ * reset state. Matches may reference anything before `start`.
+ */
+const encodeLzmaChunk = (data: Uint8Array, start: number, end: number, mf: MatchFinder): number[] => {
+  const { lc, pb } = ENCODER_PROPS;
+  const pbMask = (1 << pb) - 1;
+  const model = createModel(ENCODER_PROPS);
+  const rc = new RangeEncoder();
+  const reps = [0, 0, 0, 0];
+  let state = 0;
+  let pos = start;
+
+  while (pos < end) {
+    const posState = pos & pbMask;
+    const maxLen = Math.min(MATCH_MAX_LEN, end - pos);
+
+    let repLen = 0;
+    let repIndex = 0;
+    if (maxLen >= MATCH_MIN_LEN) {
+      for (let i = 0; i < 4; i++) {
+        const len = matchLength(data, pos, reps[i]!, maxLen);
+        if (len > repLen) {
+          repLen = len;
+          repIndex = i;
+        }
+      }
+    }
+    const [mainLen, mainDist] = mf.find(pos, maxLen);
+
+    if (repLen >= MATCH_MIN_LEN && repLen + 1 >= mainLen) {
+      rc.encodeBit(model.isMatch, (state << 4) + posState, 1);
+      rc.encodeBit(model.isRep, state, 1);
+      if (repIndex === 0) {
+        rc.encodeBit(model.isRepG0, state, 0);
+        rc.encodeBit(model.isRep0Long, (state << 4) + posState, 1);
+      } else {
+        rc.encodeBit(model.isRepG0, state, 1);
+        if (repIndex === 1) {
+          rc.encodeBit(model.isRepG1, state, 0);
+        } else {
+          rc.encodeBit(model.isRepG1, state, 1);
+          rc.encodeBit(model.isRepG2, state, repIndex - 2);
+        }
+        const dist = reps[repIndex]!;
+        reps.splice(repIndex, 1);
+        reps.unshift(dist);
+      }
+      encodeLength(rc, model.repLen, repLen - MATCH_MIN_LEN, posState);
+      state = stateAfterRep(state);
+      pos += repLen;
+      continue;
+    }
+
+    if (mainLen >= 3) {
+      rc.encodeBit(model.isMatch, (state << 4) + posState, 1);
+      rc.encodeBit(model.isRep, state, 0);
+      encodeLength(rc, model.len, mainLen - MATCH_MIN_LEN, posState);
+      encodeDistance(rc, model, mainDist, mainLen - MATCH_MIN_LEN);
+      reps.pop();
+      reps.unshift(mainDist);
+      state = stateAfterMatch(state);
+      pos += mainLen;
+      continue;
+    }
+
+    const byte = data[pos]!;
+    if (pos > reps[0]! && data[pos - reps[0]! - 1] === byte) {
+      rc.encodeBit(model.isMatch, (state << 4) + posState, 1);
+      rc.encodeBit(model.isRep, state, 1);
+      rc.encodeBit(model.isRepG0, state, 0);
+      rc.encodeBit(model.isRep0Long, (state << 4) + posState, 0);
+      state = stateAfterShortRep(state);
+      pos++;
+      continue;
+    }
+
+    rc.encodeBit(model.isMatch, (state << 4) + posState, 0);
+    const prevByte = pos > 0 ? data[pos - 1]! : 0;
+    const base = 0x300 * (prevByte >>> (8 - lc));
+    let m = 1;
+    if (state >= 7 && pos > reps[0]!) {
+      const matchByte = data[pos - reps[0]! - 1]!;
+      let matched = true;
+      for (let i = 7; i >= 0; i--) {
+        const bit = (byte >>> i) & 1;
+        if (matched) {
+          const matchBit = (matchByte >>> i) & 1;
+          rc.encodeBit(model.literal, base + ((1 + matchBit) << 8) + m, bit);
+          matched = matchBit === bit;
+        } else {
+          rc.encodeBit(model.literal, base + m, bit);
+        }
+        m = (m << 1) | bit;
+      }
+    } else {
+      rc.encodeTree(model.literal, base, 8, byte);
+    }
+    state = stateAfterLiteral(state);
+    pos++;
+  }
+
+  return rc.finish();
+};
+
+const encodeLzma2 = (data: Uint8Array): number[] => {
+  const out: number[] = [];
+  const mf = new MatchFinder(data);
+  let first = true;
+  let needProps = true;
+
+  for (let start = 0; start < data.length; start += CHUNK_UNPACKED_MAX) {
+    const end = Math.min(start + CHUNK_UNPACKED_MAX, data.length);
+    const packed = encodeLzmaChunk(data, start, end, mf);
+    const unpackedSize = end - start;
+
+    if (packed.length > CHUNK_PACKED_MAX || packed.length >= unpackedSize) {
+      out.push(first ? 0x01 : 0x02, (unpackedSize - 1) >>> 8, (unpackedSize - 1) & 0xff);
+      for (let i = start; i < end; i++) out.push(data[i]!);
+    } else {
+      const u = unpackedSize - 1;
+      const p = packed.length - 1;
+      const control = first ? 0xe0 : needProps ? 0xc0 : 0xa0;
+      out.push(control | (u >>> 16), (u >>> 8) & 0xff, u & 0xff, p >>> 8, p & 0xff);
+      if (control !== 0xa0) {
+        out.push(ENCODER_PROPS_BYTE);
+        needProps = false;
+      }
+      for (const b of packed) out.push(b);
+    }
+    first = false;
+  }
+
+  out.push(0x00);
+  return out;
+};
+
+// ============================================================================
+// XZ Container
+// ============================================================================
+
+const XZ_MAGIC = [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00];
+const XZ_FOOTER_MAGIC = [0x59, 0x5a];
+const FILTER_LZMA2 = 0x21;
+const CHECK_NONE = 0x00;
+const CHECK_CRC32 = 0x01;
+const CHECK_CRC64 = 0x04;
+const CHECK_SHA256 = 0x0a;
+
+const checkSize = (checkType: number): number => {
+  if (checkType === 0) return 0;
+  return 4 << Math.floor((checkType - 1) / 3);
+};
+
+const pushUint32LE = (out: number[], value: number): void => {
+  out.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+};
+
+const pushVarint = (out: number[], value: number): void => {
+  while (value >= 0x80) {
+    out.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+};
+
+const padToFour = (out: number[], from: number): void => {
+  while ((out.length - from) % 4 !== 0) out.push(0);
+};
+
+/**
+ * Compresses `data` into a single-stream, single-block .xz file using LZMA2
+ * with a CRC32 integrity check.
+ */
+export const xzCompress = (data: Uint8Array): Uint8Array => {
+  const out: number[] = [...XZ_MAGIC];
+  const streamFlags = [0x00, CHECK_CRC32];
+  out.push(...streamFlags);
+  pushUint32LE(out, crc32(Uint8Array.from(streamFlags)));
+
+  const records: Array<[number, number]> = [];
+  if (data.length > 0) {
+    const blockStart = out.length;
+    const header = [0, 0x00, FILTER_LZMA2, 0x01, (DICT_SIZE_LOG2 - 12) * 2];
+    while ((header.length + 4) % 4 !== 0) header.push(0);
+    header[0] = (header.length + 4) / 4 - 1;
+    out.push(...header);
+    pushUint32LE(out, crc32(Uint8Array.from(header)));
+
+    for (const b of encodeLzma2(data)) out.push(b);
+    const unpaddedSize = out.length - blockStart + checkSize(CHECK_CRC32);
+    padToFour(out, blockStart);
+    pushUint32LE(out, crc32(data));
+    records.push([unpaddedSize, data.length]);
+  }
+
+  const indexStart = out.length;
+  out.push(0x00);
+  pushVarint(out, records.length);
+  for (const [unpaddedSize, uncompressedSize] of records) {
+    pushVarint(out, unpaddedSize);
+    pushVarint(out, uncompressedSize);
+  }
+  padToFour(out, indexStart);
+  pushUint32LE(out, crc32(Uint8Array.from(out.slice(indexStart))));
+  const indexSize = out.length - indexStart;
+
+  const footer: number[] = [];
+  pushUint32LE(footer, indexSize / 4 - 1);
+  footer.push(...streamFlags);
+  pushUint32LE(out, crc32(Uint8Array.from(footer)));
+  out.push(...footer, ...XZ_FOOTER_MAGIC);
+
+  return Uint8Array.from(out);
+};
+
+const readVarint = (input: Uint8Array, pos: number): [number, number] => {
+  let value = 0;
+  let shift = 1;
+  for (let i = 0; i < 9; i++) {
+    if (pos >= input.length) break;
+    const byte = input[pos++]!;
+    value += (byte & 0x7f) * shift;
+    if ((byte & 0x80) === 0) {
+      return [value, pos];
+    }
+    shift *= 0x80;
+  }
+  throw new Error("Corrupt xz data: invalid variable-length integer");
+};
+
+const hasMagic = (input: Uint8Array, pos: number, magic: number[]): boolean =>
+  magic.every((b, i) => input[pos + i] === b);
+
+const verifyCheck = (input: Uint8Array, pos: number, checkType: number, data: Uint8Array): void => {
+  if (checkType === CHECK_CRC32) {
+    if (readUint32LE(input, pos) !== crc32(data)) {
+      throw new Error("Corrupt xz data: CRC32 mismatch");
+    }
+  } else if (checkType === CHECK_CRC64) {
+    const [lo, hi] = crc64(data);
+    if (readUint32LE(input, pos) !== lo || readUint32LE(input, pos + 4) !== hi) {
+      throw new Error("Corrupt xz data: CRC64 mismatch");
+    }
+  }
+};
+
+const decodeStream = (input: Uint8Array, start: number, out: OutputBuffer): number => {
+  if (!hasMagic(input, start, XZ_MAGIC)) {
+    throw new Error("Not an xz file: bad magic bytes");
+  }
+  if (readUint32LE(input, start + 8) !== crc32(input, start + 6, start + 8)) {
+    throw new Error("Corrupt xz data: stream header CRC mismatch");
+  }
+  const checkType = input[start + 7]! & 0x0f;
+  if (input[start + 6] !== 0 || input[start + 7]! > 0x0f) {
+    throw new Error("Unsupported xz stream flags");
+  }
+  if (![CHECK_NONE, CHECK_CRC32, CHECK_CRC64, CHECK_SHA256].includes(checkType)) {
+    throw new Error(`Unsupported xz integrity check type ${checkType}`);
+  }
+  let pos = start + 12;
+
+  while (true) {
+    if (pos >= input.length) {
+      throw new Error("Corrupt xz data: truncated stream");
+    }
+    const headerSizeByte = input[pos]!;
+    if (headerSizeByte === 0x00) {
+      break;
+    }
+
+    const blockStart = pos;
+    const headerSize = (headerSizeByte + 1) * 4;
+    if (readUint32LE(input, pos + headerSize - 4) !== crc32(input, pos, pos + headerSize - 4)) {
+      throw new Error("Corrupt xz data: block header CRC mismatch");
+    }
+    const flags = input[pos + 1]!;
+    const numFilters = (flags & 0x03) + 1;
+    let hp = pos + 2;
+    if (flags & 0x40) [, hp] = readVarint(input, hp);
+    if (flags & 0x80) [, hp] = readVarint(input, hp);
+    const [filterId] = readVarint(input, hp);
+    if (numFilters !== 1 || filterId !== FILTER_LZMA2) {
+      throw new Error("Unsupported xz filter chain: only a single LZMA2 filter is supported");
+    }
+
+    const blockOut = new OutputBuffer();
+    pos = decodeLzma2(input, blockStart + headerSize, blockOut);
+    while ((pos - blockStart) % 4 !== 0) {
+      if (input[pos++] !== 0) {
+        throw new Error("Corrupt xz data: non-zero block padding");
+      }
+    }
+    const blockData = blockOut.toUint8Array();
+    verifyCheck(input, pos, checkType, blockData);
+    pos += checkSize(checkType);
+    out.pushAll(blockData);
+  }
+
+  const indexStart = pos;
+  pos++;
+  let records: number;
+  [records, pos] = readVarint(input, pos);
+  for (let i = 0; i < records * 2; i++) {
+    [, pos] = readVarint(input, pos);
+  }
+  while ((pos - indexStart) % 4 !== 0) pos++;
+  if (readUint32LE(input, pos) !== crc32(input, indexStart, pos)) {
+    throw new Error("Corrupt xz data: index CRC mismatch");
+  }
+  pos += 4;
+
+  if (!hasMagic(input, pos + 10, XZ_FOOTER_MAGIC)) {
+    throw new Error("Corrupt xz data: bad stream footer");
+  }
+  return pos + 12;
+};
+
+/**
+ * Decompresses a complete .xz file, including concatenated streams and
+ * stream padding. Throws an `Error` if the input is not valid xz data.
+ */
+export const xzDecompress = (input: Uint8Array): Uint8Array => {
+  const out = new OutputBuffer();
+  let pos = decodeStream(input, 0, out);
+  while (pos < input.length) {
+    if (input[pos] === 0) {
+      pos++;
+      continue;
+    }
+    pos = decodeStream(input, pos, out);
+  }
+  return out.toUint8Array();
+};
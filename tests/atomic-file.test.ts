@@ -0,0 +1,42 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect } from "effect";
+import { mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PlatformLayer, removeStaleTempFiles, writeFileAtomic } from "../src/effect/index.ts";
+
+describe("atomic files", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "instaloader-atomic-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("replaces the file without leaving a temporary file", async () => {
+    const file = join(dir, "post.json");
+    writeFileSync(file, "old");
+
+    await Effect.runPromise(writeFileAtomic(file, "new").pipe(Effect.provide(PlatformLayer)));
+
+    expect(readFileSync(file, "utf8")).toBe("new");
+    expect(readdirSync(dir)).toEqual(["post.json"]);
+  });
+
+  test("removes temporary files of dead processes only", async () => {
+    mkdirSync(join(dir, ":tagged"));
+    const stale = join(dir, ":tagged", "post.json.99999999.tmp");
+    const ours = join(dir, `post.json.${process.pid}.tmp`);
+    for (const file of [stale, ours, join(dir, "video.mp4.part"), join(dir, "notes.tmp")]) {
+      writeFileSync(file, "");
+    }
+
+    const removed = await Effect.runPromise(removeStaleTempFiles(dir).pipe(Effect.provide(PlatformLayer)));
+
+    expect(removed).toEqual([stale]);
+    expect(readdirSync(dir).sort()).toEqual([":tagged", "notes.tmp", `post.json.${process.pid}.tmp`, "video.mp4.part"]);
+  });
+});
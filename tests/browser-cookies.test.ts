@@ -0,0 +1,201 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { Effect } from "effect";
+import { createCipheriv, createHash, pbkdf2Sync } from "node:crypto";
+import { mkdirSync, mkdtempSync, rmSync, utimesSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  makeInstaloaderContext,
+  importBrowserCookiesEffect,
+  importBrowserSessionEffect,
+  findBrowserCookiesFileEffect,
+  PlatformLayer,
+  type CookieBrowser,
+  type BrowserCookiesOptions,
+} from "../src/effect/index.ts";
+
+const run = <A, E>(effect: Effect.Effect<A, E, never>) => Effect.runPromise(effect);
+const quietContext = makeInstaloaderContext({ quiet: true, iphoneSupport: false });
+const importCookies = (browser: CookieBrowser, options?: BrowserCookiesOptions) =>
+  run(
+    Effect.provide(
+      Effect.flatMap(quietContext, (context) => importBrowserCookiesEffect(context, browser, options)),
+      PlatformLayer
+    )
+  );
+const importError = (browser: CookieBrowser, options?: BrowserCookiesOptions) =>
+  run(
+    Effect.flip(
+      Effect.provide(
+        Effect.flatMap(quietContext, (context) => importBrowserCookiesEffect(context, browser, options)),
+        PlatformLayer
+      )
+    )
+  );
+
+const createFirefoxDb = (file: string): Database => {
+  const db = new Database(file, { create: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(`CREATE TABLE moz_cookies (
+    id INTEGER PRIMARY KEY, originAttributes TEXT NOT NULL DEFAULT '', name TEXT, value TEXT,
+    host TEXT, path TEXT, expiry INTEGER, lastAccessed INTEGER, creationTime INTEGER
+  )`);
+  const insert = db.prepare("INSERT INTO moz_cookies (name, value, host, lastAccessed) VALUES (?, ?, ?, ?)");
+  insert.run("sessionid", "old", ".instagram.com", 1);
+  insert.run("sessionid", "123%3Aabc", ".instagram.com", 3);
+  insert.run("csrftoken", "tok", "www.instagram.com", 2);
+  insert.run("sessionid", "other", ".notinstagram.com", 4);
+  return db;
+};
+
+// Encrypts like Chromium on Linux without a keyring
+const encryptV10 = (value: string, host: string, dbVersion: number): Uint8Array => {
+  const key = pbkdf2Sync("peanuts", "saltysalt", 1, 16, "sha1");
+  const cipher = createCipheriv("aes-128-cbc", key, Buffer.alloc(16, " "));
+  const plain = Buffer.concat([
+    dbVersion >= 24 ? createHash("sha256").update(host).digest() : Buffer.alloc(0),
+    Buffer.from(value),
+  ]);
+  return Buffer.concat([Buffer.from("v10"), cipher.update(plain), cipher.final()]);
+};
+
+const createChromiumDb = (
+  file: string,
+  dbVersion: number,
+  rows: readonly [host: string, name: string, value: string, encrypted: Uint8Array][]
+): void => {
+  const db = new Database(file, { create: true });
+  db.exec("CREATE TABLE meta (key LONGVARCHAR NOT NULL UNIQUE PRIMARY KEY, value LONGVARCHAR)");
+  db.prepare("INSERT INTO meta VALUES ('version', ?)").run(String(dbVersion));
+  db.exec(`CREATE TABLE cookies (
+    creation_utc INTEGER NOT NULL DEFAULT 0, host_key TEXT NOT NULL, name TEXT NOT NULL,
+    value TEXT NOT NULL, encrypted_value BLOB NOT NULL DEFAULT '', last_access_utc INTEGER NOT NULL DEFAULT 0
+  )`);
+  const insert = db.prepare(
+    "INSERT INTO cookies (host_key, name, value, encrypted_value, last_access_utc) VALUES (?, ?, ?, ?, ?)"
+  );
+  for (const [i, row] of rows.entries()) {
+    insert.run(...row, i);
+  }
+  db.close();
+};
+
+describe("browser cookies", () => {
+  let dir: string;
+  const originalConfigHome = process.env["XDG_CONFIG_HOME"];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "instaloader-cookies-test-"));
+    process.env["XDG_CONFIG_HOME"] = dir;
+  });
+
+  afterEach(() => {
+    if (originalConfigHome === undefined) {
+      delete process.env["XDG_CONFIG_HOME"];
+    } else {
+      process.env["XDG_CONFIG_HOME"] = originalConfigHome;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("reads the Instagram cookies of a Firefox profile while Firefox holds it open", async () => {
+    const profile = join(dir, "abcd1234.default-release");
+    mkdirSync(profile);
+    const db = createFirefoxDb(join(profile, "cookies.sqlite"));
+    try {
+      const expected = { sessionid: "123%3Aabc", csrftoken: "tok" };
+      expect(await importCookies("firefox", { profile })).toEqual(expected);
+      expect(await importCookies("firefox", { profile: join(profile, "cookies.sqlite") })).toEqual(expected);
+    } finally {
+      db.close();
+    }
+  });
+
+  test("decrypts Chromium cookies encrypted with the peanuts key", async () => {
+    for (const dbVersion of [23, 24]) {
+      const file = join(dir, `Cookies-${dbVersion}`);
+      createChromiumDb(file, dbVersion, [
+        [".instagram.com", "sessionid", "", encryptV10("123%3Aabc", ".instagram.com", dbVersion)],
+        [".instagram.com", "csrftoken", "tok", new Uint8Array()],
+        [".example.com", "sessionid", "", encryptV10("other", ".example.com", dbVersion)],
+      ]);
+      expect(await importCookies("chrome", { profile: file })).toEqual({ sessionid: "123%3Aabc", csrftoken: "tok" });
+    }
+  });
+
+  test("skips Chromium cookies encrypted with a keyring key", async () => {
+    const v11 = (value: string) => {
+      const encrypted = encryptV10(value, ".instagram.com", 24);
+      encrypted.set(Buffer.from("v11"));
+      return encrypted;
+    };
+    const file = join(dir, "Cookies");
+    createChromiumDb(file, 24, [
+      [".instagram.com", "sessionid", "123%3Aabc", new Uint8Array()],
+      [".instagram.com", "rur", "", v11("x")],
+    ]);
+    const context = await run(makeInstaloaderContext({ quiet: true, iphoneSupport: false }));
+    const warnings: string[] = [];
+    const session = importBrowserSessionEffect(
+      {
+        ...context,
+        testLogin: Effect.succeed("user"),
+        error: (msg: string) => Effect.sync(() => void warnings.push(msg)),
+      },
+      "chrome",
+      { profile: file }
+    );
+    expect(await run(Effect.provide(session, PlatformLayer))).toBe("user");
+    expect(await run(context.saveSession)).toMatchObject({ sessionid: "123%3Aabc" });
+    expect(warnings).toEqual([expect.stringContaining("cannot be decrypted")]);
+    expect(warnings[0]).toEndWith(": rur");
+
+    const keyringOnly = join(dir, "Cookies-keyring");
+    createChromiumDb(keyringOnly, 24, [[".instagram.com", "sessionid", "", v11("123%3Aabc")]]);
+    const error = await importError("chromium", { profile: keyringOnly });
+    expect(error._tag).toBe("InstaloaderError");
+    expect(error.message).toStartWith(`Cannot decrypt the Instagram session cookie of ${keyringOnly}`);
+    expect(error.message).toContain("on Linux without a keyring");
+  });
+
+  test("finds the most recently used profile of a browser", async () => {
+    const older = join(dir, "chromium", "Default");
+    const newer = join(dir, "chromium", "Profile 1", "Network");
+    mkdirSync(older, { recursive: true });
+    mkdirSync(newer, { recursive: true });
+    createChromiumDb(join(older, "Cookies"), 24, [[".instagram.com", "sessionid", "old", new Uint8Array()]]);
+    createChromiumDb(join(newer, "Cookies"), 24, [[".instagram.com", "sessionid", "new", new Uint8Array()]]);
+    utimesSync(join(older, "Cookies"), 1000, 1000);
+
+    const file = await run(Effect.provide(findBrowserCookiesFileEffect("chromium"), PlatformLayer));
+    expect(file).toBe(join(newer, "Cookies"));
+    expect(await importCookies("chromium")).toEqual({ sessionid: "new" });
+    expect((await importError("brave")).message).toStartWith("No Brave cookie database found");
+
+    const loggedOut = join(dir, "Cookies-logged-out");
+    createChromiumDb(loggedOut, 24, [[".instagram.com", "csrftoken", "tok", new Uint8Array()]]);
+    expect((await importError("vivaldi", { profile: loggedOut })).message).toBe(
+      `No Instagram session in ${loggedOut}. Are you logged in to Instagram in Vivaldi?`
+    );
+  });
+
+  test("uses the imported session if it is logged in", async () => {
+    const file = join(dir, "Cookies");
+    createChromiumDb(file, 24, [[".instagram.com", "sessionid", "123%3Aabc", new Uint8Array()]]);
+    const context = await run(makeInstaloaderContext({ quiet: true, iphoneSupport: false }));
+    const importSession = (username: string | null) =>
+      Effect.provide(
+        importBrowserSessionEffect({ ...context, testLogin: Effect.succeed(username) }, "edge", { profile: file }),
+        PlatformLayer
+      );
+
+    const error = await run(Effect.flip(importSession(null)));
+    expect(error._tag).toBe("LoginError");
+    expect(error.message).toBe("Not logged in. Are you logged in successfully in Edge?");
+
+    expect(await run(importSession("user"))).toBe("user");
+    expect(await run(context.getUsername)).toBe("user");
+    expect(await run(context.saveSession)).toMatchObject({ sessionid: "123%3Aabc" });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, test, expect } from "bun:test";
+import { Effect } from "effect";
+import { parseCliArgs, parseTarget } from "../src/cli/args.ts";
+import { main, ExitCode } from "../src/cli/main.ts";
+
+const parse = (...argv: string[]) => Effect.runPromise(parseCliArgs(argv));
+const parseError = (...argv: string[]) => Effect.runPromise(Effect.flip(parseCliArgs(argv)));
+
+describe("parseTarget", () => {
+  test("recognizes the target syntax of Python instaloader", async () => {
+    const targets = await Effect.runPromise(
+      Effect.all(
+        ["Instagram", "#cats", "%213385402", ":feed", ":stories", ":saved", "-B_K4CykAOtf", "@instagram", "profile/"].map(
+          parseTarget
+        )
+      )
+    );
+    expect(targets).toEqual([
+      { kind: "profile", name: "instagram" },
+      { kind: "hashtag", name: "cats" },
+      { kind: "location", id: "213385402" },
+      { kind: "feed" },
+      { kind: "stories" },
+      { kind: "saved" },
+      { kind: "post", shortcode: "B_K4CykAOtf" },
+      { kind: "followees", profile: "instagram" },
+      { kind: "profile", name: "profile" },
+    ]);
+  });
+
+  test("rejects targets it does not understand", async () => {
+    for (const target of [":tagged", "%abc", "not a profile", "#"]) {
+      const error = await Effect.runPromise(Effect.flip(parseTarget(target)));
+      expect(error.message).toBe(`Target ${target} is not understood.`);
+    }
+  });
+});
+
+describe("parseCliArgs", () => {
+  test("maps flags onto the loader and profile download options", async () => {
+    const args = await parse(
+      "-F",
+      "--no-videos",
+      "--comments",
+      "-G",
+      "--dirname-pattern",
+      "{profile}/{target}",
+      "--post-filter=likes > 500",
+      "--request-timeout",
+      "30",
+      "--no-resume",
+      "--stories",
+      "instagram",
+      "#cats"
+    );
+    expect(args.targets).toEqual([
+      { kind: "profile", name: "instagram" },
+      { kind: "hashtag", name: "cats" },
+    ]);
+    expect(args.loaderOptions).toEqual({
+      downloadVideos: false,
+      downloadComments: true,
+      downloadGeotags: true,
+      dirnamePattern: "{profile}/{target}",
+      requestTimeout: 30000,
+      resumePrefix: null,
+    });
+    expect(args.profileOptions).toEqual({ fastUpdate: true, postFilter: "likes > 500", stories: true });
+  });
+
+  test("reads login options and treats arguments after -- as targets", async () => {
+    const args = await parse("--login", "User", "-f", "/tmp/session", "--", "-B_K4CykAOtf", "--help");
+    expect(args.login).toBe("user");
+    expect(args.sessionfile).toBe("/tmp/session");
+    expect(args.help).toBe(false);
+    expect(args.targets).toEqual([
+      { kind: "post", shortcode: "B_K4CykAOtf" },
+      { kind: "post", shortcode: "-help" },
+    ]);
+  });
+
+  test("reads the browser to load cookies from", async () => {
+    const args = await parse("-b", "Firefox", "--cookiefile", "/tmp/profile", ":saved");
+    expect(args.loadCookies).toBe("firefox");
+    expect(args.cookiefile).toBe("/tmp/profile");
+    expect((await parseError("--load-cookies=safari")).message).toBe("Invalid value for --load-cookies: safari");
+  });
+
+  test("uses the default latest-stamps file only without a value", async () => {
+    expect((await parse("--latest-stamps=stamps.ini", "x")).loaderOptions.latestStamps).toBe("stamps.ini");
+    const args = await parse("--latest-stamps", "my.ini", "instagram");
+    expect(args.loaderOptions.latestStamps).toBe("my.ini");
+    expect(args.targets).toEqual([{ kind: "profile", name: "instagram" }]);
+    for (const argv of [["--latest-stamps", "-F", "instagram"], ["instagram", "--latest-stamps"]]) {
+      const defaulted = await parse(...argv);
+      expect(defaulted.loaderOptions.latestStamps).toEndWith("latest-stamps.ini");
+      expect(defaulted.targets).toEqual([{ kind: "profile", name: "instagram" }]);
+    }
+  });
+
+  test("rejects unknown options, missing values and invalid numbers", async () => {
+    expect((await parseError("-B_K4CykAOtf")).message).toContain('after "--"');
+    expect((await parseError("--dirname-pattern")).message).toBe("Option --dirname-pattern requires a value.");
+    expect((await parseError("--quiet=yes")).message).toBe("Option --quiet does not take a value.");
+    expect((await parseError("--download-concurrency", "0")).argument).toBe("--download-concurrency");
+  });
+});
+
+describe("main", () => {
+  test("fails with the init failure exit code on invalid arguments", async () => {
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      expect(await main([])).toBe(ExitCode.InitFailure);
+      expect(await main(["--post-filter", "unknown_field", "instagram"])).toBe(ExitCode.InitFailure);
+    } finally {
+      console.error = originalError;
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Chunk, Effect, Stream } from "effect";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { makeInstaloaderContext, PlatformLayer, postFromNodeSync } from "../src/index.ts";
+import { postGetCommentsStream, postCommentToDict } from "../src/structures/index.ts";
+import { defaultConfig, downloadPostEffect } from "../src/core/instaloader.ts";
+
+const commentNode = (id: string, createdAt: number, answers: Record<string, unknown>[] = []) => ({
+  id,
+  created_at: createdAt,
+  text: `comment ${id}`,
+  owner: { id: "1", username: "commenter" },
+  edge_liked_by: { count: 3 },
+  edge_threaded_comments: {
+    count: answers.length,
+    edges: answers.map((node) => ({ node })),
+  },
+});
+
+const postWithComments = (comments: Record<string, unknown>[], count: number) =>
+  postFromNodeSync({
+    __typename: "GraphImage",
+    shortcode: "B_K4CykAOtf",
+    id: "2275036226478860127",
+    display_url: "https://example.com/image.jpg",
+    is_video: false,
+    taken_at_timestamp: 1584722760,
+    edge_media_to_comment: { count, edges: comments.map((node) => ({ node })) },
+  });
+
+describe("Post comments", () => {
+  test("yields inline comments with their answers without querying", async () => {
+    const post = postWithComments(
+      [commentNode("20", 200, [commentNode("21", 210)]), commentNode("10", 100)],
+      3,
+    );
+    const context = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+    const comments = Chunk.toReadonlyArray(
+      await Effect.runPromise(Stream.runCollect(postGetCommentsStream(context, post))),
+    );
+
+    expect(comments.map((c) => c.id)).toEqual([20, 10]);
+    expect(comments[0]!.answers.map((a) => a.id)).toEqual([21]);
+    expect(comments[0]!.likesCount).toBe(3);
+    expect(comments[0]!.createdAtUtc.getTime()).toBe(200_000);
+  });
+
+  test("yields nothing for posts without comments", async () => {
+    const post = postWithComments([], 0);
+    const context = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+    const comments = await Effect.runPromise(Stream.runCollect(postGetCommentsStream(context, post)));
+    expect(Chunk.size(comments)).toBe(0);
+  });
+
+  test("commentToDict uses the Python instaloader layout", () => {
+    const dict = postCommentToDict({
+      id: 1,
+      createdAtUtc: new Date(5000),
+      text: "hi",
+      owner: { node: { id: "2", username: "u" }, iphoneStruct: null },
+      likesCount: 0,
+      answers: [],
+    });
+    expect(dict).toEqual({
+      id: 1,
+      created_at: 5,
+      text: "hi",
+      owner: { id: "2", username: "u" },
+      likes_count: 0,
+      answers: [],
+    });
+  });
+
+  describe("downloadPostEffect", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "instaloader-ts-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("merges comments into an existing _comments.json", async () => {
+      const filename = join(dir, "B_K4CykAOtf_comments.json");
+      writeFileSync(
+        filename,
+        JSON.stringify([
+          { id: 5, created_at: 50, text: "old", owner: {}, likes_count: 0, answers: [] },
+          {
+            id: 20,
+            created_at: 200,
+            text: "comment 20",
+            owner: {},
+            likes_count: 0,
+            answers: [{ id: 22, created_at: 220, text: "old answer", owner: {}, likes_count: 0 }],
+          },
+        ]),
+      );
+
+      const post = postWithComments([commentNode("20", 200, [commentNode("21", 210)])], 2);
+      const config = {
+        ...defaultConfig,
+        dirnamePattern: dir,
+        filenamePattern: "{shortcode}",
+        downloadPictures: false,
+        downloadVideos: false,
+        saveMetadata: false,
+        downloadComments: true,
+      };
+      const context = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+      await Effect.runPromise(
+        Effect.provide(downloadPostEffect(context, config, post, "target"), PlatformLayer),
+      );
+
+      const saved = JSON.parse(readFileSync(filename, "utf8")) as Array<Record<string, unknown>>;
+      expect(saved.map((c) => c["id"])).toEqual([20, 5]);
+      const answers = saved[0]!["answers"] as Array<Record<string, unknown>>;
+      expect(answers.map((a) => a["id"])).toEqual([22, 21]);
+    });
+  });
+});
@@ -157,5 +157,27 @@ describe("InstaloaderContext", () => {
         })
       );
     });
+
+    test("sends concurrent queries one at a time", async () => {
+      const originalFetch = globalThis.fetch;
+      let inFlight = 0;
+      let maxInFlight = 0;
+      globalThis.fetch = (async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        inFlight--;
+        return new Response(JSON.stringify({ status: "ok" }));
+      }) as unknown as typeof fetch;
+      try {
+        const ctx = await Effect.runPromise(makeInstaloaderContext({ sleep: false, quiet: true }));
+        await Effect.runPromise(
+          Effect.all([ctx.getJson("a/", {}), ctx.getJson("b/", {}), ctx.getJson("c/", {})], { concurrency: 3 })
+        );
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+      expect(maxInFlight).toBe(1);
+    });
   });
 });
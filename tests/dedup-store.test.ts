@@ -0,0 +1,91 @@
+import { describe, test, expect } from "bun:test";
+import { Effect } from "effect";
+import { lstatSync, mkdirSync, readFileSync, readlinkSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  makeInstaloaderConfig,
+  makeDedupStore,
+  downloadPostEffect,
+  PlatformLayer,
+  type DedupLinkMode,
+} from "../src/effect/index.ts";
+import { makePost, makeTestContext, useTempDir } from "./helpers.ts";
+
+describe("content deduplication", () => {
+  const dir = useTempDir("instaloader-dedup-");
+
+  const downloadTwice = async (dedupLinks: DedupLinkMode) => {
+    const context = await makeTestContext();
+    const config = await Effect.runPromise(
+      makeInstaloaderConfig({
+        dirnamePattern: join(dir(), "{target}"),
+        filenamePattern: "{shortcode}",
+        saveMetadata: false,
+        dedupIndex: join(dir(), `${dedupLinks}.sha256`),
+        dedupLinks,
+      }),
+    );
+    for (const [shortcode, target] of [
+      ["A", "instagram"],
+      ["B", "#cats"],
+    ] as const) {
+      await Effect.runPromise(
+        downloadPostEffect(context, config, makePost(shortcode), target).pipe(Effect.provide(PlatformLayer)),
+      );
+    }
+    return { stored: join(dir(), "instagram", "A.jpg"), duplicate: join(dir(), "#cats", "B.jpg") };
+  };
+
+  test("hardlinks a duplicate to the stored file and records new files", async () => {
+    const { stored, duplicate } = await downloadTwice("hardlink");
+
+    expect(statSync(duplicate).ino).toBe(statSync(stored).ino);
+    expect(readFileSync(join(dir(), "hardlink.sha256"), "utf8")).toMatch(/^[0-9a-f]{64} {2}instagram\/A\.jpg\n$/);
+  });
+
+  test("symlinks a duplicate with a relative path", async () => {
+    const { duplicate } = await downloadTwice("symlink");
+
+    expect(lstatSync(duplicate).isSymbolicLink()).toBe(true);
+    expect(readlinkSync(duplicate)).toBe(join("..", "instagram", "A.jpg"));
+  });
+
+  test("rebuilds the index from the target directories", async () => {
+    mkdirSync(join(dir(), "a"));
+    mkdirSync(join(dir(), "b"));
+    writeFileSync(join(dir(), "a", "1.jpg"), "same");
+    writeFileSync(join(dir(), "b", "2.jpg"), "same");
+    writeFileSync(join(dir(), "b", "3.mp4"), "other");
+    writeFileSync(join(dir(), "b", "3.json"), "{}");
+    writeFileSync(join(dir(), "b", "4.mp4.part"), "partial");
+    writeFileSync(join(dir(), "b", "id"), "123");
+    writeFileSync(join(dir(), "b", "manifest.db"), "database");
+    writeFileSync(join(dir(), "b", "manifest.db-wal"), "log");
+
+    const store = await Effect.runPromise(makeDedupStore(join(dir(), "index.sha256")).pipe(Effect.provide(PlatformLayer)));
+    const count = await Effect.runPromise(
+      store
+        .rebuild([join(dir(), "a"), join(dir(), "b")], ["manifest.db", "manifest.db-wal"])
+        .pipe(Effect.provide(PlatformLayer)),
+    );
+
+    expect(count).toBe(2);
+    const lines = readFileSync(join(dir(), "index.sha256"), "utf8").trim().split("\n");
+    expect(lines.map((line) => line.slice(66))).toEqual(["a/1.jpg", "b/3.mp4"]);
+  });
+
+  test("stores files of the same content deduplicated at the same time once", async () => {
+    const paths = ["1.jpg", "2.jpg", "3.jpg"].map((name) => join(dir(), name));
+    for (const path of paths) {
+      writeFileSync(path, "same");
+    }
+
+    const store = await Effect.runPromise(makeDedupStore(join(dir(), "index.sha256")).pipe(Effect.provide(PlatformLayer)));
+    const stored = await Effect.runPromise(
+      Effect.forEach(paths, store.deduplicate, { concurrency: "unbounded" }).pipe(Effect.provide(PlatformLayer)),
+    );
+
+    expect(stored.filter((path) => path === null)).toHaveLength(1);
+    expect(readFileSync(join(dir(), "index.sha256"), "utf8").trim().split("\n")).toHaveLength(1);
+  });
+});
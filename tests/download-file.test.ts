@@ -0,0 +1,135 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Chunk, Effect, PubSub } from "effect";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Instaloader } from "../src/index.ts";
+import {
+  makeInstaloaderContext,
+  downloadFileEffect,
+  PlatformLayer,
+  type InstaloaderContextShape,
+} from "../src/effect/index.ts";
+
+const content = new TextEncoder().encode("0123456789");
+
+/** Serves `content`, honouring `Range` requests unless `ignoreRange` is set. */
+const makeContext = async (options: { ignoreRange?: boolean; truncateAt?: number } = {}) => {
+  const base = await Effect.runPromise(makeInstaloaderContext({ quiet: true, iphoneSupport: false }));
+  const ranges: string[] = [];
+  const context: InstaloaderContextShape = {
+    ...base,
+    getRaw: (_url, headers = {}) =>
+      Effect.sync(() => {
+        const range = headers["Range"];
+        if (range !== undefined) {
+          ranges.push(range);
+        }
+        const start = range !== undefined && !options.ignoreRange ? Number(/^bytes=(\d+)-$/.exec(range)![1]) : 0;
+        const body = content.slice(start, options.truncateAt ?? content.length);
+        return new Response(body, {
+          status: start > 0 ? 206 : 200,
+          headers: {
+            "Content-Length": String(content.length - start),
+            ...(start > 0 ? { "Content-Range": `bytes ${start}-${content.length - 1}/${content.length}` } : {}),
+          },
+        });
+      }),
+  };
+  return { context, ranges };
+};
+
+describe("downloadFileEffect", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "instaloader-file-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const download = (context: InstaloaderContextShape, target: string) =>
+    Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const progress = yield* PubSub.subscribe(context.downloadProgress);
+          const result = yield* Effect.either(downloadFileEffect(context, "https://example.com/file.mp4", target));
+          return { result, progress: Chunk.toArray(yield* progress.takeAll) };
+        }),
+      ).pipe(Effect.provide(PlatformLayer)),
+    );
+
+  test("streams into a .part file and renames it, publishing progress", async () => {
+    const { context, ranges } = await makeContext();
+    const target = join(dir, "file.mp4");
+
+    const { result, progress } = await download(context, target);
+
+    expect(result._tag).toBe("Right");
+    expect(readFileSync(target)).toEqual(Buffer.from(content));
+    expect(existsSync(`${target}.part`)).toBe(false);
+    expect(ranges).toEqual([]);
+    expect(progress.at(-1)).toEqual({ url: "https://example.com/file.mp4", file: target, bytes: 10, total: 10 });
+  });
+
+  test("resumes a partial download with a Range request", async () => {
+    const { context, ranges } = await makeContext();
+    const target = join(dir, "file.mp4");
+    writeFileSync(`${target}.part`, content.slice(0, 4));
+
+    const { result, progress } = await download(context, target);
+
+    expect(result._tag).toBe("Right");
+    expect(ranges).toEqual(["bytes=4-"]);
+    expect(readFileSync(target)).toEqual(Buffer.from(content));
+    expect(progress.at(-1)).toMatchObject({ bytes: 10, total: 10 });
+  });
+
+  test("starts over if the server ignores the Range request", async () => {
+    const { context } = await makeContext({ ignoreRange: true });
+    const target = join(dir, "file.mp4");
+    writeFileSync(`${target}.part`, "xxxx");
+
+    const { result } = await download(context, target);
+
+    expect(result._tag).toBe("Right");
+    expect(readFileSync(target)).toEqual(Buffer.from(content));
+  });
+
+  test("keeps the .part file of an incomplete download", async () => {
+    const { context } = await makeContext({ truncateAt: 6 });
+    const target = join(dir, "file.mp4");
+
+    const { result } = await download(context, target);
+
+    expect(result._tag === "Left" && result.left._tag).toBe("ConnectionError");
+    expect(existsSync(target)).toBe(false);
+    expect(readFileSync(`${target}.part`)).toEqual(Buffer.from(content.slice(0, 6)));
+  });
+});
+
+describe("Instaloader.onDownloadProgress", () => {
+  test("delivers progress events until unsubscribed", async () => {
+    const created = await Instaloader.create({ quiet: true });
+    if (!created.ok) throw created.error;
+    const loader = created.value;
+    const received: number[] = [];
+    const unsubscribe = loader.onDownloadProgress((progress) => received.push(progress.bytes));
+    const publish = (bytes: number) =>
+      Effect.runPromise(
+        PubSub.publish(loader.context.downloadProgress, { url: "u", file: "f", bytes, total: null }),
+      );
+
+    await publish(1);
+    await publish(2);
+    await Bun.sleep(10);
+    unsubscribe();
+    await Bun.sleep(10);
+    await publish(3);
+    await Bun.sleep(10);
+
+    expect(received).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test, expect } from "bun:test";
+import { Effect } from "effect";
+import { readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  makeInstaloaderConfig,
+  downloadPostEffect,
+  PlatformLayer,
+  postFromNodeSync,
+  type InstaloaderContextShape,
+} from "../src/effect/index.ts";
+import { makePost, makeTestContext, useTempDir } from "./helpers.ts";
+
+const captionedPost = (caption: string) =>
+  makePost("B_K4CykAOtf", {
+    owner: { id: "25025320", username: "instagram" },
+    edge_media_to_caption: { edges: [{ node: { text: caption } }] },
+  });
+
+describe("downloadPostEffect", () => {
+  const dir = useTempDir("instaloader-post-");
+
+  const download = async (caption: string, pattern?: string) => {
+    const context = await makeTestContext();
+    const config = await Effect.runPromise(
+      makeInstaloaderConfig({ dirnamePattern: join(dir(), "{target}"), postMetadataTxtPattern: pattern }),
+    );
+    await Effect.runPromise(
+      downloadPostEffect(context, config, captionedPost(caption), "instagram").pipe(Effect.provide(PlatformLayer)),
+    );
+    return join(dir(), "instagram", "2020-03-20_16-46-00_UTC.txt");
+  };
+
+  test("writes the caption file with the post date as mtime", async () => {
+    const txt = await download("Hello World #cats");
+    expect(readFileSync(txt, "utf8")).toBe("Hello World #cats\n");
+    expect(statSync(txt).mtime.getTime()).toBe(1584722760 * 1000);
+  });
+
+  test("keeps an identical caption file and replaces a changed one", async () => {
+    const txt = await download("first");
+    writeFileSync(txt, "first\r\n");
+    await download("first");
+    expect(readFileSync(txt, "utf8")).toBe("first\r\n");
+
+    await download("second");
+    expect(readFileSync(txt, "utf8")).toBe("second\n");
+  });
+
+  test("expands the pattern and skips empty results", async () => {
+    const txt = await download("caption", "{shortcode} by {owner_username}");
+    expect(readFileSync(txt, "utf8")).toBe("B_K4CykAOtf by instagram\n");
+
+    rmSync(txt);
+    await download("caption", "  ");
+    expect(() => statSync(txt)).toThrow();
+  });
+
+  test("downloads sidecar slides concurrently up to downloadConcurrency", async () => {
+    const base = await makeTestContext();
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const context: InstaloaderContextShape = {
+      ...base,
+      getRaw: (url) =>
+        Effect.gen(function* () {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          yield* Effect.sleep("20 millis");
+          inFlight--;
+          return yield* base.getRaw(url);
+        }),
+    };
+    const post = postFromNodeSync({
+      __typename: "GraphSidecar",
+      shortcode: "B_K4CykAOtf",
+      id: "2275036226478860127",
+      display_url: "https://example.com/image.jpg",
+      is_video: false,
+      taken_at_timestamp: 1584722760,
+      edge_sidecar_to_children: {
+        edges: [1, 2, 3, 4].map((n) => ({
+          node: { display_url: `https://example.com/slide${n}.jpg`, is_video: false },
+        })),
+      },
+    });
+    const config = await Effect.runPromise(
+      makeInstaloaderConfig({ dirnamePattern: dir(), filenamePattern: "{shortcode}", saveMetadata: false, downloadConcurrency: 3 }),
+    );
+
+    const downloaded = await Effect.runPromise(
+      downloadPostEffect(context, config, post, "instagram").pipe(Effect.provide(PlatformLayer)),
+    );
+
+    expect(downloaded).toBe(true);
+    expect(maxInFlight).toBe(3);
+    expect(readdirSync(dir()).sort()).toEqual([1, 2, 3, 4].map((n) => `B_K4CykAOtf_${n}.jpg`));
+  });
+});
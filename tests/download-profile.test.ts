@@ -0,0 +1,548 @@
+import { describe, test, expect } from "bun:test";
+import { Effect } from "effect";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  makeInstaloaderConfig,
+  downloadProfileEffect,
+  downloadProfilePicEffect,
+  downloadFeedPostsEffect,
+  downloadSavedPostsEffect,
+  checkProfileIdEffect,
+  loadMetadataJsonEffect,
+  PlatformLayer,
+  AbortDownloadError,
+  BadResponseError,
+  ConnectionError,
+  type InstaloaderContextShape,
+} from "../src/effect/index.ts";
+import type { ProfileData } from "../src/structures/index.ts";
+import { jpegResponse, makeTestContext, postNode, useTempDir } from "./helpers.ts";
+
+const makeProfile = (node: Record<string, unknown>): ProfileData => ({
+  node: {
+    id: "25025320",
+    username: "instagram",
+    profile_pic_url_hd: "https://example.com/pic.jpg?x=1",
+    edge_owner_to_timeline_media: {
+      count: 2,
+      edges: [{ node: postNode("B", 1584722760) }, { node: postNode("A", 1584636360) }],
+      page_info: { has_next_page: false, end_cursor: null },
+    },
+    ...node,
+  },
+  iphoneStruct: null,
+});
+
+const makeContext = (loggedIn: boolean): Promise<InstaloaderContextShape> => {
+  const offline = () => Effect.fail(new BadResponseError({ message: "offline" }));
+  return makeTestContext(
+    {
+      graphqlQuery: offline,
+      docIdGraphqlQuery: offline,
+      getIphoneJson: offline,
+      getRaw: () => Effect.succeed(jpegResponse({ "Last-Modified": "Fri, 20 Mar 2020 16:46:00 GMT" })),
+    },
+    { loggedIn },
+  );
+};
+
+describe("downloadProfileEffect", () => {
+  const dir = useTempDir("instaloader-ts-");
+
+  const config = () =>
+    Effect.runSync(
+      makeInstaloaderConfig({ dirnamePattern: join(dir(), "{target}"), filenamePattern: "{shortcode}", saveMetadata: false }),
+    );
+
+  test("downloads profile picture and posts and reports skipped sections", async () => {
+    const context = await makeContext(false);
+    const summary = await Effect.runPromise(
+      Effect.provide(downloadProfileEffect(context, config(), makeProfile({}), { stories: true }), PlatformLayer),
+    );
+
+    expect(summary.profile).toBe("instagram");
+    expect(summary.sections.profilePic).toEqual({ fetched: 1, downloaded: 1, failed: 0 });
+    expect(summary.sections.posts).toEqual({ fetched: 2, downloaded: 2, failed: 0 });
+    expect(summary.skipped).toEqual([{ section: "stories", reason: "Login required." }]);
+
+    const pic = join(dir(), "instagram", "2020-03-20_16-46-00_UTC_profile_pic.jpg");
+    expect(existsSync(pic)).toBe(true);
+    expect(statSync(pic).mtime.getTime()).toBe(Date.UTC(2020, 2, 20, 16, 46));
+    expect(readdirSync(join(dir(), "instagram")).sort()).toEqual([
+      "2020-03-20_16-46-00_UTC_profile_pic.jpg",
+      "A.jpg",
+      "B.jpg",
+      "id",
+    ]);
+  });
+
+  test("skips content of private profiles that are not followed", async () => {
+    const context = await makeContext(true);
+    const summary = await Effect.runPromise(
+      Effect.provide(
+        downloadProfileEffect(context, config(), makeProfile({ is_private: true, followed_by_viewer: false }), {
+          tagged: true,
+        }),
+        PlatformLayer,
+      ),
+    );
+
+    expect(summary.sections.posts).toBeUndefined();
+    expect(summary.sections.profilePic?.downloaded).toBe(1);
+    expect(summary.skipped).toEqual([
+      { section: "tagged", reason: "Private but not followed." },
+      { section: "posts", reason: "Private but not followed." },
+    ]);
+  });
+
+  test("saves resume information when aborted and resumes from it", async () => {
+    const base = await makeContext(false);
+    let queries = 0;
+    const withSecondPage = (abortOn: string | null): InstaloaderContextShape => ({
+      ...base,
+      graphqlQuery: () => {
+        queries++;
+        return Effect.succeed({
+          data: {
+            user: {
+              edge_owner_to_timeline_media: {
+                edges: [{ node: postNode("C", 1584550000) }],
+                page_info: { has_next_page: false, end_cursor: null },
+              },
+            },
+          },
+        });
+      },
+      getRaw: (url) =>
+        abortOn !== null && url.includes(abortOn)
+          ? Effect.fail(new AbortDownloadError({ message: "429 Too Many Requests" }))
+          : base.getRaw(url),
+    });
+    const profile = makeProfile({
+      edge_owner_to_timeline_media: {
+        count: 3,
+        edges: [{ node: postNode("B", 1584722760) }, { node: postNode("A", 1584636360) }],
+        page_info: { has_next_page: true, end_cursor: "cursor" },
+      },
+    });
+    const run = (context: InstaloaderContextShape) =>
+      Effect.runPromise(Effect.either(Effect.provide(downloadProfileEffect(context, config(), profile), PlatformLayer)));
+    const resumeFiles = () => readdirSync(join(dir(), "instagram")).filter((name) => name.startsWith("iterator_"));
+
+    const aborted = await run(withSecondPage("C.jpg"));
+    expect(aborted._tag).toBe("Left");
+    expect(resumeFiles()).toHaveLength(1);
+    expect(resumeFiles()[0]).toMatch(/^iterator_.+\.json\.xz$/);
+    const saved = await Effect.runPromise(
+      Effect.provide(loadMetadataJsonEffect(join(dir(), "instagram", resumeFiles()[0]!)), PlatformLayer),
+    );
+    expect(saved["instaloader"]).toMatchObject({ node_type: "FrozenNodeIterator" });
+    expect(saved["node"]).toMatchObject({ query_hash: "7950326061742207", total_index: 2 });
+
+    queries = 0;
+    const resumed = await run(withSecondPage(null));
+    expect(resumed._tag).toBe("Right");
+    if (resumed._tag === "Right") {
+      expect(resumed.right.sections.posts).toEqual({ fetched: 1, downloaded: 1, failed: 0 });
+    }
+    expect(queries).toBe(0);
+    expect(resumeFiles()).toEqual([]);
+    expect(existsSync(join(dir(), "instagram", "C.jpg"))).toBe(true);
+  });
+
+  test("keeps the resume information when a query fails", async () => {
+    const base = await makeContext(false);
+    const failingQuery = (fail: boolean): InstaloaderContextShape => ({
+      ...base,
+      graphqlQuery: () =>
+        fail
+          ? Effect.fail(new ConnectionError({ message: "Connection reset" }))
+          : Effect.succeed({
+              data: {
+                user: {
+                  edge_owner_to_timeline_media: {
+                    edges: [{ node: postNode("C", 1584550000) }],
+                    page_info: { has_next_page: false, end_cursor: null },
+                  },
+                },
+              },
+            }),
+    });
+    const profile = makeProfile({
+      edge_owner_to_timeline_media: {
+        count: 3,
+        edges: [{ node: postNode("B", 1584722760) }, { node: postNode("A", 1584636360) }],
+        page_info: { has_next_page: true, end_cursor: "cursor" },
+      },
+    });
+    const run = (context: InstaloaderContextShape) =>
+      Effect.runPromise(
+        Effect.either(Effect.provide(downloadProfileEffect(context, config(), profile, { profilePic: false }), PlatformLayer)),
+      );
+    const resumeFiles = () => readdirSync(join(dir(), "instagram")).filter((name) => name.startsWith("iterator_"));
+
+    const failed = await run(failingQuery(true));
+    expect(failed._tag === "Left" && failed.left).toMatchObject({ _tag: "ConnectionError" });
+    expect(resumeFiles()).toHaveLength(1);
+
+    const resumed = await run(failingQuery(false));
+    expect(resumed._tag === "Right" && resumed.right.sections.posts).toEqual({ fetched: 2, downloaded: 1, failed: 0 });
+    expect(resumeFiles()).toEqual([]);
+    expect(existsSync(join(dir(), "instagram", "C.jpg"))).toBe(true);
+  });
+
+  test("resumes saved posts", async () => {
+    const base = await makeContext(true);
+    let firstPageQueries = 0;
+    const savedPosts = (failNextPage: boolean): InstaloaderContextShape => ({
+      ...base,
+      getIphoneJson: () => Effect.succeed({ data: { user: { id: "1", username: "viewer" } } }),
+      graphqlQuery: (_queryHash, variables) => {
+        if (variables["after"] === undefined) {
+          firstPageQueries++;
+        } else if (failNextPage) {
+          return Effect.fail(new ConnectionError({ message: "Connection reset" }));
+        }
+        const edges =
+          variables["after"] === undefined
+            ? [postNode("B", 1584722760), postNode("A", 1584636360)]
+            : [postNode("C", 1584550000)];
+        return Effect.succeed({
+          data: {
+            user: {
+              edge_saved_media: {
+                edges: edges.map((node) => ({ node })),
+                page_info: { has_next_page: variables["after"] === undefined, end_cursor: "cursor" },
+              },
+            },
+          },
+        });
+      },
+    });
+    const run = (context: InstaloaderContextShape) =>
+      Effect.runPromise(Effect.either(Effect.provide(downloadSavedPostsEffect(context, config()), PlatformLayer)));
+    const resumeFiles = () => readdirSync(join(dir(), ":saved")).filter((name) => name.startsWith("iterator_"));
+
+    expect((await run(savedPosts(true)))._tag).toBe("Left");
+    expect(resumeFiles()).toHaveLength(1);
+
+    firstPageQueries = 0;
+    const resumed = await run(savedPosts(false));
+    expect(resumed._tag === "Right" && resumed.right).toEqual({ fetched: 2, downloaded: 1, failed: 0 });
+    expect(firstPageQueries).toBe(0);
+    expect(resumeFiles()).toEqual([]);
+    expect(readdirSync(join(dir(), ":saved")).sort()).toEqual(["A.jpg", "B.jpg", "C.jpg"]);
+  });
+
+  test("resumes at the oldest post in progress when posts download concurrently", async () => {
+    const base = await makeContext(false);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    // B is still in progress when A aborts the download
+    const aborting: InstaloaderContextShape = {
+      ...base,
+      getRaw: (url) =>
+        Effect.gen(function* () {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          if (url.includes("/B.jpg")) {
+            yield* Effect.sleep("200 millis");
+          }
+          if (url.includes("/A.jpg")) {
+            yield* Effect.sleep("20 millis");
+            return yield* Effect.fail(new AbortDownloadError({ message: "429 Too Many Requests" }));
+          }
+          return yield* base.getRaw(url);
+        }).pipe(Effect.ensuring(Effect.sync(() => inFlight--))),
+    };
+    const profile = makeProfile({
+      edge_owner_to_timeline_media: {
+        count: 3,
+        edges: [
+          { node: postNode("C", 1584800000) },
+          { node: postNode("B", 1584722760) },
+          { node: postNode("A", 1584636360) },
+        ],
+        page_info: { has_next_page: false, end_cursor: null },
+      },
+    });
+    const concurrentConfig = Effect.runSync(
+      makeInstaloaderConfig({
+        dirnamePattern: join(dir(), "{target}"),
+        filenamePattern: "{shortcode}",
+        saveMetadata: false,
+        downloadConcurrency: 3,
+      }),
+    );
+    const run = (context: InstaloaderContextShape) =>
+      Effect.runPromise(
+        Effect.either(
+          Effect.provide(downloadProfileEffect(context, concurrentConfig, profile, { profilePic: false }), PlatformLayer),
+        ),
+      );
+
+    expect((await run(aborting))._tag).toBe("Left");
+    expect(maxInFlight).toBeGreaterThan(1);
+    expect(readdirSync(join(dir(), "instagram")).filter((name) => name.startsWith("iterator_"))).toHaveLength(1);
+    expect(existsSync(join(dir(), "instagram", "B.jpg"))).toBe(false);
+
+    const resumed = await run(base);
+    expect(resumed._tag).toBe("Right");
+    if (resumed._tag === "Right") {
+      expect(resumed.right.sections.posts).toEqual({ fetched: 2, downloaded: 2, failed: 0 });
+    }
+    expect(readdirSync(join(dir(), "instagram")).filter((name) => name.endsWith(".jpg")).sort()).toEqual([
+      "A.jpg",
+      "B.jpg",
+      "C.jpg",
+    ]);
+  });
+
+
+  test("stops at the first existing post with fastUpdate, ignoring pinned posts", async () => {
+    const context = await makeContext(false);
+    const profileWith = (pinned: boolean) =>
+      makeProfile({
+        edge_owner_to_timeline_media: {
+          count: 3,
+          edges: [
+            { node: { ...postNode("P", 1584800000), pinned_for_users: pinned ? [{ id: "25025320" }] : [] } },
+            { node: postNode("B", 1584722760) },
+            { node: postNode("A", 1584636360) },
+          ],
+          page_info: { has_next_page: false, end_cursor: null },
+        },
+      });
+    const run = (pinned: boolean) =>
+      Effect.runPromise(
+        Effect.provide(
+          downloadProfileEffect(context, config(), profileWith(pinned), { profilePic: false, fastUpdate: true }),
+          PlatformLayer,
+        ),
+      );
+
+    mkdirSync(join(dir(), "instagram"), { recursive: true });
+    writeFileSync(join(dir(), "instagram", "P.jpg"), "");
+    expect((await run(false)).sections.posts).toEqual({ fetched: 1, downloaded: 0, failed: 0 });
+    expect((await run(true)).sections.posts).toEqual({ fetched: 3, downloaded: 2, failed: 0 });
+    expect((await run(true)).sections.posts).toEqual({ fetched: 2, downloaded: 0, failed: 0 });
+  });
+
+  test("downloads only posts matching the post filter and rejects unknown properties", async () => {
+    const context = await makeContext(false);
+    const run = (postFilter: string) =>
+      Effect.runPromise(
+        Effect.provide(
+          Effect.either(downloadProfileEffect(context, config(), makeProfile({}), { profilePic: false, postFilter })),
+          PlatformLayer,
+        ),
+      );
+
+    const summary = await run('date_utc > "2020-03-20" and not is_video');
+    expect(summary._tag === "Right" && summary.right.sections.posts).toEqual({ fetched: 1, downloaded: 1, failed: 0 });
+    expect(readdirSync(join(dir(), "instagram")).filter((name) => name.endsWith(".jpg"))).toEqual(["B.jpg"]);
+
+    const invalid = await run("followers > 10");
+    expect(invalid._tag === "Left" && invalid.left).toMatchObject({ _tag: "InvalidArgumentError" });
+  });
+
+  test("downloads the feed into :feed and stops early with fastUpdate", async () => {
+    const base = await makeContext(true);
+    const context: InstaloaderContextShape = {
+      ...base,
+      graphqlQuery: () =>
+        Effect.succeed({
+          data: {
+            user: {
+              edge_web_feed_timeline: {
+                edges: [{ node: postNode("B", 1584722760) }, { node: postNode("A", 1584636360) }],
+                page_info: { has_next_page: false, end_cursor: null },
+              },
+            },
+          },
+        }),
+    };
+    const run = () =>
+      Effect.runPromise(
+        Effect.provide(downloadFeedPostsEffect(context, config(), { fastUpdate: true }), PlatformLayer),
+      );
+
+    expect(await run()).toEqual({ fetched: 2, downloaded: 2, failed: 0 });
+    expect(readdirSync(join(dir(), ":feed")).sort()).toEqual(["A.jpg", "B.jpg"]);
+    expect(await run()).toEqual({ fetched: 1, downloaded: 0, failed: 0 });
+  });
+
+  test("downloads only posts newer than the latest stamps", async () => {
+    const context = await makeContext(false);
+    const stampsFile = join(dir(), "stamps.ini");
+    const stampsConfig = Effect.runSync(
+      makeInstaloaderConfig({ dirnamePattern: join(dir(), "{target}"), filenamePattern: "{shortcode}", saveMetadata: false, latestStamps: stampsFile }),
+    );
+    const run = (profile: ProfileData) =>
+      Effect.runPromise(Effect.provide(downloadProfileEffect(context, stampsConfig, profile), PlatformLayer));
+
+    expect((await run(makeProfile({}))).sections.posts).toEqual({ fetched: 2, downloaded: 2, failed: 0 });
+    expect(readFileSync(stampsFile, "utf8")).toContain("post-timestamp = 2020-03-20T16:46:00.000000+0000");
+
+    rmSync(join(dir(), "instagram"), { recursive: true });
+    const second = await run(
+      makeProfile({
+        edge_owner_to_timeline_media: {
+          count: 3,
+          edges: [
+            { node: postNode("C", 1584800000) },
+            { node: postNode("B", 1584722760) },
+            { node: postNode("A", 1584636360) },
+          ],
+          page_info: { has_next_page: false, end_cursor: null },
+        },
+      }),
+    );
+    expect(second.sections.posts).toEqual({ fetched: 1, downloaded: 1, failed: 0 });
+    expect(second.sections.profilePic).toEqual({ fetched: 1, downloaded: 0, failed: 0 });
+    expect(readdirSync(join(dir(), "instagram"))).toEqual(["C.jpg"]);
+    expect(existsSync(join(dir(), "instagram", "id"))).toBe(false);
+  });
+
+  test("rejects invalid slide options", () => {
+    const result = Effect.runSync(Effect.either(makeInstaloaderConfig({ slide: "3-1" })));
+    expect(result._tag).toBe("Left");
+    expect(Effect.runSync(makeInstaloaderConfig({ slide: "2-last" }))).toMatchObject({ slideStart: 1, slideEnd: -1 });
+  });
+
+  test("rejects a download concurrency below one", () => {
+    const result = Effect.runSync(Effect.either(makeInstaloaderConfig({ downloadConcurrency: 0 })));
+    expect(result._tag === "Left" && result.left.argument).toBe("downloadConcurrency");
+  });
+});
+
+describe("checkProfileIdEffect", () => {
+  const dir = useTempDir("instaloader-ts-");
+
+  const renamedContext = async (): Promise<InstaloaderContextShape> => {
+    const base = await makeContext(false);
+    return {
+      ...base,
+      getIphoneJson: () => Effect.succeed({ data: { user: null } }),
+      graphqlQuery: () =>
+        Effect.succeed({ data: { user: { reel: { owner: { id: "25025320", username: "new_name" } } } } }),
+    };
+  };
+  const check = (context: InstaloaderContextShape, name: string) =>
+    Effect.runPromise(
+      Effect.provide(
+        checkProfileIdEffect(context, Effect.runSync(makeInstaloaderConfig({ dirnamePattern: join(dir(), "{target}") })), name),
+        PlatformLayer,
+      ),
+    );
+
+  test("finds a renamed profile by its stored ID and moves its directory", async () => {
+    mkdirSync(join(dir(), "old_name"));
+    writeFileSync(join(dir(), "old_name", "id"), "25025320");
+    writeFileSync(join(dir(), "old_name", "A.jpg"), "");
+
+    const profile = await check(await renamedContext(), "old_name");
+    expect(profile.node["username"]).toBe("new_name");
+    expect(existsSync(join(dir(), "old_name"))).toBe(false);
+    expect(readdirSync(join(dir(), "new_name")).sort()).toEqual(["A.jpg", "id"]);
+  });
+
+  test("merges into an existing directory of the new name", async () => {
+    mkdirSync(join(dir(), "old_name"));
+    mkdirSync(join(dir(), "new_name"));
+    writeFileSync(join(dir(), "old_name", "id"), "25025320");
+    writeFileSync(join(dir(), "old_name", "A.jpg"), "");
+    writeFileSync(join(dir(), "new_name", "B.jpg"), "");
+
+    await check(await renamedContext(), "old_name");
+    expect(readdirSync(join(dir(), "new_name")).sort()).toEqual(["A.jpg", "B.jpg", "id"]);
+    expect(existsSync(join(dir(), "old_name"))).toBe(false);
+  });
+
+  test("fails for unknown profiles without a stored ID", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(
+        Effect.provide(
+          checkProfileIdEffect(
+            await renamedContext(),
+            Effect.runSync(makeInstaloaderConfig({ dirnamePattern: join(dir(), "{target}") })),
+            "nobody",
+          ),
+          PlatformLayer,
+        ),
+      ),
+    );
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left._tag).toBe("ProfileNotExistsError");
+    }
+  });
+});
+
+describe("downloadProfilePicEffect", () => {
+  const dir = useTempDir("instaloader-ts-");
+
+  const contextServing = async (content: number[], lastModified: string): Promise<InstaloaderContextShape> => {
+    const base = await makeContext(false);
+    return {
+      ...base,
+      getRaw: () => Effect.succeed(new Response(new Uint8Array(content), { headers: { "Last-Modified": lastModified } })),
+    };
+  };
+
+  const download = (context: InstaloaderContextShape) =>
+    Effect.runPromise(
+      Effect.provide(
+        downloadProfilePicEffect(
+          context,
+          Effect.runSync(makeInstaloaderConfig({ dirnamePattern: join(dir(), "{target}") })),
+          makeProfile({}),
+        ),
+        PlatformLayer,
+      ),
+    );
+
+  test("skips pictures identical to the newest existing one", async () => {
+    expect(await download(await contextServing([1, 2, 3], "Fri, 20 Mar 2020 16:46:00 GMT"))).toBe(true);
+    expect(await download(await contextServing([1, 2, 3], "Sat, 21 Mar 2020 10:00:00 GMT"))).toBe(false);
+    expect(await download(await contextServing([4, 5], "Sun, 22 Mar 2020 10:00:00 GMT"))).toBe(true);
+    expect(readdirSync(join(dir(), "instagram")).sort()).toEqual([
+      "2020-03-20_16-46-00_UTC_profile_pic.jpg",
+      "2020-03-22_10-00-00_UTC_profile_pic.jpg",
+    ]);
+  });
+
+  test("releases the response of a picture that already exists", async () => {
+    const lastModified = "Fri, 20 Mar 2020 16:46:00 GMT";
+    await download(await contextServing([1, 2, 3], lastModified));
+    let cancelled = false;
+    const context: InstaloaderContextShape = {
+      ...(await makeContext(false)),
+      getRaw: () =>
+        Effect.succeed(
+          new Response(
+            new ReadableStream({
+              cancel: () => {
+                cancelled = true;
+              },
+            }),
+            {
+              headers: { "Last-Modified": lastModified },
+            },
+          ),
+        ),
+    };
+    expect(await download(context)).toBe(false);
+    expect(cancelled).toBe(true);
+  });
+
+  test("compares against the newest picture only", async () => {
+    await download(await contextServing([1, 2, 3], "Fri, 20 Mar 2020 16:46:00 GMT"));
+    await download(await contextServing([4, 5], "Sun, 22 Mar 2020 10:00:00 GMT"));
+    expect(await download(await contextServing([1, 2, 3], "Mon, 23 Mar 2020 10:00:00 GMT"))).toBe(true);
+    expect(readFileSync(join(dir(), "instagram", "2020-03-23_10-00-00_UTC_profile_pic.jpg"))).toEqual(
+      Buffer.from([1, 2, 3]),
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach } from "bun:test";
+import { Effect } from "effect";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { makeInstaloaderContext, postFromNodeSync, type InstaloaderContextShape } from "../src/effect/index.ts";
+
+/** Content of the JPEG file served by `jpegResponse` */
+export const jpegBytes = new Uint8Array([0xff, 0xd8, 0xff]);
+
+export const jpegResponse = (headers: Record<string, string> = {}) =>
+  new Response(jpegBytes, { headers: { "Content-Type": "image/jpeg", ...headers } });
+
+/** GraphQL node of an image post taken at `timestamp`, served from `https://example.com/{shortcode}.jpg` */
+export const postNode = (shortcode: string, timestamp = 1584722760, fields: Record<string, unknown> = {}) => ({
+  __typename: "GraphImage",
+  shortcode,
+  id: String(timestamp),
+  display_url: `https://example.com/${shortcode}.jpg?x=1`,
+  is_video: false,
+  taken_at_timestamp: timestamp,
+  ...fields,
+});
+
+export const makePost = (shortcode: string, fields: Record<string, unknown> = {}) =>
+  postFromNodeSync(postNode(shortcode, undefined, fields));
+
+/**
+ * A quiet context whose downloads all return `jpegResponse()`, with the given members
+ * replaced; `loggedIn` loads a session of the user "viewer".
+ */
+export const makeTestContext = async (
+  overrides: Partial<InstaloaderContextShape> = {},
+  options: { loggedIn?: boolean } = {},
+): Promise<InstaloaderContextShape> => {
+  const base = await Effect.runPromise(makeInstaloaderContext({ quiet: true, iphoneSupport: false }));
+  if (options.loggedIn) {
+    await Effect.runPromise(base.loadSession("viewer", { sessionid: "x", csrftoken: "y" }));
+  }
+  return { ...base, getRaw: () => Effect.succeed(jpegResponse()), ...overrides };
+};
+
+/**
+ * Creates a temporary directory before each test of the enclosing `describe` and
+ * removes it afterwards; returns a getter for the current directory.
+ */
+export const useTempDir = (prefix: string): (() => string) => {
+  let dir = "";
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), prefix));
+  });
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+  return () => dir;
+};
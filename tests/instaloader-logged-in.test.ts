@@ -2,15 +2,13 @@ import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
-import { readFile } from "node:fs/promises";
-import { homedir } from "node:os";
 import {
   Instaloader,
+  defaultSessionFilename,
   isErr,
   isOk,
   isSome,
   type Post,
-  type SessionData,
 } from "../src/index.ts";
 
 const OWN_USERNAME = "zakaria_._ben";
@@ -18,21 +16,6 @@ const PUBLIC_PROFILE = "selenagomez";
 const PAGING_MAX_COUNT = 15;
 const TEST_TIMEOUT = 90000;
 
-function getSessionPath(username: string): string {
-  const configDir = process.env["XDG_CONFIG_HOME"] ?? path.join(homedir(), ".config");
-  return path.join(configDir, "instaloader", `session-${username}`);
-}
-
-async function loadSessionFromFile(username: string): Promise<SessionData | null> {
-  try {
-    const sessionPath = getSessionPath(username);
-    const data = await readFile(sessionPath, "utf-8");
-    return JSON.parse(data) as SessionData;
-  } catch {
-    return null;
-  }
-}
-
 describe("Instaloader Logged In Tests", () => {
   let loader: Instaloader;
   let testDir: string;
@@ -53,17 +36,12 @@ describe("Instaloader Logged In Tests", () => {
     }
     loader = loaderResult.value;
 
-    const sessionData = await loadSessionFromFile(OWN_USERNAME);
-    if (sessionData) {
-      const result = await loader.loadSessionData(OWN_USERNAME, sessionData);
-      if (isOk(result)) {
-        sessionAvailable = true;
-        console.log("Session loaded successfully");
-      } else {
-        console.log(`Could not load session: ${result.error}`);
-      }
+    const result = await loader.loadSessionFromFile(OWN_USERNAME);
+    if (isOk(result)) {
+      sessionAvailable = true;
+      console.log("Session loaded successfully");
     } else {
-      console.log(`Session file not found: ${getSessionPath(OWN_USERNAME)}`);
+      console.log(`Could not load session from ${defaultSessionFilename(OWN_USERNAME)}: ${result.error.message}`);
     }
   });
 
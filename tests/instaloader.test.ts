@@ -1,7 +1,23 @@
 import { describe, test, expect } from "bun:test";
 import {
   formatStringContainsKey,
+  formatPostFilename,
+  formatStoryItemFilename,
+  postFromNodeSync,
 } from "../src/index.ts";
+import { storyItemFromNode } from "../src/structures/index.ts";
+
+const post = postFromNodeSync({
+  __typename: "GraphImage",
+  shortcode: "B_K4CykAOtf",
+  id: "2275036226478860127",
+  display_url: "https://example.com/image.jpg",
+  is_video: false,
+  taken_at_timestamp: 1584722760,
+  owner: { id: "25025320", username: "instagram", full_name: "../Insta/gram" },
+  edge_media_preview_like: { count: 42 },
+  edge_media_to_caption: { edges: [{ node: { text: "Hello/World #cats" } }] },
+});
 
 describe("Instaloader", () => {
   describe("formatStringContainsKey", () => {
@@ -23,4 +39,48 @@ describe("Instaloader", () => {
       expect(formatStringContainsKey("{profile_name}", "profile")).toBe(false);
     });
   });
+
+  describe("formatPostFilename", () => {
+    test("formats dates like Python instaloader", () => {
+      expect(formatPostFilename(post, "{date_utc}_UTC")).toBe("2020-03-20_16-46-00_UTC");
+      expect(formatPostFilename(post, "{date_utc:%Y-%m-%d}/{date_utc.year}")).toBe("2020-03-20/2020");
+    });
+
+    test("replaces repeated keys and owner properties", () => {
+      expect(formatPostFilename(post, "{shortcode}_{shortcode}_{owner_id}_{profile}_{likes}")).toBe(
+        "B_K4CykAOtf_B_K4CykAOtf_25025320_instagram_42",
+      );
+      expect(formatPostFilename(post, "{owner_profile.username}")).toBe("instagram");
+    });
+
+    test("sanitizes values but not the pattern", () => {
+      expect(formatPostFilename(post, "{target}/{caption:.11}", "a/b")).toBe("a\u2215b/Hello\u2215World");
+    });
+
+    test("sanitizes attribute and index lookups", () => {
+      expect(formatPostFilename(post, "{owner_profile.full_name}")).toBe("\u2024.\u2215Insta\u2215gram");
+      expect(formatPostFilename(post, "{caption_hashtags[0]}_{owner_profile[full_name]:.3}")).toBe("cats_\u2024.\u2215");
+    });
+
+    test("applies format specs and keeps unknown keys and {filename}", () => {
+      expect(formatPostFilename(post, "{likes:05d}_{unknown}_{filename}_{{literal}}")).toBe(
+        "00042_{unknown}_{filename}_{literal}",
+      );
+    });
+  });
+
+  describe("formatStoryItemFilename", () => {
+    test("formats story item properties", () => {
+      const item = storyItemFromNode(
+        {
+          id: "42",
+          __typename: "GraphStoryImage",
+          taken_at_timestamp: 1584722760,
+          expiring_at_timestamp: 1584809160,
+        },
+        { node: { id: "1", username: "someone" }, iphoneStruct: null },
+      );
+      expect(formatStoryItemFilename(item, "{owner_username}_{mediaid}_{expiring_utc:%H-%M}")).toBe("someone_42_16-46");
+    });
+  });
 });
@@ -0,0 +1,71 @@
+import { describe, test, expect } from "bun:test";
+import { Effect } from "effect";
+import {
+  compileItemFilter,
+  evaluateItemFilter,
+  postFromNodeSync,
+  postTemplateFields,
+  type ItemFilterType,
+} from "../src/effect/index.ts";
+
+const post = postFromNodeSync({
+  __typename: "GraphImage",
+  shortcode: "B_K4CykAOtf",
+  id: "2275036226478860127",
+  display_url: "https://example.com/image.jpg",
+  is_video: false,
+  taken_at_timestamp: 1584722760,
+  owner: { id: "25025320", username: "instagram" },
+  edge_media_preview_like: { count: 812 },
+  edge_media_to_caption: { edges: [{ node: { text: "Spring #flowers #nature" } }] },
+});
+
+const matches = (source: string): boolean =>
+  Effect.runSync(
+    Effect.flatMap(compileItemFilter(source, "Post"), (filter) => evaluateItemFilter(filter, postTemplateFields(post))),
+  );
+
+const compileError = (source: string, itemType: ItemFilterType = "Post") =>
+  Effect.runSync(Effect.flip(compileItemFilter(source, itemType)));
+
+describe("item filters", () => {
+  test("evaluates comparisons, boolean operators and dates", () => {
+    expect(matches('likes > 500 and not is_video and date_utc > "2020-01-01"')).toBe(true);
+    expect(matches("likes > 1000 or is_video")).toBe(false);
+    expect(matches("date_utc < datetime(2020, 3, 20, 17)")).toBe(true);
+    expect(matches("date_utc.year == 2020 and 3 <= date_utc.month < 4")).toBe(true);
+    expect(matches("likes // 100 % 2 == 0 and -likes < 0")).toBe(true);
+  });
+
+  test("supports membership, attributes and indexing", () => {
+    expect(matches("'flowers' in caption_hashtags and 'cats' not in caption_hashtags")).toBe(true);
+    expect(matches('owner_username in ["instagram", "python"]')).toBe(true);
+    expect(matches("caption_hashtags[-1] == 'nature' and shortcode[0] == 'B'")).toBe(true);
+    expect(matches("video_url is None and owner_profile.username == 'instagram'")).toBe(true);
+  });
+
+  test("rejects unknown properties and syntax errors", () => {
+    expect(compileError("followers > 10")).toMatchObject({
+      _tag: "InvalidArgumentError",
+      message: "Invalid filter: followers not a Post attribute.",
+    });
+    expect(compileError("likes > 10", "StoryItem").message).toBe("Invalid filter: likes not a StoryItem attribute.");
+    expect(compileError("likes >").message).toBe("Invalid filter: unexpected end of filter at position 7");
+    expect(compileError("__import__('os')").message).toContain("not a Post attribute");
+    expect(compileError("likes; 1").message).toContain("unexpected character");
+  });
+
+  test("fails evaluation on mismatched types", () => {
+    const error = Effect.runSync(
+      Effect.flip(
+        Effect.flatMap(compileItemFilter("caption > 5", "Post"), (filter) =>
+          evaluateItemFilter(filter, postTemplateFields(post)),
+        ),
+      ),
+    );
+    expect(error).toMatchObject({
+      _tag: "InvalidArgumentError",
+      message: "'>' not supported between string and number",
+    });
+  });
+});
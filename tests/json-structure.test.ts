@@ -0,0 +1,134 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Effect } from "effect";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  loadStructure,
+  structureToJson,
+  loadStructureFromFileEffect,
+  PlatformLayer,
+  postFromNodeSync,
+  postShortcode,
+  Instaloader,
+} from "../src/index.ts";
+import { postOwnerUsername } from "../src/structures/index.ts";
+import { xzCompress } from "../src/utils/xz.ts";
+
+const postNode = {
+  __typename: "GraphImage",
+  shortcode: "B_K4CykAOtf",
+  id: "2275036226478860127",
+  display_url: "https://example.com/image.jpg",
+  is_video: false,
+  taken_at_timestamp: 1584722760,
+  owner: { id: "25025320", username: "instagram" },
+};
+
+const pythonEnvelope = {
+  node: postNode,
+  instaloader: { version: "4.13", node_type: "Post" },
+};
+
+describe("JSON structures", () => {
+  describe("loadStructure", () => {
+    test("loads a post from the Python instaloader envelope", () => {
+      const loaded = Effect.runSync(loadStructure(pythonEnvelope));
+      expect(loaded.nodeType).toBe("Post");
+      if (loaded.nodeType === "Post") {
+        expect(postShortcode(loaded.structure)).toBe("B_K4CykAOtf");
+        expect(postOwnerUsername(loaded.structure)._tag).toBe("Some");
+      }
+    });
+
+    test("round trips through structureToJson", () => {
+      const post = postFromNodeSync(postNode);
+      const json = structureToJson({ nodeType: "Post", structure: post });
+      expect((json["instaloader"] as Record<string, unknown>)["node_type"]).toBe("Post");
+      const loaded = Effect.runSync(loadStructure(JSON.parse(JSON.stringify(json))));
+      expect(loaded.nodeType).toBe("Post");
+    });
+
+    test("loads profiles, story items and hashtags", () => {
+      const profile = Effect.runSync(
+        loadStructure({ node: { id: "1", username: "a" }, instaloader: { node_type: "Profile" } }),
+      );
+      expect(profile.nodeType).toBe("Profile");
+      const item = Effect.runSync(
+        loadStructure({ node: { id: "42", __typename: "GraphStoryImage" }, instaloader: { node_type: "StoryItem" } }),
+      );
+      expect(item.nodeType).toBe("StoryItem");
+      const hashtag = Effect.runSync(
+        loadStructure({ node: { name: "cat" }, instaloader: { node_type: "Hashtag" } }),
+      );
+      expect(hashtag.nodeType).toBe("Hashtag");
+    });
+
+    test("accepts bare post nodes written by older versions", () => {
+      const loaded = Effect.runSync(loadStructure(postNode));
+      expect(loaded.nodeType).toBe("Post");
+    });
+
+    test("rejects unknown node types", () => {
+      const result = Effect.runSync(
+        Effect.either(loadStructure({ node: {}, instaloader: { node_type: "FrozenNodeIterator" } })),
+      );
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("InvalidArgumentError");
+      }
+    });
+
+    test("rejects JSON that is not an Instaloader structure", () => {
+      const result = Effect.runSync(Effect.either(loadStructure({ foo: "bar" })));
+      expect(result._tag).toBe("Left");
+    });
+  });
+
+  describe("loadStructureFromFile", () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), "instaloader-ts-"));
+      writeFileSync(join(dir, "post.json"), JSON.stringify(pythonEnvelope));
+      writeFileSync(
+        join(dir, "post.json.xz"),
+        xzCompress(new TextEncoder().encode(JSON.stringify(pythonEnvelope))),
+      );
+      writeFileSync(join(dir, "broken.json.xz"), JSON.stringify(pythonEnvelope));
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("reads plain and xz-compressed files", async () => {
+      for (const name of ["post.json", "post.json.xz"]) {
+        const loaded = await Effect.runPromise(
+          Effect.provide(loadStructureFromFileEffect(join(dir, name)), PlatformLayer),
+        );
+        expect(loaded.nodeType).toBe("Post");
+      }
+    });
+
+    test("client returns a wrapped post", async () => {
+      const created = await Instaloader.create({ quiet: true });
+      if (!created.ok) throw new Error("failed to create Instaloader");
+      const result = await created.value.loadStructureFromFile(join(dir, "post.json.xz"));
+      expect(result.ok).toBe(true);
+      if (result.ok && result.value.nodeType === "Post") {
+        expect(result.value.structure.shortcode).toBe("B_K4CykAOtf");
+      }
+    });
+
+    test("client reports invalid xz files as InvalidArgumentError", async () => {
+      const created = await Instaloader.create({ quiet: true });
+      if (!created.ok) throw new Error("failed to create Instaloader");
+      const result = await created.value.loadStructureFromFile(join(dir, "broken.json.xz"));
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error._tag).toBe("InvalidArgumentError");
+      }
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect } from "effect";
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { makeLatestStamps, PlatformLayer } from "../src/effect/index.ts";
+
+describe("LatestStamps", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "instaloader-stamps-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const open = (file: string) => Effect.runPromise(Effect.provide(makeLatestStamps(file), PlatformLayer));
+
+  test("reads the file written by Python instaloader", async () => {
+    const file = join(dir, "stamps.ini");
+    writeFileSync(
+      file,
+      [
+        "[instagram]",
+        "profile-id = 25025320",
+        "profile-pic = 12345_n.jpg",
+        "post-timestamp = 2020-03-20T17:46:00.000000+0100",
+        "",
+      ].join("\n"),
+    );
+    const stamps = await open(file);
+
+    expect(await Effect.runPromise(stamps.getProfileId("instagram"))).toBe(25025320);
+    expect(await Effect.runPromise(stamps.getProfileName(25025320))).toBe("instagram");
+    expect(await Effect.runPromise(stamps.getProfilePic("instagram"))).toBe("12345_n.jpg");
+    expect(await Effect.runPromise(stamps.getLastTimestamp("instagram", "post"))).toEqual(
+      new Date(Date.UTC(2020, 2, 20, 16, 46)),
+    );
+    expect((await Effect.runPromise(stamps.getLastTimestamp("instagram", "story"))).getTime()).toBe(0);
+    expect(await Effect.runPromise(stamps.getProfileId("unknown"))).toBeNull();
+  });
+
+  test("persists updates and moves stamps on rename", async () => {
+    const file = join(dir, "sub", "stamps.ini");
+    const stamps = await open(file);
+    await Effect.runPromise(
+      Effect.all([
+        stamps.saveProfileId("old_name", 1),
+        stamps.setLastTimestamp("old_name", "story", new Date(Date.UTC(2021, 0, 2, 3, 4, 5, 678))),
+        stamps.renameProfile("old_name", "new_name"),
+      ]),
+    );
+
+    expect(readFileSync(file, "utf8")).toBe(
+      "[new_name]\nprofile-id = 1\nstory-timestamp = 2021-01-02T03:04:05.678000+0000\n\n",
+    );
+    expect(readdirSync(join(dir, "sub"))).toEqual(["stamps.ini"]);
+
+    const reopened = await open(file);
+    expect(await Effect.runPromise(reopened.getProfileName(1))).toBe("new_name");
+    expect(await Effect.runPromise(reopened.getLastTimestamp("new_name", "story"))).toEqual(
+      new Date(Date.UTC(2021, 0, 2, 3, 4, 5, 678)),
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, test, expect } from "bun:test";
+import { Chunk, Effect, Stream } from "effect";
+import type { InstaloaderContextShape } from "../src/index.ts";
+import {
+  locationAddressJson,
+  locationFromIdEffect,
+  locationGetPostsStream,
+  locationGetRecentPostsStream,
+  locationToPostLocation,
+  postShortcode,
+} from "../src/structures/index.ts";
+import { makeTestContext } from "./helpers.ts";
+
+const media = (code: string) => ({
+  media: { code, pk: "1", taken_at: 1584722760, media_type: 1, user: { pk: "1", username: "someone" } },
+});
+
+const section = (...codes: string[]) => ({ layout_content: { medias: codes.map(media) } });
+
+const firstPage = {
+  native_location_data: {
+    location_info: {
+      location_id: "212988663",
+      name: "Instagram HQ",
+      slug: "instagram-hq",
+      lat: 37.4847,
+      lng: -122.1477,
+      has_public_page: true,
+      location_address: "1 Hacker Way",
+      location_city: "Menlo Park",
+      location_zip: "94025",
+    },
+    ranked: { sections: [section("top1", "both")], more_available: true, next_max_id: "ranked" },
+    recent: { sections: [section("both", "new1")], more_available: true, next_max_id: "page2" },
+  },
+};
+
+const secondPage = {
+  native_location_data: {
+    location_info: firstPage.native_location_data.location_info,
+    recent: { sections: [section("new2")], more_available: false },
+  },
+};
+
+const makeContext = (requests: Record<string, string>[]): Promise<InstaloaderContextShape> =>
+  makeTestContext(
+    {
+      getJson: (path, params) => {
+        requests.push({ path, ...params });
+        return Effect.succeed(params["max_id"] === "page2" ? secondPage : firstPage);
+      },
+    },
+    { loggedIn: true },
+  );
+
+describe("Location", () => {
+  test("fromId requires login", async () => {
+    const context = await makeTestContext();
+    const result = await Effect.runPromise(Effect.either(locationFromIdEffect(context, 212988663)));
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left._tag).toBe("LoginRequiredError");
+    }
+  });
+
+  test("exposes location metadata", async () => {
+    const requests: Record<string, string>[] = [];
+    const location = await Effect.runPromise(locationFromIdEffect(await makeContext(requests), 212988663));
+    expect(requests[0]?.["path"]).toBe("explore/locations/212988663/");
+    expect(locationToPostLocation(location)).toEqual({
+      id: 212988663,
+      name: "Instagram HQ",
+      slug: "instagram-hq",
+      hasPublicPage: true,
+      lat: 37.4847,
+      lng: -122.1477,
+    });
+    expect(locationAddressJson(location)).toEqual({
+      street_address: "1 Hacker Way",
+      zip_code: "94025",
+      city_name: "Menlo Park",
+      region_name: "",
+      country_code: "",
+    });
+  });
+
+  test("pages through recent posts", async () => {
+    const requests: Record<string, string>[] = [];
+    const context = await makeContext(requests);
+    const location = await Effect.runPromise(locationFromIdEffect(context, 212988663));
+    const posts = await Effect.runPromise(Stream.runCollect(locationGetRecentPostsStream(context, location)));
+    expect(Chunk.toReadonlyArray(posts).map(postShortcode)).toEqual(["both", "new1", "new2"]);
+    expect(requests[1]?.["max_id"]).toBe("page2");
+  });
+
+  test("yields top posts first without duplicating them", async () => {
+    const context = await makeContext([]);
+    const location = await Effect.runPromise(locationFromIdEffect(context, 212988663));
+    const posts = await Effect.runPromise(Stream.runCollect(locationGetPostsStream(context, location)));
+    expect(Chunk.toReadonlyArray(posts).map(postShortcode)).toEqual(["top1", "both", "new1", "new2"]);
+  });
+});
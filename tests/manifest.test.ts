@@ -0,0 +1,155 @@
+import { describe, test, expect } from "bun:test";
+import { Effect } from "effect";
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { makeInstaloaderConfig, downloadPostEffect, PlatformLayer, type ManifestItem } from "../src/effect/index.ts";
+import { openManifest } from "../src/core/manifest.ts";
+import { jpegBytes, makePost, makeTestContext, useTempDir } from "./helpers.ts";
+
+const item = (shortcode: string, dateUtc: Date, ownerUsername = "instagram"): ManifestItem => ({
+  kind: "post",
+  shortcode,
+  mediaid: 1,
+  ownerUsername,
+  ownerId: 25025320,
+  typename: "GraphImage",
+  dateUtc,
+  target: ownerUsername,
+});
+
+const file = (path: string, sha256 = "a".repeat(64)) => ({ path, size: 3, sha256 });
+
+describe("openManifest", () => {
+  const dir = useTempDir("instaloader-manifest-");
+
+  test("records items with their files and queries them newest first", async () => {
+    const entries = await Effect.runPromise(
+      Effect.gen(function* () {
+        const manifest = yield* openManifest(join(dir(), "manifest.sqlite"));
+        yield* manifest.record(item("old", new Date("2020-01-01T00:00:00Z")), [file("old.jpg")]);
+        yield* manifest.record(item("new", new Date("2021-01-01T00:00:00Z")), [file("new_1.jpg"), file("new_2.mp4")]);
+        const result = yield* manifest.query();
+        yield* manifest.close;
+        return result;
+      }),
+    );
+
+    expect(entries.map((entry) => entry.shortcode)).toEqual(["new", "old"]);
+    expect(entries[0]).toMatchObject({
+      kind: "post",
+      ownerUsername: "instagram",
+      ownerId: 25025320,
+      dateUtc: new Date("2021-01-01T00:00:00Z"),
+      files: [file("new_1.jpg"), file("new_2.mp4")],
+    });
+  });
+
+  test("keeps earlier files when an item is recorded again and persists across opens", async () => {
+    const path = join(dir(), "manifest.sqlite");
+    const date = new Date("2020-01-01T00:00:00Z");
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const manifest = yield* openManifest(path);
+        yield* manifest.record(item("post", date), [file("post.jpg")]);
+        yield* manifest.record(item("post", date), [file("post.mp4")], new Date("2022-01-01T00:00:00Z"));
+        yield* manifest.close;
+      }),
+    );
+
+    const entries = await Effect.runPromise(
+      Effect.flatMap(openManifest(path), (manifest) => manifest.query({ shortcode: "post" })),
+    );
+    expect(entries).toHaveLength(1);
+    expect(entries[0]!.downloadedAt).toEqual(new Date("2022-01-01T00:00:00Z"));
+    expect(entries[0]!.files.map((f) => f.path)).toEqual(["post.jpg", "post.mp4"]);
+  });
+
+  test("filters by owner, date range, hash and limit", async () => {
+    const query = await Effect.runPromise(
+      Effect.gen(function* () {
+        const manifest = yield* openManifest(join(dir(), "manifest.sqlite"));
+        yield* manifest.record(item("a", new Date("2020-01-01T00:00:00Z")), [file("a.jpg")]);
+        yield* manifest.record(item("b", new Date("2020-06-01T00:00:00Z"), "other"), [file("b.jpg", "b".repeat(64))]);
+        yield* manifest.record(item("c", new Date("2021-01-01T00:00:00Z")), [file("c.jpg")]);
+        return (q: Parameters<typeof manifest.query>[0]) =>
+          Effect.runPromise(manifest.query(q)).then((entries) => entries.map((entry) => entry.shortcode));
+      }),
+    );
+
+    expect(await query({ ownerUsername: "instagram" })).toEqual(["c", "a"]);
+    expect(await query({ since: new Date("2020-03-01T00:00:00Z"), until: new Date("2021-01-01T00:00:00Z") })).toEqual([
+      "b",
+    ]);
+    expect(await query({ sha256: "b".repeat(64) })).toEqual(["b"]);
+    expect(await query({ limit: 2 })).toEqual(["c", "b"]);
+  });
+});
+
+describe("downloadPostEffect with manifestFilename", () => {
+  const dir = useTempDir("instaloader-manifest-");
+
+  const post = makePost("B_K4CykAOtf", {
+    id: "2275036226478860127",
+    owner: { id: "25025320", username: "instagram" },
+    edge_media_to_caption: { edges: [] },
+  });
+
+  const downloadPost = async (manifestFilename: string | null) => {
+    const context = await makeTestContext();
+    const config = await Effect.runPromise(
+      makeInstaloaderConfig({ dirnamePattern: join(dir(), "{target}"), manifestFilename, saveMetadata: false }),
+    );
+    await Effect.runPromise(
+      downloadPostEffect(context, config, post, "instagram").pipe(Effect.provide(PlatformLayer)),
+    );
+  };
+  const queryManifest = () =>
+    Effect.runPromise(
+      Effect.acquireUseRelease(
+        openManifest(join(dir(), "instagram", "manifest.sqlite")),
+        (manifest) => manifest.query(),
+        (manifest) => manifest.close,
+      ),
+    );
+
+  test("records the post and its downloaded files", async () => {
+    await downloadPost("manifest.sqlite");
+    const entries = await queryManifest();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      kind: "post",
+      shortcode: "B_K4CykAOtf",
+      mediaid: Number("2275036226478860127"),
+      ownerUsername: "instagram",
+      ownerId: 25025320,
+      typename: "GraphImage",
+      dateUtc: new Date(1584722760 * 1000),
+      target: "instagram",
+      files: [
+        {
+          path: "2020-03-20_16-46-00_UTC.jpg",
+          size: 3,
+          sha256: createHash("sha256").update(jpegBytes).digest("hex"),
+        },
+      ],
+    });
+  });
+
+  test("records the post if its files already exist", async () => {
+    await downloadPost(null);
+    await downloadPost("manifest.sqlite");
+    const entries = await queryManifest();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ kind: "post", shortcode: "B_K4CykAOtf", files: [] });
+  });
+
+  test("closes the manifest when the download finishes", async () => {
+    await downloadPost("manifest.sqlite");
+    // SQLite removes the write-ahead log when the last connection is closed
+    expect(existsSync(join(dir(), "instagram", "manifest.sqlite"))).toBe(true);
+    expect(existsSync(join(dir(), "instagram", "manifest.sqlite-wal"))).toBe(false);
+  });
+});
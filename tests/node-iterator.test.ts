@@ -0,0 +1,72 @@
+import { describe, test, expect } from "bun:test";
+import { Chunk, Effect, Stream } from "effect";
+import { makeInstaloaderContext, makeNodeStream, type InstaloaderContextShape } from "../src/index.ts";
+import { profileGetFollowersStream } from "../src/structures/index.ts";
+import type { NodeIteratorConfig } from "../src/iterators/index.ts";
+import type { JsonNode } from "../src/structures/common.ts";
+
+const makeConfig = (context: InstaloaderContextShape): NodeIteratorConfig<number> => ({
+  context,
+  queryHash: "37479f2b8209594dde7facb0d904896a",
+  docId: null,
+  edgeExtractor: (d: JsonNode) => d,
+  nodeWrapper: (node: JsonNode) => node["id"] as number,
+  queryVariables: { id: "1" },
+  queryReferer: "https://www.instagram.com/instagram/",
+  firstData: {
+    edges: [1, 2, 3, 4, 5].map((id) => ({ node: { id } })),
+    page_info: { has_next_page: false, end_cursor: null },
+  },
+  isFirst: null,
+});
+
+describe("NodeIterator", () => {
+  test("freezes and resumes at the last yielded node", async () => {
+    const context = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+
+    const frozen = await Effect.runPromise(
+      Effect.gen(function* () {
+        const nodeStream = yield* makeNodeStream(makeConfig(context));
+        const taken = yield* Stream.runCollect(Stream.take(nodeStream.stream, 3));
+        expect(Chunk.toReadonlyArray(taken)).toEqual([1, 2, 3]);
+        return yield* nodeStream.freeze;
+      }),
+    );
+
+    expect(frozen.totalIndex).toBe(2);
+    expect(frozen.bestBefore).toBeGreaterThan(Date.now() / 1000);
+
+    const resumed = await Effect.runPromise(
+      Effect.gen(function* () {
+        const nodeStream = yield* makeNodeStream(makeConfig(context), JSON.parse(JSON.stringify(frozen)));
+        return yield* Stream.runCollect(nodeStream.stream);
+      }),
+    );
+    expect(Chunk.toReadonlyArray(resumed)).toEqual([3, 4, 5]);
+  });
+
+  test("refuses to resume with mismatching query", async () => {
+    const context = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+    const frozen = await Effect.runPromise(
+      Effect.flatMap(makeNodeStream(makeConfig(context)), (nodeStream) => nodeStream.freeze),
+    );
+    const result = await Effect.runPromise(
+      Effect.either(makeNodeStream({ ...makeConfig(context), queryVariables: { id: "2" } }, frozen)),
+    );
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left.message).toBe("Mismatching resume information.");
+    }
+  });
+
+  test("followers require login", async () => {
+    const context = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+    const result = await Effect.runPromise(
+      Effect.either(profileGetFollowersStream(context, { node: { id: "1", username: "a" }, iphoneStruct: null })),
+    );
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left._tag).toBe("LoginRequiredError");
+    }
+  });
+});
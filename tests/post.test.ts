@@ -1,9 +1,14 @@
 import { describe, test, expect } from "bun:test";
+import { Chunk, Effect, Stream } from "effect";
 import {
   shortcodeToMediaidSync,
   mediaidToShortcodeSync,
   postSupportedGraphqlTypes,
+  postFromNodeSync,
+  postGetLikesStream,
+  profileUsername,
 } from "../src/structures/index.ts";
+import { makeInstaloaderContext } from "../src/index.ts";
 
 describe("Post", () => {
   describe("shortcodeToMediaid", () => {
@@ -73,4 +78,35 @@ describe("Post", () => {
       expect(types).toHaveLength(3);
     });
   });
+
+  describe("getLikesStream", () => {
+    const post = postFromNodeSync({
+      shortcode: "B_K4CykAOtf",
+      edge_media_preview_like: {
+        count: 2,
+        edges: [
+          { node: { id: "1", username: "alice" } },
+          { node: { id: "2", username: "bob" } },
+        ],
+      },
+    });
+
+    test("requires login", async () => {
+      const context = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+      const result = await Effect.runPromise(Effect.either(postGetLikesStream(context, post)));
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("LoginRequiredError");
+      }
+    });
+
+    test("yields inline likes as profiles", async () => {
+      const context = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+      await Effect.runPromise(context.loadSession("viewer", { sessionid: "x", csrftoken: "y" }));
+      const likes = await Effect.runPromise(
+        Effect.flatMap(postGetLikesStream(context, post), Stream.runCollect),
+      );
+      expect(Chunk.toReadonlyArray(likes).map(profileUsername)).toEqual(["alice", "bob"]);
+    });
+  });
 });
@@ -0,0 +1,50 @@
+import { describe, test, expect } from "bun:test";
+import { Chunk, Effect, Stream } from "effect";
+import { makeInstaloaderContext, type InstaloaderContextShape } from "../src/index.ts";
+import { profileGetSimilarAccountsStream, profileUsername, type ProfileData } from "../src/structures/index.ts";
+
+const profile: ProfileData = { node: { id: "25025320", username: "instagram" }, iphoneStruct: null };
+
+describe("Profile", () => {
+  describe("getSimilarAccountsStream", () => {
+    test("requires login", async () => {
+      const context = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+      const result = await Effect.runPromise(Effect.either(profileGetSimilarAccountsStream(context, profile)));
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect(result.left._tag).toBe("LoginRequiredError");
+      }
+    });
+
+    test("queries with chaining enabled and yields suggested profiles", async () => {
+      const base = await Effect.runPromise(makeInstaloaderContext({ quiet: true }));
+      await Effect.runPromise(base.loadSession("viewer", { sessionid: "x", csrftoken: "y" }));
+      const queries: Record<string, unknown>[] = [];
+      const context: InstaloaderContextShape = {
+        ...base,
+        graphqlQuery: (_hash, variables) => {
+          queries.push(variables);
+          return Effect.succeed({
+            data: {
+              user: {
+                edge_chaining: {
+                  edges: [
+                    { node: { id: "1", username: "creator_one" } },
+                    { node: { id: "2", username: "creator_two" } },
+                  ],
+                },
+              },
+            },
+          });
+        },
+      };
+
+      const similar = await Effect.runPromise(
+        Effect.flatMap(profileGetSimilarAccountsStream(context, profile), Stream.runCollect),
+      );
+      expect(Chunk.toReadonlyArray(similar).map(profileUsername)).toEqual(["creator_one", "creator_two"]);
+      expect(queries[0]?.["include_chaining"]).toBe(true);
+      expect(queries[0]?.["user_id"]).toBe("25025320");
+    });
+  });
+});
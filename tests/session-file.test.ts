@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect } from "effect";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pickleStringDict, unpickleStringDict } from "../src/utils/pickle.ts";
+import {
+  makeInstaloaderContext,
+  saveSessionToFileEffect,
+  loadSessionFromFileEffect,
+  defaultSessionFilename,
+  PlatformLayer,
+} from "../src/effect/index.ts";
+
+const session = { sessionid: "123%3Aabc", csrftoken: "tok", ds_user_id: "42" };
+
+// pickle.dumps(session, protocol=p) in Python
+const pickled = {
+  0: "286470300a5673657373696f6e69640a70310a563132332533416162630a70320a735663737266746f6b656e0a70330a56746f6b0a70340a735664735f757365725f69640a70350a5634320a70360a732e",
+  2: "80027d710028580900000073657373696f6e6964710158090000003132332533416162637102580900000063737266746f6b656e71035803000000746f6b7104580a00000064735f757365725f69647105580200000034327106752e",
+  4: "80049541000000000000007d94288c0973657373696f6e6964948c09313233253341616263948c0963737266746f6b656e948c03746f6b948c0a64735f757365725f6964948c02343294752e",
+};
+
+const fromHex = (hex: string): Uint8Array => Uint8Array.from(Buffer.from(hex, "hex"));
+const toHex = (data: Uint8Array): string => Buffer.from(data).toString("hex");
+
+describe("pickle", () => {
+  test("writes the bytes Python's pickle writes with protocol 4", () => {
+    expect(toHex(pickleStringDict(session))).toBe(pickled[4]);
+    expect(toHex(pickleStringDict({ a: "b" }))).toBe("8004950c000000000000007d948c0161948c016294732e");
+    expect(toHex(pickleStringDict({}))).toBe("80047d942e");
+  });
+
+  test("reads pickles of protocols 0, 2 and 4", () => {
+    for (const hex of Object.values(pickled)) {
+      expect(unpickleStringDict(fromHex(hex))).toEqual(session);
+    }
+  });
+
+  test("reads non-ASCII strings of protocol 0", () => {
+    // pickle.dumps({"name": "José €\x80", "a\\b": "x\ny"}, protocol=0)
+    const hex =
+      "286470300a566e616d650a70310a564a6f73e9205c7532306163800a70320a7356615c7530303563620a70330a56785c7530303061790a70340a732e";
+    expect(unpickleStringDict(fromHex(hex))).toEqual({ name: "José €\u0080", "a\\b": "x\ny" });
+  });
+
+  test("round-trips long and non-ASCII strings", () => {
+    const dict = { k: "x".repeat(300), "é": "ü" };
+    expect(unpickleStringDict(pickleStringDict(dict))).toEqual(dict);
+  });
+
+  test("rejects other pickled objects", () => {
+    expect(() => unpickleStringDict(fromHex("80049508000000000000005d948c016194612e"))).toThrow("Unsupported");
+    expect(() => unpickleStringDict(fromHex("8004950a000000000000007d948c0161944b01732e"))).toThrow("Unsupported");
+    expect(() => unpickleStringDict(fromHex("80047d94"))).toThrow("unexpected end");
+  });
+});
+
+describe("session files", () => {
+  let dir: string;
+  const originalConfigHome = process.env["XDG_CONFIG_HOME"];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "instaloader-session-"));
+    process.env["XDG_CONFIG_HOME"] = dir;
+  });
+
+  afterEach(() => {
+    if (originalConfigHome === undefined) {
+      delete process.env["XDG_CONFIG_HOME"];
+    } else {
+      process.env["XDG_CONFIG_HOME"] = originalConfigHome;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const run = <A, E>(effect: Effect.Effect<A, E, never>) => Effect.runPromise(effect);
+  const makeContext = () => run(makeInstaloaderContext({ quiet: true, iphoneSupport: false }));
+
+  test("saves the session where Python instaloader does, readable only by the owner", async () => {
+    const context = await makeContext();
+    await run(context.loadSession("user", session));
+
+    const file = await run(Effect.provide(saveSessionToFileEffect(context), PlatformLayer));
+
+    expect(file).toBe(join(dir, "instaloader", "session-user"));
+    expect(file).toBe(defaultSessionFilename("user"));
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+    expect(statSync(join(dir, "instaloader")).mode & 0o777).toBe(0o700);
+    expect(unpickleStringDict(readFileSync(file))).toEqual(await run(context.saveSession));
+  });
+
+  test("loads a session saved by Python instaloader", async () => {
+    const file = join(dir, "session-python");
+    writeFileSync(file, fromHex(pickled[4]));
+    const context = await makeContext();
+
+    expect(await run(Effect.provide(loadSessionFromFileEffect(context, "user", file), PlatformLayer))).toBe(file);
+    expect(await run(context.getUsername)).toBe("user");
+    expect(await run(context.saveSession)).toMatchObject(session);
+  });
+
+  test("still reads JSON session files", async () => {
+    const file = join(dir, "session-json");
+    writeFileSync(file, JSON.stringify(session));
+    const context = await makeContext();
+
+    await run(Effect.provide(loadSessionFromFileEffect(context, "user", file), PlatformLayer));
+
+    expect(await run(context.saveSession)).toMatchObject(session);
+  });
+
+  test("fails for missing and invalid files", async () => {
+    const context = await makeContext();
+    const missing = await run(Effect.flip(Effect.provide(loadSessionFromFileEffect(context, "nobody"), PlatformLayer)));
+    expect(missing._tag === "SystemError" && missing.reason).toBe("NotFound");
+
+    const file = join(dir, "session-bad");
+    writeFileSync(file, "not a session");
+    const invalid = await run(
+      Effect.flip(Effect.provide(loadSessionFromFileEffect(context, "user", file), PlatformLayer))
+    );
+    expect(invalid._tag).toBe("InvalidArgumentError");
+    expect(invalid.message).toStartWith(`${file} is not a valid session file`);
+  });
+
+  test("requires a login or a filename to save", async () => {
+    const context = await makeContext();
+    const error = await run(Effect.flip(Effect.provide(saveSessionToFileEffect(context), PlatformLayer)));
+    expect(error._tag).toBe("LoginRequiredError");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect } from "bun:test";
+import { Chunk, Effect, Stream } from "effect";
+import type { InstaloaderContextShape } from "../src/index.ts";
+import {
+  hashtagName,
+  profileUserid,
+  profileUsername,
+  topSearchFromQuery,
+  topSearchGetHashtags,
+  topSearchGetHashtagStrings,
+  topSearchGetLocations,
+  topSearchGetPrefixedUsernames,
+  topSearchGetProfiles,
+} from "../src/structures/index.ts";
+import { makeTestContext } from "./helpers.ts";
+
+const response = {
+  users: [
+    { position: 0, user: { pk: "25025320", username: "instagram", full_name: "Instagram" } },
+    { position: 1, user: { pk: "1", username: "the_instagram_fan" } },
+  ],
+  places: [
+    {
+      position: 2,
+      place: {
+        slug: "instagram-hq",
+        location: { pk: "212988663", name: "Instagram HQ", lat: 37.4847, lng: -122.1477 },
+      },
+    },
+  ],
+  hashtags: [{ position: 3, hashtag: { name: "instagram", media_count: 10 } }, { hashtag: {} }],
+};
+
+const makeContext = (params: Record<string, string>[]): Promise<InstaloaderContextShape> =>
+  makeTestContext({
+    getJson: (path, queryParams) => {
+      params.push({ path, ...queryParams });
+      return Effect.succeed(response);
+    },
+  });
+
+const collect = <A>(stream: Stream.Stream<A>): A[] =>
+  Chunk.toReadonlyArray(Effect.runSync(Stream.runCollect(stream))) as A[];
+
+describe("TopSearchResults", () => {
+  test("queries the blended top search endpoint", async () => {
+    const params: Record<string, string>[] = [];
+    const context = await makeContext(params);
+    await Effect.runPromise(topSearchFromQuery(context, "@Insta"));
+    expect(params[0]).toEqual({
+      path: "web/search/topsearch/",
+      context: "blended",
+      query: "@Insta",
+      include_reel: "false",
+      __a: "1",
+    });
+  });
+
+  test("yields profiles, usernames, locations and hashtags", async () => {
+    const context = await makeContext([]);
+    const results = await Effect.runPromise(topSearchFromQuery(context, "@Insta"));
+
+    const profiles = collect(topSearchGetProfiles(results));
+    expect(profiles.map(profileUsername)).toEqual(["instagram", "the_instagram_fan"]);
+    expect(profileUserid(profiles[0]!)).toBe(25025320);
+
+    expect(collect(topSearchGetPrefixedUsernames(results))).toEqual(["instagram"]);
+
+    expect(collect(topSearchGetLocations(results))).toEqual([
+      { id: 212988663, name: "Instagram HQ", slug: "instagram-hq", hasPublicPage: null, lat: 37.4847, lng: -122.1477 },
+    ]);
+
+    expect(collect(topSearchGetHashtagStrings(results))).toEqual(["instagram"]);
+    expect(collect(topSearchGetHashtags(results)).map(hashtagName)).toEqual(["instagram"]);
+  });
+});
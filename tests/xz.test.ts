@@ -0,0 +1,86 @@
+import { describe, test, expect } from "bun:test";
+import { xzCompress, xzDecompress } from "../src/utils/xz.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const fromBase64 = (b64: string): Uint8Array => Uint8Array.from(Buffer.from(b64, "base64"));
+
+describe("xz", () => {
+  describe("xzCompress", () => {
+    test("writes the xz stream header and footer magic", () => {
+      const compressed = xzCompress(encoder.encode("{}"));
+      expect(Array.from(compressed.subarray(0, 6))).toEqual([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]);
+      expect(decoder.decode(compressed.subarray(-2))).toBe("YZ");
+    });
+
+    test("compresses repetitive JSON", () => {
+      const json = JSON.stringify(
+        Array.from({ length: 500 }, (_, i) => ({ id: i, typename: "GraphImage", is_video: false })),
+      );
+      const compressed = xzCompress(encoder.encode(json));
+      expect(compressed.length).toBeLessThan(json.length / 4);
+    });
+  });
+
+  describe("round trip", () => {
+    test("empty input", () => {
+      expect(xzDecompress(xzCompress(new Uint8Array(0)))).toEqual(new Uint8Array(0));
+    });
+
+    test("short text", () => {
+      const data = encoder.encode("instaloader");
+      expect(xzDecompress(xzCompress(data))).toEqual(data);
+    });
+
+    test("input spanning several LZMA2 chunks", () => {
+      const json = JSON.stringify(
+        Array.from({ length: 8000 }, (_, i) => ({ shortcode: `B_${i}`, caption: "x".repeat(i % 40) })),
+      );
+      const data = encoder.encode(json);
+      expect(data.length).toBeGreaterThan(3 * 65536);
+      expect(xzDecompress(xzCompress(data))).toEqual(data);
+    });
+
+    test("incompressible input", () => {
+      let seed = 12345;
+      const data = Uint8Array.from({ length: 100000 }, () => {
+        seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+        return seed >>> 24;
+      });
+      expect(xzDecompress(xzCompress(data))).toEqual(data);
+    });
+  });
+
+  describe("xzDecompress", () => {
+    test("decodes output of Python's lzma module with CRC64 check", () => {
+      const data = fromBase64(
+        "/Td6WFoAAATm1rRGAgAhARYAAAB0L+Wj4ABHABhdADCYiKsKckRI3dbi8ttHZqrNqu8q/LRAAAAkSYmldfwo1gABNEh+j6vjH7bzfQEAAAAABFla",
+      );
+      expect(decoder.decode(xzDecompress(data))).toBe(
+        "abcabcabcabcabcabcabcabcabcabcabcabc instaloader instaloader instaloader",
+      );
+    });
+
+    test("decodes concatenated streams with no integrity check", () => {
+      const first = fromBase64(
+        "/Td6WFoAAATm1rRGAgAhARYAAAB0L+WjAQAleyJub2RlIjogeyJzaG9ydGNvZGUiOiAiQl9LNEN5a0FPdGYifX0AAAD7drok0ws3rAABPiarK06zH7bzfQEAAAAABFla",
+      );
+      const second = fromBase64("/Td6WFoAAAD/EtlBAgAhARYAAAB0L+WjAQAEaGVsbG8AAAAAAAEVBbCnWWcGcp56AQAAAAAAWVo=");
+      const joined = new Uint8Array(first.length + second.length);
+      joined.set(first);
+      joined.set(second, first.length);
+      expect(decoder.decode(xzDecompress(joined))).toBe('{"node": {"shortcode": "B_K4CykAOtf"}}hello');
+    });
+
+    test("rejects data that is not xz", () => {
+      expect(() => xzDecompress(encoder.encode('{"node": {}}'))).toThrow("Not an xz file");
+    });
+
+    test("rejects corrupted data", () => {
+      const compressed = xzCompress(encoder.encode("instaloader ".repeat(100)));
+      compressed[compressed.length - 20] = compressed[compressed.length - 20]! ^ 0xff;
+      expect(() => xzDecompress(compressed)).toThrow();
+    });
+  });
+});